@@ -0,0 +1,325 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import type { Session } from "@supabase/supabase-js"
+import Link from "next/link"
+import { ArrowLeft, BarChart3 } from "lucide-react"
+import { BarChart, LineChart } from "@/components/analytics-charts"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  averageCompletionTime,
+  burndown,
+  completionStreak,
+  completionsByDay,
+  completionsByWeek,
+  deadlineResults,
+  formatDuration,
+} from "@/lib/analytics"
+import { localTimeZone, parseIsoDate, zonedDateTime } from "@/lib/dates"
+import { todoRepository, userSettingsRepository } from "@/lib/repositories"
+import { selectFieldClass } from "@/lib/styles"
+import { supabase } from "@/lib/supabaseClient"
+import type { Priority, Todo } from "@/lib/types"
+
+const PRIORITY_LABELS: Record<Priority, string> = { high: "높음", medium: "보통", low: "낮음" }
+const PRIORITY_ORDER: Priority[] = ["high", "medium", "low"]
+
+const RANGE_OPTIONS = [14, 30, 90]
+const WEEK_COUNT = 12
+
+/** 축 이름용 M/D. 저장된 날짜를 그대로 보여줍니다. */
+const formatShortDate = (value: string) => {
+  const date = parseIsoDate(value)
+  return `${date.getUTCMonth() + 1}/${date.getUTCDate()}`
+}
+
+export default function AnalyticsPage() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [hasCheckedSession, setHasCheckedSession] = useState(false)
+  const [todos, setTodos] = useState<Todo[]>([])
+  const [timeZone, setTimeZone] = useState(localTimeZone)
+  const [rangeDays, setRangeDays] = useState(30)
+  const [isLoading, setIsLoading] = useState(true)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const isAuthenticated = Boolean(session) || !todoRepository.requiresAuth
+
+  const reportError = useCallback((text: string, error?: unknown) => {
+    if (error) console.error(text, error)
+    setErrorMessage(text)
+  }, [])
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setHasCheckedSession(true)
+    })
+  }, [])
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true)
+    const [todoResult, settingsResult] = await Promise.all([
+      todoRepository.list(),
+      userSettingsRepository.get(),
+    ])
+    if (todoResult.error) {
+      reportError("할일을 불러오지 못했습니다. 잠시 후 다시 시도해주세요.", todoResult.error)
+    } else {
+      // 휴지통의 할일은 빼고 보관한 할일은 기록으로 셉니다.
+      setTodos(todoResult.data.filter((todo) => !todo.deletedAt))
+    }
+    if (settingsResult.error) {
+      reportError("시간대 설정을 불러오지 못했습니다. 이 기기 시간대로 셉니다.", settingsResult.error)
+    } else if (settingsResult.data) {
+      setTimeZone(settingsResult.data.timeZone)
+    }
+    setIsLoading(false)
+  }, [reportError])
+
+  useEffect(() => {
+    if (isAuthenticated) void loadData()
+  }, [isAuthenticated, loadData])
+
+  const now = useMemo(() => zonedDateTime(timeZone), [timeZone])
+  const daily = useMemo(() => completionsByDay(todos, now, rangeDays), [todos, now, rangeDays])
+  const weekly = useMemo(() => completionsByWeek(todos, now, WEEK_COUNT), [todos, now])
+  const streak = useMemo(() => completionStreak(todos, now), [todos, now])
+  const deadlines = useMemo(() => deadlineResults(todos, timeZone), [todos, timeZone])
+  const byCategory = useMemo(() => averageCompletionTime(todos, "category"), [todos])
+  const byPriority = useMemo(
+    () =>
+      averageCompletionTime(todos, "priority").sort(
+        (a, b) => PRIORITY_ORDER.indexOf(a.key) - PRIORITY_ORDER.indexOf(b.key)
+      ),
+    [todos]
+  )
+  const burndownPoints = useMemo(() => burndown(todos, now, rangeDays), [todos, now, rangeDays])
+
+  const completedInRange = daily.reduce((sum, day) => sum + day.count, 0)
+  const createdInRange = burndownPoints.reduce((sum, point) => sum + point.created, 0)
+  const deadlineTotal = deadlines.onTime + deadlines.late
+  const labelEvery = Math.ceil(rangeDays / 7)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 p-4 md:p-8">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Button variant="ghost" size="sm" className="gap-2" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+              할일 목록으로
+            </Link>
+          </Button>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="analytics-range" className="text-muted-foreground">
+              기간
+            </label>
+            <select
+              id="analytics-range"
+              className={selectFieldClass}
+              value={rangeDays}
+              onChange={(e) => setRangeDays(Number(e.target.value))}
+            >
+              {RANGE_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  최근 {days}일
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <BarChart3 className="h-6 w-6" />
+            생산성 통계
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            만든 시각과 완료 시각으로 셉니다. 날짜는 {timeZone} 기준이고, 다시 미완료로 돌린
+            할일의 완료 기록은 남지 않습니다.
+          </p>
+        </div>
+
+        {errorMessage && (
+          <p className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {errorMessage}
+          </p>
+        )}
+
+        {!hasCheckedSession && todoRepository.requiresAuth ? null : !isAuthenticated ? (
+          <p className="text-sm text-muted-foreground">로그인한 뒤에 통계를 볼 수 있습니다.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">불러오는 중…</p>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <Card className="shadow-lg">
+                <CardHeader className="pb-2">
+                  <CardDescription>연속 완료</CardDescription>
+                  <CardTitle className="text-3xl">{streak.current}일</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  가장 길었던 기록 {streak.longest}일
+                </CardContent>
+              </Card>
+              <Card className="shadow-lg">
+                <CardHeader className="pb-2">
+                  <CardDescription>최근 {rangeDays}일 완료</CardDescription>
+                  <CardTitle className="text-3xl">{completedInRange}개</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  하루 평균 {(completedInRange / rangeDays).toFixed(1)}개
+                </CardContent>
+              </Card>
+              <Card className="shadow-lg">
+                <CardHeader className="pb-2">
+                  <CardDescription>마감 안에 완료</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {deadlineTotal > 0
+                      ? `${Math.round((deadlines.onTime / deadlineTotal) * 100)}%`
+                      : "-"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  제때 {deadlines.onTime}개 · 늦게 {deadlines.late}개
+                </CardContent>
+              </Card>
+              <Card className="shadow-lg">
+                <CardHeader className="pb-2">
+                  <CardDescription>남은 할일</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {burndownPoints[burndownPoints.length - 1]?.open ?? 0}개
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  최근 {rangeDays}일 동안 {createdInRange}개 추가
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-base">날마다 완료한 할일</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <BarChart
+                    ariaLabel={`최근 ${rangeDays}일 동안 날마다 완료한 할일 수`}
+                    labelEvery={labelEvery}
+                    bars={daily.map((day) => ({
+                      key: day.date,
+                      label: formatShortDate(day.date),
+                      title: `${day.date}: ${day.count}개`,
+                      value: day.count,
+                    }))}
+                  />
+                </CardContent>
+              </Card>
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-base">주마다 완료한 할일</CardTitle>
+                  <CardDescription className="text-xs">일요일부터 한 주로 셉니다</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BarChart
+                    ariaLabel={`최근 ${WEEK_COUNT}주 동안 주마다 완료한 할일 수`}
+                    labelEvery={2}
+                    barClassName="bg-emerald-500/80"
+                    bars={weekly.map((week) => ({
+                      key: week.date,
+                      label: formatShortDate(week.date),
+                      title: `${week.date} 주: ${week.count}개`,
+                      value: week.count,
+                    }))}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-base">만든 할일과 완료한 할일</CardTitle>
+                <CardDescription className="text-xs">
+                  남은 할일은 그날이 끝날 때 완료하지 않은 할일 수입니다
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  ariaLabel={`최근 ${rangeDays}일 동안 만든 할일, 완료한 할일, 남은 할일 수`}
+                  labels={burndownPoints.map((point) => formatShortDate(point.date))}
+                  labelEvery={labelEvery}
+                  series={[
+                    {
+                      key: "open",
+                      label: "남은 할일",
+                      values: burndownPoints.map((point) => point.open),
+                      className: "text-primary",
+                    },
+                    {
+                      key: "created",
+                      label: "만든 할일",
+                      values: burndownPoints.map((point) => point.created),
+                      className: "text-sky-500",
+                    },
+                    {
+                      key: "completed",
+                      label: "완료한 할일",
+                      values: burndownPoints.map((point) => point.completed),
+                      className: "text-emerald-500",
+                    },
+                  ]}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              {[
+                {
+                  title: "카테고리별 평균 완료 시간",
+                  rows: byCategory.map((stat) => ({ ...stat, label: stat.key })),
+                },
+                {
+                  title: "우선순위별 평균 완료 시간",
+                  rows: byPriority.map((stat) => ({ ...stat, label: PRIORITY_LABELS[stat.key] })),
+                },
+              ].map((table) => (
+                <Card key={table.title} className="shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="text-base">{table.title}</CardTitle>
+                    <CardDescription className="text-xs">만든 때부터 완료한 때까지</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {table.rows.length === 0 ? (
+                      <p className="py-4 text-center text-sm text-muted-foreground">
+                        아직 완료한 할일이 없습니다.
+                      </p>
+                    ) : (
+                      <ul className="divide-y text-sm">
+                        {table.rows.map((row) => (
+                          <li key={row.key} className="flex items-center gap-3 py-2">
+                            <span className="flex-1 truncate">{row.label}</span>
+                            <span className="text-xs text-muted-foreground">{row.count}개</span>
+                            <span className="w-24 text-right font-medium tabular-nums">
+                              {formatDuration(row.averageMs)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import type { NextRequest } from "next/server"
+import { authenticateRequest } from "@/lib/api/auth"
+import { fetchCategoryNames, unknownCategoryError } from "@/lib/api/categories"
+import { apiData, apiError, internalError, readJsonObject } from "@/lib/api/http"
+import { parseTodoPatch } from "@/lib/api/todoInput"
+import { todoNotFound, todoWriteError } from "@/lib/api/todos"
+import { getSupabaseTodo } from "@/lib/repositories/supabaseTodoRepository"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/** GET /api/todos/:id */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authenticateRequest(request)
+  if (auth instanceof Response) return auth
+  const { id } = await params
+
+  const { data, error } = await getSupabaseTodo(auth.client, id)
+  if (error) return internalError("할일을 불러오지 못했습니다.", error)
+  return data ? apiData(data) : todoNotFound(id)
+}
+
+/** PATCH /api/todos/:id  보낸 필드만 바꿉니다. archived, deleted 로 보관과 휴지통을 다룹니다. */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const auth = await authenticateRequest(request)
+  if (auth instanceof Response) return auth
+  const { id } = await params
+
+  const body = await readJsonObject(request)
+  if (!body) return apiError("invalid_request", "본문은 JSON 객체여야 합니다.")
+
+  const current = await getSupabaseTodo(auth.client, id)
+  if (current.error) return internalError("할일을 불러오지 못했습니다.", current.error)
+  if (!current.data) return todoNotFound(id)
+
+  const { value: patch, errors } = parseTodoPatch(body, current.data)
+  if (patch.category !== undefined) {
+    const categories = await fetchCategoryNames(auth.client)
+    if (categories.error) return internalError("카테고리를 불러오지 못했습니다.", categories.error)
+    if (categories.data.length > 0 && !categories.data.includes(patch.category)) {
+      errors.push(unknownCategoryError(patch.category, categories.data))
+    }
+  }
+  if (errors.length > 0) return apiError("invalid_request", "할일 값이 올바르지 않습니다.", errors)
+
+  const { error } = await auth.todos.update(id, patch)
+  if (error) return todoWriteError(auth.client, id, error, "할일을 수정하지 못했습니다.")
+
+  // completedAt 은 트리거가 채우므로 저장된 값을 다시 읽어 돌려줍니다.
+  const updated = await getSupabaseTodo(auth.client, id)
+  if (updated.error) return internalError("할일을 불러오지 못했습니다.", updated.error)
+  return updated.data ? apiData(updated.data) : todoNotFound(id)
+}
+
+/**
+ * DELETE /api/todos/:id  화면처럼 휴지통으로 옮깁니다.
+ * ?permanent=true 면 바로 완전히 지우고 data 는 null 입니다.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authenticateRequest(request)
+  if (auth instanceof Response) return auth
+  const { id } = await params
+
+  const current = await getSupabaseTodo(auth.client, id)
+  if (current.error) return internalError("할일을 불러오지 못했습니다.", current.error)
+  if (!current.data) return todoNotFound(id)
+
+  if (request.nextUrl.searchParams.get("permanent") === "true") {
+    const { error } = await auth.todos.remove(id)
+    if (error) return todoWriteError(auth.client, id, error, "할일을 지우지 못했습니다.")
+    return apiData(null)
+  }
+
+  const deletedAt = current.data.deletedAt ?? new Date().toISOString()
+  const { error } = await auth.todos.update(id, { deletedAt })
+  if (error) return todoWriteError(auth.client, id, error, "할일을 휴지통으로 옮기지 못했습니다.")
+  return apiData({ ...current.data, deletedAt })
+}
@@ -0,0 +1,56 @@
+import type { NextRequest } from "next/server"
+import { authenticateRequest } from "@/lib/api/auth"
+import { apiData, internalError, isPermissionError } from "@/lib/api/http"
+import { fetchTimeZone } from "@/lib/api/settings"
+import { todoForbidden, todoNotFound, todoWriteError } from "@/lib/api/todos"
+import { zonedDateTime } from "@/lib/dates"
+import { nextOccurrenceDraft } from "@/lib/recurrence"
+import { getSupabaseTodo } from "@/lib/repositories/supabaseTodoRepository"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/todos/:id/toggle  완료 여부를 뒤집습니다.
+ * 반복 할일을 완료하면 화면과 같이 다음 회차를 만들어 nextOccurrence 로 돌려줍니다.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const auth = await authenticateRequest(request)
+  if (auth instanceof Response) return auth
+  const { id } = await params
+
+  const current = await getSupabaseTodo(auth.client, id)
+  if (current.error) return internalError("할일을 불러오지 못했습니다.", current.error)
+  if (!current.data) return todoNotFound(id)
+
+  const completed = !current.data.completed
+  // 바꾼 행이 있어야 편집할 수 있는 할일이므로, 그 뒤에만 다음 회차를 만듭니다.
+  const { error } = await auth.todos.update(id, { completed })
+  if (error) return todoWriteError(auth.client, id, error, "상태를 변경하지 못했습니다.")
+
+  const updated = await getSupabaseTodo(auth.client, id)
+  if (updated.error || !updated.data) {
+    return internalError("할일을 불러오지 못했습니다.", updated.error)
+  }
+
+  let nextOccurrence = null
+  if (completed && current.data.recurrence) {
+    const series = await auth.todos.list()
+    if (series.error) return internalError("반복 할일을 확인하지 못했습니다.", series.error)
+    const timeZone = await fetchTimeZone(auth.client)
+    if (timeZone.error) return internalError("사용자 설정을 불러오지 못했습니다.", timeZone.error)
+    const draft = nextOccurrenceDraft(current.data, series.data, zonedDateTime(timeZone.data).date)
+    if (draft) {
+      const created = await auth.todos.create(draft)
+      if (created.error) {
+        return isPermissionError(created.error)
+          ? todoForbidden(id)
+          : internalError("다음 반복 할일을 만들지 못했습니다.", created.error)
+      }
+      nextOccurrence = created.data
+    }
+  }
+
+  return apiData(updated.data, { nextOccurrence })
+}
@@ -0,0 +1,99 @@
+import type { NextRequest } from "next/server"
+import { authenticateRequest } from "@/lib/api/auth"
+import { fetchCategoryNames, unknownCategoryError } from "@/lib/api/categories"
+import { apiData, apiError, internalError, readJsonObject } from "@/lib/api/http"
+import { fetchTimeZone } from "@/lib/api/settings"
+import {
+  matchesScope,
+  parseTodoDraft,
+  parseTodoListParams,
+  scopeToPostgrest,
+} from "@/lib/api/todoInput"
+import { zonedDateTime } from "@/lib/dates"
+import { listSupabaseTodos } from "@/lib/repositories/supabaseTodoRepository"
+import {
+  filterAndSortTodos,
+  POSTGREST_SORT_ORDERS,
+  toPostgrestListFilters,
+} from "@/lib/todoList"
+import type { Todo } from "@/lib/types"
+
+/**
+ * GET /api/todos?filter=pending&category=업무&list=personal&assignee=me&sort=priority&q=due:<today&scope=active&limit=50&offset=0
+ * 화면의 필터, 정렬, 검색과 같은 규칙으로 고른 뒤 offset 부터 limit 개를 돌려줍니다.
+ * today, overdue 는 사용자 시간대로 셉니다. 그 시간대를 timeZone 으로 함께 돌려줍니다.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (auth instanceof Response) return auth
+
+  const { value: params, errors } = parseTodoListParams(request.nextUrl.searchParams)
+  if (errors.length > 0) return apiError("invalid_request", "조회 조건이 올바르지 않습니다.", errors)
+
+  const timeZone = await fetchTimeZone(auth.client)
+  if (timeZone.error) return internalError("사용자 설정을 불러오지 못했습니다.", timeZone.error)
+
+  const now = zonedDateTime(timeZone.data)
+  const { filters, exact } = toPostgrestListFilters(params.criteria, now, auth.userId)
+  const order = POSTGREST_SORT_ORDERS[params.criteria.sortBy]
+  const scoped = [...scopeToPostgrest(params.scope), ...filters]
+
+  let page: Todo[]
+  let total: number
+  if (exact && order) {
+    // 조건과 정렬을 모두 서버에서 처리할 수 있으면 요청한 구간만 받아옵니다.
+    const { data, error } = await listSupabaseTodos(auth.client, scoped, {
+      order,
+      offset: params.offset,
+      limit: params.limit,
+    })
+    if (error) return internalError("할일을 불러오지 못했습니다.", error)
+    page = data.todos
+    total = data.total
+  } else {
+    // 검색어처럼 서버에서 정확히 거를 수 없는 조건은 줄여 받은 행에 다시 적용합니다.
+    const { data, error } = await listSupabaseTodos(auth.client, scoped)
+    if (error) return internalError("할일을 불러오지 못했습니다.", error)
+    const matched = filterAndSortTodos(
+      data.todos.filter((todo) => matchesScope(todo, params.scope)),
+      params.criteria,
+      now,
+      auth.userId
+    )
+    page = matched.slice(params.offset, params.offset + params.limit)
+    total = matched.length
+  }
+
+  const nextOffset = params.offset + page.length
+  return apiData(page, {
+    timeZone: timeZone.data,
+    pagination: {
+      total,
+      limit: params.limit,
+      offset: params.offset,
+      nextOffset: nextOffset < total ? nextOffset : null,
+    },
+  })
+}
+
+/** POST /api/todos  { text, category?, priority?, dueDate?, dueTime?, completed?, subtasks?, recurrence?, listId?, assigneeId? } */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (auth instanceof Response) return auth
+
+  const body = await readJsonObject(request)
+  if (!body) return apiError("invalid_request", "본문은 JSON 객체여야 합니다.")
+
+  const categories = await fetchCategoryNames(auth.client)
+  if (categories.error) return internalError("카테고리를 불러오지 못했습니다.", categories.error)
+
+  const { value: draft, errors } = parseTodoDraft(body, categories.data[0] ?? "기타")
+  if (categories.data.length > 0 && !categories.data.includes(draft.category)) {
+    errors.push(unknownCategoryError(draft.category, categories.data))
+  }
+  if (errors.length > 0) return apiError("invalid_request", "할일 값이 올바르지 않습니다.", errors)
+
+  const { data, error } = await auth.todos.create(draft)
+  if (error) return internalError("할일을 추가하지 못했습니다.", error)
+  return apiData(data, {}, 201)
+}
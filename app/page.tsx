@@ -1,7 +1,8 @@
 "use client"
 
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import type { Session } from "@supabase/supabase-js"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import {
@@ -24,27 +25,158 @@ import {
   Check,
   X,
   LogOut,
+  CloudOff,
+  RefreshCw,
+  Settings2,
+  ListChecks,
+  SquareCheck,
+  Archive,
+  Repeat,
+  Sparkles,
+  Search,
+  Layers,
+  ArrowUp,
+  ArrowDown,
+  GripVertical,
+  FileUp,
+  KeyRound,
+  Bell,
+  BarChart3,
+  History,
+  Users,
+  UserRound,
+  Eye,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { selectFieldClass } from "@/lib/styles"
+import { CategoryManager } from "@/components/category-manager"
+import { SubtaskList } from "@/components/subtask-list"
+import {
+  DEFAULT_PREFERENCES,
+  loadPreferences,
+  progressModeOptions,
+  savePreferences,
+  type ProgressMode,
+  type TodoPreferences,
+} from "@/lib/preferences"
+import { formatCount, sumProgress, todoProgress, toPercentage } from "@/lib/progress"
+import { RecurrenceEditor } from "@/components/recurrence-editor"
+import {
+  describeRecurrence,
+  nextOccurrenceDraft,
+  toTodoRecurrence,
+} from "@/lib/recurrence"
+import { localTimeZone, zonedDateTime } from "@/lib/dates"
+import { formatDeadline, formatTodoDeadline, isOverdue } from "@/lib/deadlines"
+import { findArchivable, findExpiredTrash } from "@/lib/retention"
+import {
+  compareOrderKeys,
+  generateKeyBetween,
+  generateKeysBetween,
+} from "@/lib/fractionalIndex"
+import { parseQuickAdd } from "@/lib/quickAdd"
+import { parseTodoQuery } from "@/lib/todoQuery"
+import { countSmartLists, filterAndSortTodos } from "@/lib/todoList"
+import { SavedViewsPanel } from "@/components/saved-views-panel"
+import { TodoCalendar } from "@/components/todo-calendar"
+import { TodoBoard } from "@/components/todo-board"
+import { BulkActionBar } from "@/components/bulk-action-bar"
+import { TodoBinPanel } from "@/components/todo-bin-panel"
+import { ExportMenu, type ExportScope } from "@/components/export-menu"
+import { downloadTodos, exportFormatOptions, type ExportFormat } from "@/lib/export"
+import { ImportWizard } from "@/components/import-wizard"
+import { ReminderPicker } from "@/components/reminder-picker"
+import { ReminderSettings } from "@/components/reminder-settings"
+import { TimeZoneSettings } from "@/components/time-zone-settings"
+import { SmartListsPanel } from "@/components/smart-lists-panel"
+import { TodoActivityPanel } from "@/components/todo-activity-panel"
+import { activityFieldLabels } from "@/lib/activity"
+import { SharedListsPanel } from "@/components/shared-lists-panel"
+import { canEditTodo, memberEmail } from "@/lib/sharing"
+import {
+  notificationSupport,
+  requestNotificationPermission,
+  sendReminderSchedule,
+  type NotificationSupport,
+} from "@/lib/notifications"
+import {
+  collectTodoReminders,
+  dailySummaryReminder,
+  describeReminderOffset,
+} from "@/lib/reminders"
+import { IMPORT_BATCH_SIZE, chunk, type ImportRow } from "@/lib/import"
+import {
+  DEFAULT_VIEW_STATE,
+  applyViewStateToSearchParams,
+  groupOptions,
+  isSameViewState,
+  layoutOptions,
+  smartListOptions,
+  viewStateFromSearchParams,
+  type FilterType,
+  type GroupType,
+  type LayoutType,
+  type AssigneeFilterType,
+  type SmartListType,
+  type SortType,
+  type ViewState,
+} from "@/lib/viewState"
+import {
+  CATEGORY_COLOR_PALETTE,
+  DEFAULT_CATEGORIES,
+  FALLBACK_CATEGORY_COLOR,
+} from "@/lib/categoryRepository"
 import { supabase } from "@/lib/supabaseClient"
-
-type Priority = "low" | "medium" | "high"
-
-interface Todo {
-  id: string
-  text: string
-  category: string
-  priority: Priority
-  dueDate: string
-  completed: boolean
-}
-
-const categoryOptions = [
-  { value: "업무", label: "업무" },
-  { value: "개인", label: "개인" },
-  { value: "학습", label: "학습" },
-  { value: "기타", label: "기타" },
-]
+import { writeSessionCookie } from "@/lib/sessionCookie"
+import {
+  categoryRepository,
+  savedViewRepository,
+  sharedListRepository,
+  todoActivityRepository,
+  todoRepository,
+  userSettingsRepository,
+} from "@/lib/repositories"
+import { isLocalId } from "@/lib/repositories/offlineTodoRepository"
+import {
+  applyTodoPatch,
+  isOwnTodo,
+  type BulkResult,
+  type TodoSyncState,
+} from "@/lib/todoRepository"
+import {
+  EMPTY_HISTORY,
+  combineEntries,
+  createdEntry,
+  deletedEntry,
+  pushHistory,
+  takeRedo,
+  takeUndo,
+  updatedEntry,
+  type HistoryEntry,
+  type TodoOperation,
+} from "@/lib/history"
+import type {
+  Category,
+  CategoryPatch,
+  ListInvitation,
+  Priority,
+  SavedView,
+  SharedList,
+  Subtask,
+  Todo,
+  TodoActivity,
+  TodoDraft,
+  TodoPatch,
+  UserSettings,
+} from "@/lib/types"
+import { DEFAULT_USER_SETTINGS } from "@/lib/userSettingsRepository"
+import {
+  applyTodoChange,
+  createTodoBroadcast,
+  subscribeToTodoChanges,
+  type RealtimeStatus,
+  type TodoChange,
+} from "@/lib/realtime"
 
 const priorityOptions: { value: Priority; label: string }[] = [
   { value: "low", label: "낮음" },
@@ -52,8 +184,15 @@ const priorityOptions: { value: Priority; label: string }[] = [
   { value: "high", label: "높음" },
 ]
 
-const selectFieldClass =
-  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+const REMINDER_SYNC_INTERVAL_MS = 60 * 1000
+const CLOCK_INTERVAL_MS = 60 * 1000
+
+// 기록 패널이 같은 함수를 받아야 렌더링마다 다시 읽지 않습니다.
+const loadTodoActivity = (todoId: string) => todoActivityRepository.list(todoId)
+
+const priorityLabels = Object.fromEntries(
+  priorityOptions.map((option) => [option.value, option.label])
+) as Record<Priority, string>
 
 const priorityBadgeStyles: Record<Priority, string> = {
   low: "bg-emerald-100 text-emerald-900 dark:bg-emerald-900/30 dark:text-emerald-200",
@@ -61,28 +200,78 @@ const priorityBadgeStyles: Record<Priority, string> = {
   high: "bg-red-100 text-red-900 dark:bg-red-900/30 dark:text-red-200",
 }
 
-type FilterType = "all" | "completed" | "pending"
-type SortType = "date" | "priority" | "category" | "name"
-type FeedbackMessage = { type: "error" | "success"; message: string }
+type FeedbackMessage = {
+  type: "error" | "success"
+  message: string
+  /** 알림 옆에 보여줄 버튼. 되돌리기 같은 후속 작업에 씁니다. */
+  action?: { label: string; run: () => void }
+}
 
 export default function Home() {
   const [todos, setTodos] = useState<Todo[]>([])
-  const [form, setForm] = useState<Omit<Todo, "id" | "completed">>({
+  const [categories, setCategories] = useState<Category[]>([])
+  const [isManagingCategories, setIsManagingCategories] = useState(false)
+  const [preferences, setPreferences] =
+    useState<TodoPreferences>(DEFAULT_PREFERENCES)
+  const [expandedSubtaskIds, setExpandedSubtaskIds] = useState<Set<string>>(
+    () => new Set()
+  )
+  const [expandedActivityIds, setExpandedActivityIds] = useState<Set<string>>(
+    () => new Set()
+  )
+  const [form, setForm] = useState<TodoDraft>({
     text: "",
-    category: categoryOptions[0].value,
+    category: DEFAULT_CATEGORIES[0].name,
     priority: "medium",
     dueDate: "",
+    dueTime: "",
+    recurrence: null,
+    reminders: [],
   })
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [editForm, setEditForm] = useState<Omit<Todo, "id" | "completed">>({
+  const [editForm, setEditForm] = useState<TodoDraft>({
     text: "",
-    category: categoryOptions[0].value,
+    category: DEFAULT_CATEGORIES[0].name,
     priority: "medium",
     dueDate: "",
+    dueTime: "",
+    recurrence: null,
+    reminders: [],
   })
   const [filter, setFilter] = useState<FilterType>("all")
   const [categoryFilter, setCategoryFilter] = useState<string>("all")
+  const [listFilter, setListFilter] = useState<string>("all")
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilterType>("all")
   const [sortBy, setSortBy] = useState<SortType>("date")
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{
+    id: string
+    placement: "before" | "after"
+  } | null>(null)
+  const [groupBy, setGroupBy] = useState<GroupType>("none")
+  const [searchText, setSearchText] = useState("")
+  const [layout, setLayout] = useState<LayoutType>("list")
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  const selectionAnchorRef = useRef<string | null>(null)
+  const searchQuery = useMemo(() => parseTodoQuery(searchText), [searchText])
+  const viewState = useMemo<ViewState>(
+    () => ({
+      filter,
+      categoryFilter,
+      listFilter,
+      assigneeFilter,
+      sortBy,
+      groupBy,
+      search: searchText,
+      layout,
+    }),
+    [filter, categoryFilter, listFilter, assigneeFilter, sortBy, groupBy, searchText, layout]
+  )
+  const [hasReadViewFromUrl, setHasReadViewFromUrl] = useState(false)
+  const [savedViews, setSavedViews] = useState<SavedView[]>([])
+  const [sharedLists, setSharedLists] = useState<SharedList[]>([])
+  const [receivedInvitations, setReceivedInvitations] = useState<ListInvitation[]>([])
   const [fieldEditing, setFieldEditing] = useState<{
     id: string
     field: "category" | "priority" | "dueDate"
@@ -96,79 +285,266 @@ export default function Home() {
   const [authPassword, setAuthPassword] = useState("")
   const [authMode, setAuthMode] = useState<"signin" | "signup">("signin")
   const [authLoading, setAuthLoading] = useState(false)
+  const isAuthenticated = Boolean(session) || !todoRepository.requiresAuth
+  const [syncState, setSyncState] = useState<TodoSyncState | null>(
+    () => todoRepository.sync?.getState() ?? null
+  )
+  const [realtimeStatus, setRealtimeStatus] =
+    useState<RealtimeStatus>("unavailable")
+  const broadcastRef = useRef<ReturnType<typeof createTodoBroadcast> | null>(
+    null
+  )
+  const [history, setHistory] = useState(EMPTY_HISTORY)
+  const [isImporting, setIsImporting] = useState(false)
+  const [notificationPermission, setNotificationPermission] =
+    useState<NotificationSupport>("default")
+  const [userSettings, setUserSettings] = useState<UserSettings>(() => ({
+    ...DEFAULT_USER_SETTINGS,
+    timeZone: localTimeZone(),
+  }))
+  const [hasLoadedUserSettings, setHasLoadedUserSettings] = useState(false)
+  const { timeZone } = userSettings
+  // 사용자 시간대의 지금. 마감 지남과 "오늘"을 1분마다 다시 셉니다.
+  const [now, setNow] = useState(() => zonedDateTime(localTimeZone()))
+  const [importProgress, setImportProgress] = useState<{
+    done: number
+    total: number
+  } | null>(null)
+  const isReplayingRef = useRef(false)
+  const isApplyingRetentionRef = useRef(false)
+  // 알림 버튼과 단축키는 렌더링 시점의 함수를 붙잡으므로 항상 최신 함수를 가리키게 합니다.
+  const historyActionsRef = useRef({ undo: () => {}, redo: () => {} })
+  const pendingSyncIds = useMemo(
+    () => new Set(syncState?.pendingIds ?? []),
+    [syncState]
+  )
 
-  const completedCount = useMemo(
-    () => todos.filter((todo) => todo.completed).length,
+  // 휴지통과 보관함에 있는 할일은 목록, 달력, 보드에서 빠집니다.
+  const activeTodos = useMemo(
+    () => todos.filter((todo) => !todo.deletedAt && !todo.archivedAt),
     [todos]
   )
 
-  const pendingCount = useMemo(
-    () => todos.filter((todo) => !todo.completed).length,
+  const archivedTodos = useMemo(
+    () => todos.filter((todo) => !todo.deletedAt && todo.archivedAt),
     [todos]
   )
 
-  const progressPercentage = useMemo(() => {
-    if (todos.length === 0) return 0
-    return Math.round((completedCount / todos.length) * 100)
-  }, [todos.length, completedCount])
+  const trashedTodos = useMemo(() => todos.filter((todo) => todo.deletedAt), [todos])
+
+  // 진행률과 현황에 세는 할일. 보관한 할일은 사용자가 원할 때만 포함합니다.
+  const statTodos = useMemo(
+    () =>
+      preferences.includeArchivedInStats
+        ? todos.filter((todo) => !todo.deletedAt)
+        : activeTodos,
+    [todos, activeTodos, preferences.includeArchivedInStats]
+  )
+
+  const completedCount = useMemo(
+    () => statTodos.filter((todo) => todo.completed).length,
+    [statTodos]
+  )
+
+  const pendingCount = useMemo(
+    () => statTodos.filter((todo) => !todo.completed).length,
+    [statTodos]
+  )
+
+  const progressPercentage = useMemo(
+    () => toPercentage(sumProgress(statTodos, preferences.progressMode)),
+    [statTodos, preferences.progressMode]
+  )
+
+  // 카테고리 목록에 없는 이름을 가진 기존 할일도 선택지와 통계에 포함합니다.
+  const categoryOptions = useMemo(() => {
+    const known = new Set(categories.map((category) => category.name))
+    const orphaned = Array.from(
+      new Set(
+        todos
+          .filter((todo) => !todo.deletedAt)
+          .map((todo) => todo.category)
+          .filter((name) => !known.has(name))
+      )
+    )
+    return [
+      ...categories.map((category) => ({
+        value: category.name,
+        label: category.name,
+        color: category.color,
+      })),
+      ...orphaned.map((name) => ({
+        value: name,
+        label: name,
+        color: FALLBACK_CATEGORY_COLOR,
+      })),
+    ]
+  }, [categories, todos])
+
+  const categoryColors = useMemo(
+    () =>
+      Object.fromEntries(
+        categoryOptions.map((option) => [option.value, option.color])
+      ) as Record<string, string>,
+    [categoryOptions]
+  )
 
   const categoryStats = useMemo(() => {
     const stats: Record<string, { total: number; completed: number }> = {}
     categoryOptions.forEach((cat) => {
       stats[cat.value] = { total: 0, completed: 0 }
     })
-    todos.forEach((todo) => {
-      stats[todo.category].total++
-      if (todo.completed) {
-        stats[todo.category].completed++
-      }
+    statTodos.forEach((todo) => {
+      const count = todoProgress(todo, preferences.progressMode)
+      stats[todo.category] ??= { total: 0, completed: 0 }
+      stats[todo.category].total += count.total
+      stats[todo.category].completed += count.completed
     })
     return stats
-  }, [todos])
+  }, [statTodos, categoryOptions, preferences.progressMode])
+
+  // 입력 중인 내용에서 #카테고리, !우선순위, 날짜, 반복 토큰을 미리 읽어 보여줍니다.
+  const quickAdd = useMemo(
+    () =>
+      parseQuickAdd(form.text, {
+        categories: categoryOptions.map((option) => option.value),
+        today: now.date,
+      }),
+    [form.text, categoryOptions, now.date]
+  )
 
-  const filteredAndSortedTodos = useMemo(() => {
-    let filtered = [...todos]
-
-    // 필터링
-    if (filter === "completed") {
-      filtered = filtered.filter((todo) => todo.completed)
-    } else if (filter === "pending") {
-      filtered = filtered.filter((todo) => !todo.completed)
-    }
-
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter((todo) => todo.category === categoryFilter)
-    }
-
-    // 정렬
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case "priority":
-          const priorityOrder: Record<Priority, number> = { high: 3, medium: 2, low: 1 }
-          return priorityOrder[b.priority] - priorityOrder[a.priority]
-        case "category":
-          return a.category.localeCompare(b.category)
-        case "name":
-          return a.text.localeCompare(b.text)
-        case "date":
-        default:
-          if (!a.dueDate && !b.dueDate) return 0
-          if (!a.dueDate) return 1
-          if (!b.dueDate) return -1
-          return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
-      }
+  // 필터와 상관없이 전체 할일의 직접 정렬 순서. 위치가 없는 할일은 기존 순서대로 맨 뒤에 둡니다.
+  const manualOrder = useMemo(
+    () => [...activeTodos].sort((a, b) => compareOrderKeys(a.position, b.position)),
+    [activeTodos]
+  )
+
+  const categoryUsage = useMemo(() => {
+    const usage: Record<string, number> = {}
+    todos.forEach((todo) => {
+      usage[todo.category] = (usage[todo.category] ?? 0) + 1
     })
+    return usage
+  }, [todos])
+
+  const smartListCounts = useMemo(() => countSmartLists(activeTodos, now), [activeTodos, now])
+
+  const filteredAndSortedTodos = useMemo(
+    () =>
+      filterAndSortTodos(
+        activeTodos,
+        { filter, categoryFilter, listFilter, assigneeFilter, sortBy, query: searchQuery },
+        now,
+        session?.user.id ?? null
+      ),
+    [
+      activeTodos,
+      filter,
+      categoryFilter,
+      listFilter,
+      assigneeFilter,
+      sortBy,
+      searchQuery,
+      now,
+      session,
+    ]
+  )
+
+  // 보드는 묶지 않고는 그릴 수 없으므로 완료 여부로 나눕니다.
+  const groupKey: GroupType = layout === "board" && groupBy === "none" ? "status" : groupBy
+
+  // 빈 묶음까지 포함한 전체 묶음. 보드의 열로도 쓰입니다.
+  const todoGroups = useMemo(() => {
+    if (groupKey === "none") return null
+    const groups =
+      groupKey === "category"
+        ? categoryOptions.map((option) => ({
+            key: option.value,
+            label: option.label,
+            color: option.color,
+          }))
+        : groupKey === "priority"
+          ? [...priorityOptions].reverse().map((option) => ({
+              key: option.value,
+              label: option.label,
+              color: null,
+            }))
+          : [
+              { key: "pending", label: "미완료", color: null },
+              { key: "completed", label: "완료", color: null },
+            ]
+    const keyOf = (todo: Todo) =>
+      groupKey === "category"
+        ? todo.category
+        : groupKey === "priority"
+          ? todo.priority
+          : todo.completed
+            ? "completed"
+            : "pending"
+    return groups.map((group) => ({
+      ...group,
+      todos: filteredAndSortedTodos.filter((todo) => keyOf(todo) === group.key),
+    }))
+  }, [groupKey, categoryOptions, filteredAndSortedTodos])
+
+  // 정렬된 순서를 유지한 채 groupBy 기준으로 묶습니다.
+  const groupedTodos = useMemo(
+    () => todoGroups?.filter((group) => group.todos.length > 0) ?? null,
+    [todoGroups]
+  )
+
+  // 화면에 보이는 순서. 묶어서 볼 때는 묶음 순서를 따르므로 Shift 범위 선택에 씁니다.
+  const visibleTodos = useMemo(
+    () => groupedTodos?.flatMap((group) => group.todos) ?? filteredAndSortedTodos,
+    [groupedTodos, filteredAndSortedTodos]
+  )
+
+  // 보기 전용 목록의 할일은 고칠 수 없으므로 선택할 수 없습니다.
+  const selectableTodos = useMemo(
+    () => visibleTodos.filter((todo) => canEditTodo(todo, sharedLists)),
+    [visibleTodos, sharedLists]
+  )
+
+  // 필터로 가려진 할일은 선택되어 있어도 일괄 작업에서 빠집니다.
+  const selectedTodos = useMemo(
+    () => selectableTodos.filter((todo) => selectedIds.has(todo.id)),
+    [selectableTodos, selectedIds]
+  )
 
-    return filtered
-  }, [todos, filter, categoryFilter, sortBy])
+  // 새 할일은 내가 편집할 수 있는 목록에만 넣을 수 있습니다.
+  const editableLists = useMemo(
+    () => sharedLists.filter((list) => list.role !== "viewer"),
+    [sharedLists]
+  )
+
+  // RLS(can_assign_todo)와 같이 개인 할일은 나에게만, 목록 할일은 그 목록 구성원에게만 맡깁니다.
+  const assigneeOptions = (listId: string | null | undefined) => {
+    if (!listId) return session ? [{ value: session.user.id, label: "나" }] : []
+    const members = sharedLists.find((list) => list.id === listId)?.members ?? []
+    return members.map((member) => ({
+      value: member.userId,
+      label: member.userId === session?.user.id ? "나" : member.email,
+    }))
+  }
+
+  const activeSavedViewId = useMemo(
+    () => savedViews.find((view) => isSameViewState(view.state, viewState))?.id ?? null,
+    [savedViews, viewState]
+  )
 
+  // 공유 목록에 이어서 추가하는 경우가 많으므로 고른 목록과 담당자는 남겨 둡니다.
   const resetForm = () =>
-    setForm({
+    setForm((prev) => ({
       text: "",
-      category: categoryOptions[0].value,
+      category: categoryOptions[0]?.value ?? DEFAULT_CATEGORIES[0].name,
       priority: "medium",
       dueDate: "",
-    })
+      dueTime: "",
+      recurrence: null,
+      reminders: [],
+      listId: prev.listId,
+      assigneeId: prev.assigneeId,
+    }))
 
   const handleCreateChange = (
     field: keyof typeof form,
@@ -184,28 +560,28 @@ export default function Home() {
     setEditForm((prev) => ({ ...prev, [field]: value }))
   }
 
-  const mapRowToTodo = useCallback((row: any): Todo => {
-    return {
-      id: row.id,
-      text: row.text,
-      category: row.category,
-      priority: row.priority as Priority,
-      dueDate: row.due_date ?? "",
-      completed: row.completed,
-    }
+  // localStorage 는 브라우저에서만 읽을 수 있으므로 마운트 후에 불러옵니다.
+  useEffect(() => {
+    setPreferences(loadPreferences())
   }, [])
 
+  const updatePreferences = (patch: Partial<TodoPreferences>) => {
+    setPreferences((prev) => {
+      const next = { ...prev, ...patch }
+      savePreferences(next)
+      return next
+    })
+  }
+
   const reportError = useCallback((message: string, error?: unknown) => {
     console.error(message, error)
     setFeedback({ type: "error", message })
   }, [])
 
-  const fetchTodos = useCallback(async () => {
-    setIsLoading(true)
-    const { data, error } = await supabase
-      .from("todos")
-      .select("*")
-      .order("created_at", { ascending: false })
+  // silent: 동기화 직후처럼 목록만 조용히 갱신할 때 사용합니다.
+  const fetchTodos = useCallback(async (silent = false) => {
+    if (!silent) setIsLoading(true)
+    const { data, error } = await todoRepository.list()
 
     if (error) {
       reportError("할일을 불러오지 못했습니다. 잠시 후 다시 시도해주세요.", error)
@@ -213,16 +589,16 @@ export default function Home() {
       return
     }
 
-    const mapped = (data ?? []).map(mapRowToTodo)
-    setTodos(mapped)
-    setFeedback(null)
+    setTodos(data)
+    if (!silent) setFeedback(null)
     setIsLoading(false)
-  }, [mapRowToTodo, reportError])
+  }, [reportError])
 
   useEffect(() => {
     const getSession = async () => {
       const { data } = await supabase.auth.getSession()
       setSession(data.session)
+      writeSessionCookie(data.session)
     }
     getSession()
 
@@ -230,6 +606,7 @@ export default function Home() {
       data: authListener,
     } = supabase.auth.onAuthStateChange((_event, newSession) => {
       setSession(newSession)
+      writeSessionCookie(newSession)
     })
 
     return () => {
@@ -237,14 +614,483 @@ export default function Home() {
     }
   }, [])
 
+  const fetchCategories = useCallback(async () => {
+    const { data, error } = await categoryRepository.list()
+
+    if (error) {
+      reportError("카테고리를 불러오지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    if (data.length > 0) {
+      setCategories(data)
+      return
+    }
+
+    // 처음 사용하는 계정에는 기본 카테고리를 만들어 줍니다.
+    const created: Category[] = []
+    for (const [index, category] of DEFAULT_CATEGORIES.entries()) {
+      const result = await categoryRepository.create({ ...category, sortOrder: index })
+      if (result.error) {
+        reportError("기본 카테고리를 만들지 못했습니다.", result.error)
+        break
+      }
+      created.push(result.data)
+    }
+    setCategories(created)
+  }, [reportError])
+
   useEffect(() => {
-    if (session) {
+    if (isAuthenticated) {
       fetchTodos()
+      fetchCategories()
     } else {
       setTodos([])
+      setCategories([])
       setIsLoading(false)
     }
-  }, [session, fetchTodos])
+  }, [isAuthenticated, fetchTodos, fetchCategories])
+
+  // 현재 선택된 카테고리가 사라지면 첫 번째 카테고리로 되돌립니다.
+  useEffect(() => {
+    if (categories.length === 0) return
+    const names = new Set(categories.map((category) => category.name))
+    setForm((prev) =>
+      names.has(prev.category) ? prev : { ...prev, category: categories[0].name }
+    )
+    setCategoryFilter((prev) => (prev === "all" || names.has(prev) ? prev : "all"))
+  }, [categories])
+
+  useEffect(() => {
+    if (!isAuthenticated || !todoRepository.sync) return
+    return todoRepository.sync.subscribe(setSyncState)
+  }, [isAuthenticated])
+
+  // 큐가 재생되면 임시 id 가 서버 id 로 바뀌므로 목록을 다시 불러옵니다.
+  const lastSyncedAt = syncState?.lastSyncedAt ?? null
+  useEffect(() => {
+    if (lastSyncedAt !== null) fetchTodos(true)
+  }, [lastSyncedAt, fetchTodos])
+
+  const mergeTodoChange = useCallback((change: TodoChange) => {
+    setTodos((prev) => applyTodoChange(prev, change))
+  }, [])
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+    const broadcast = createTodoBroadcast(mergeTodoChange)
+    broadcastRef.current = broadcast
+    return () => {
+      broadcast.close()
+      broadcastRef.current = null
+    }
+  }, [isAuthenticated, mergeTodoChange])
+
+  const userId = session?.user.id ?? null
+  useEffect(() => {
+    if (!userId) return
+    return subscribeToTodoChanges({
+      userId,
+      onChange: mergeTodoChange,
+      onStatusChange: setRealtimeStatus,
+    })
+  }, [userId, mergeTodoChange])
+
+  // 재연결 전까지 놓친 변경이 있을 수 있으므로 다시 연결되면 목록을 맞춥니다.
+  const previousRealtimeStatus = useRef<RealtimeStatus>(realtimeStatus)
+  useEffect(() => {
+    if (previousRealtimeStatus.current === "unavailable" && realtimeStatus === "live") {
+      fetchTodos(true)
+    }
+    previousRealtimeStatus.current = realtimeStatus
+  }, [realtimeStatus, fetchTodos])
+
+  // 오프라인 임시 id 는 다른 탭에서 서버 id 와 겹칠 수 있어 전파하지 않습니다.
+  const publishChange = (change: TodoChange) => {
+    if (change.type === "upsert" && isLocalId(change.todo.id)) return
+    broadcastRef.current?.post(change)
+  }
+
+  const publishPatch = (id: string, patch: TodoPatch) => {
+    const current = todos.find((todo) => todo.id === id)
+    if (current) publishChange({ type: "upsert", todo: applyTodoPatch(current, patch) })
+  }
+
+  // 스마트 목록은 그 목록에 맞는 정렬도 함께 고릅니다.
+  const changeFilter = (next: FilterType) => {
+    setFilter(next)
+    const smartList = smartListOptions.find((option) => option.value === next)
+    if (smartList) setSortBy(smartList.sortBy)
+  }
+
+  const selectSmartList = (list: SmartListType) => {
+    if (filter === list) {
+      setFilter(DEFAULT_VIEW_STATE.filter)
+      setSortBy(DEFAULT_VIEW_STATE.sortBy)
+      return
+    }
+    changeFilter(list)
+  }
+
+  const applyViewState = (state: ViewState) => {
+    setFilter(state.filter)
+    setCategoryFilter(state.categoryFilter)
+    setListFilter(state.listFilter)
+    setAssigneeFilter(state.assigneeFilter)
+    setSortBy(state.sortBy)
+    setGroupBy(state.groupBy)
+    setSearchText(state.search)
+    setLayout(state.layout)
+  }
+
+  // 처음 한 번 URL 의 보기 상태를 읽고, 이후에는 상태가 바뀔 때마다 URL 에 씁니다.
+  useEffect(() => {
+    applyViewState(viewStateFromSearchParams(new URLSearchParams(window.location.search)))
+    setHasReadViewFromUrl(true)
+  }, [])
+
+  useEffect(() => {
+    if (!hasReadViewFromUrl) return
+    const params = applyViewStateToSearchParams(
+      new URLSearchParams(window.location.search),
+      viewState
+    )
+    const query = params.toString()
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`
+    )
+  }, [viewState, hasReadViewFromUrl])
+
+  const fetchSavedViews = useCallback(async () => {
+    const { data, error } = await savedViewRepository.list()
+
+    if (error) {
+      reportError("저장된 보기를 불러오지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setSavedViews(data)
+  }, [reportError])
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchSavedViews()
+    } else {
+      setSavedViews([])
+    }
+  }, [isAuthenticated, fetchSavedViews])
+
+  // 시간대를 저장한 적이 없는 계정은 이 기기 시간대로 저장해 서버의 마감 시각 계산과 맞춥니다.
+  const fetchUserSettings = useCallback(async () => {
+    const { data, error } = await userSettingsRepository.get()
+
+    // 읽지 못하면 알림과 휴지통 정리를 기본값으로 돌리지 않도록 불러온 것으로 치지 않습니다.
+    if (error) {
+      reportError("설정을 불러오지 못했습니다. 이 기기 시간대로 표시합니다.", error)
+      return
+    }
+
+    if (data) {
+      setUserSettings(data)
+      setHasLoadedUserSettings(true)
+      return
+    }
+    const saved = await userSettingsRepository.save({ timeZone: localTimeZone() })
+    if (saved.error) {
+      reportError("시간대 설정을 저장하지 못했습니다.", saved.error)
+      return
+    }
+    setUserSettings(saved.data)
+    setHasLoadedUserSettings(true)
+  }, [reportError])
+
+  // 로그아웃하면 기본값(알림 끔)으로 되돌려 서비스 워커에 넘긴 앞 계정의 알림도 지웁니다.
+  useEffect(() => {
+    if (isAuthenticated) fetchUserSettings()
+    else setUserSettings({ ...DEFAULT_USER_SETTINGS, timeZone: localTimeZone() })
+  }, [isAuthenticated, fetchUserSettings])
+
+  useEffect(() => {
+    const tick = () =>
+      setNow((prev) => {
+        const next = zonedDateTime(timeZone)
+        return next.date === prev.date && next.time === prev.time && next.timeZone === prev.timeZone
+          ? prev
+          : next
+      })
+    tick()
+    const timer = setInterval(tick, CLOCK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [timeZone])
+
+  // 화면에 먼저 반영하고, 저장하지 못하면 되돌립니다.
+  const updateUserSettings = async (patch: Partial<UserSettings>, errorMessage: string) => {
+    const previous = userSettings
+    setUserSettings((prev) => ({ ...prev, ...patch }))
+    const { error } = await userSettingsRepository.save(patch)
+
+    if (error) {
+      setUserSettings(previous)
+      reportError(errorMessage, error)
+      return false
+    }
+    return true
+  }
+
+  const changeTimeZone = async (next: string) => {
+    const saved = await updateUserSettings(
+      { timeZone: next },
+      "시간대를 바꾸지 못했습니다. 잠시 후 다시 시도해주세요."
+    )
+    if (saved) setFeedback({ type: "success", message: `시간대를 ${next}(으)로 바꿨습니다.` })
+  }
+
+  const updateReminderSettings = (patch: Partial<UserSettings>) =>
+    updateUserSettings(patch, "알림 설정을 저장하지 못했습니다. 잠시 후 다시 시도해주세요.")
+
+  const updateRetentionSettings = (patch: Partial<UserSettings>) =>
+    updateUserSettings(patch, "보관 설정을 저장하지 못했습니다. 잠시 후 다시 시도해주세요.")
+
+  const saveCurrentView = async (name: string) => {
+    if (savedViews.some((view) => view.name === name)) {
+      reportError("이미 같은 이름의 보기가 있습니다.")
+      return false
+    }
+    const { data, error } = await savedViewRepository.create({ name, state: viewState })
+
+    if (error) {
+      reportError("보기를 저장하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return false
+    }
+
+    setSavedViews((prev) =>
+      [...prev, data].sort((a, b) => a.name.localeCompare(b.name))
+    )
+    return true
+  }
+
+  const deleteSavedView = async (id: string) => {
+    const { error } = await savedViewRepository.remove(id)
+
+    if (error) {
+      reportError("보기를 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setSavedViews((prev) => prev.filter((view) => view.id !== id))
+  }
+
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setFeedback({ type: "success", message: "현재 보기 링크를 복사했습니다." })
+    } catch (error) {
+      reportError("링크를 복사하지 못했습니다. 주소창의 URL 을 직접 복사해주세요.", error)
+    }
+  }
+
+  const fetchSharedLists = useCallback(async () => {
+    if (!sharedListRepository) return
+    const [lists, invitations] = await Promise.all([
+      sharedListRepository.list(),
+      sharedListRepository.receivedInvitations(),
+    ])
+
+    if (lists.error || invitations.error) {
+      reportError(
+        "공유 목록을 불러오지 못했습니다. 잠시 후 다시 시도해주세요.",
+        lists.error ?? invitations.error
+      )
+      return
+    }
+
+    setSharedLists(lists.data)
+    setReceivedInvitations(invitations.data)
+  }, [reportError])
+
+  useEffect(() => {
+    if (userId) {
+      fetchSharedLists()
+    } else {
+      setSharedLists([])
+      setReceivedInvitations([])
+    }
+  }, [userId, fetchSharedLists])
+
+  // 이미 고른 목록을 다시 누르면 모든 목록으로 돌아갑니다.
+  const selectSharedList = (listId: string) =>
+    setListFilter((prev) => (prev === listId ? DEFAULT_VIEW_STATE.listFilter : listId))
+
+  const createSharedList = async (name: string) => {
+    if (!sharedListRepository) return false
+    const { data, error } = await sharedListRepository.create(name)
+
+    if (error) {
+      reportError("목록을 만들지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return false
+    }
+
+    setSharedLists((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)))
+    setListFilter(data.id)
+    return true
+  }
+
+  // 지웠거나 나간 목록의 할일은 더 볼 수 없으므로 화면에서도 뺍니다.
+  const forgetSharedList = (listId: string) => {
+    setSharedLists((prev) => prev.filter((item) => item.id !== listId))
+    setTodos((prev) => prev.filter((todo) => todo.listId !== listId))
+    setForm((prev) =>
+      prev.listId === listId ? { ...prev, listId: null, assigneeId: null } : prev
+    )
+    if (listFilter === listId) setListFilter(DEFAULT_VIEW_STATE.listFilter)
+  }
+
+  const deleteSharedList = async (list: SharedList) => {
+    if (!sharedListRepository) return
+    const { error } = await sharedListRepository.remove(list.id)
+
+    if (error) {
+      reportError("목록을 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    forgetSharedList(list.id)
+    setFeedback({ type: "success", message: `"${list.name}" 목록을 삭제했습니다.` })
+  }
+
+  const inviteToSharedList = async (
+    list: SharedList,
+    email: string,
+    role: ListInvitation["role"]
+  ) => {
+    if (!sharedListRepository) return false
+    if (list.members.some((member) => member.email === email.toLowerCase())) {
+      reportError("이미 이 목록의 구성원입니다.")
+      return false
+    }
+    const { data, error } = await sharedListRepository.invite(list.id, email, role)
+
+    if (error) {
+      reportError("초대하지 못했습니다. 이미 초대한 이메일인지 확인해주세요.", error)
+      return false
+    }
+
+    setSharedLists((prev) =>
+      prev.map((item) =>
+        item.id === list.id ? { ...item, invitations: [...item.invitations, data] } : item
+      )
+    )
+    setFeedback({ type: "success", message: `${data.email} 님을 초대했습니다.` })
+    return true
+  }
+
+  const cancelListInvitation = async (invitation: ListInvitation) => {
+    if (!sharedListRepository) return
+    const { error } = await sharedListRepository.cancelInvitation(invitation.id)
+
+    if (error) {
+      reportError("초대를 취소하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setSharedLists((prev) =>
+      prev.map((item) =>
+        item.id === invitation.listId
+          ? { ...item, invitations: item.invitations.filter(({ id }) => id !== invitation.id) }
+          : item
+      )
+    )
+  }
+
+  const changeMemberRole = async (
+    list: SharedList,
+    memberId: string,
+    role: ListInvitation["role"]
+  ) => {
+    if (!sharedListRepository) return
+    const { error } = await sharedListRepository.changeRole(list.id, memberId, role)
+
+    if (error) {
+      reportError("역할을 바꾸지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setSharedLists((prev) =>
+      prev.map((item) =>
+        item.id === list.id
+          ? {
+              ...item,
+              members: item.members.map((member) =>
+                member.userId === memberId ? { ...member, role } : member
+              ),
+            }
+          : item
+      )
+    )
+  }
+
+  // 내 id 면 목록에서 나가는 것이므로 그 목록의 할일도 더는 볼 수 없습니다.
+  const removeListMember = async (list: SharedList, memberId: string) => {
+    if (!sharedListRepository) return
+    const { error } = await sharedListRepository.removeMember(list.id, memberId)
+
+    if (error) {
+      reportError("구성원을 내보내지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    if (memberId !== userId) {
+      setSharedLists((prev) =>
+        prev.map((item) =>
+          item.id === list.id
+            ? { ...item, members: item.members.filter((member) => member.userId !== memberId) }
+            : item
+        )
+      )
+      return
+    }
+    forgetSharedList(list.id)
+    setFeedback({ type: "success", message: `"${list.name}" 목록에서 나왔습니다.` })
+  }
+
+  // 수락하면 그 목록의 할일이 보이게 되므로 할일도 다시 읽습니다.
+  const acceptListInvitation = async (invitation: ListInvitation) => {
+    if (!sharedListRepository) return
+    const { error } = await sharedListRepository.acceptInvitation(invitation.id)
+
+    if (error) {
+      reportError("초대를 수락하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    await Promise.all([fetchSharedLists(), fetchTodos(true)])
+    setListFilter(invitation.listId)
+    setFeedback({ type: "success", message: `"${invitation.listName}" 목록에 참여했습니다.` })
+  }
+
+  const declineListInvitation = async (invitation: ListInvitation) => {
+    if (!sharedListRepository) return
+    const { error } = await sharedListRepository.declineInvitation(invitation.id)
+
+    if (error) {
+      reportError("초대를 거절하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setReceivedInvitations((prev) => prev.filter(({ id }) => id !== invitation.id))
+  }
+
+  const syncError = syncState?.lastError ?? null
+  useEffect(() => {
+    if (syncError) {
+      reportError(
+        "일부 오프라인 변경 사항이 서버에서 거부되어 취소되었습니다.",
+        syncError
+      )
+    }
+  }, [syncError, reportError])
 
   const handleAuth = async (mode: "signin" | "signup") => {
     if (!authEmail || !authPassword) {
@@ -318,25 +1164,41 @@ export default function Home() {
     setFeedback({ type: "success", message: "로그아웃되었습니다." })
   }
 
+  // 새로 만든 할일은 직접 정렬에서 항상 맨 위에 놓입니다.
+  const topPosition = () => {
+    const first = manualOrder[0]?.position ?? null
+    try {
+      return generateKeyBetween(null, first)
+    } catch {
+      return null
+    }
+  }
+
   const addTodo = async () => {
-    if (!session) {
+    if (!isAuthenticated) {
       reportError("로그인 후 할일을 추가할 수 있습니다.")
       return
     }
     if (form.text.trim() === "" || isSubmitting) return
+    const text = quickAdd.tokens.length > 0 ? quickAdd.text : form.text.trim()
+    if (text === "") {
+      reportError("할일 내용을 입력해주세요.")
+      return
+    }
 
     setIsSubmitting(true)
-    const { data, error } = await supabase
-      .from("todos")
-      .insert({
-        text: form.text.trim(),
-        category: form.category,
-        priority: form.priority,
-        due_date: form.dueDate || null,
-        completed: false,
-      })
-      .select("*")
-      .single()
+    const { data, error } = await todoRepository.create({
+      ...form,
+      text,
+      category: quickAdd.category ?? form.category,
+      priority: quickAdd.priority ?? form.priority,
+      dueDate: quickAdd.dueDate ?? form.dueDate,
+      dueTime: (quickAdd.dueDate ?? form.dueDate) ? form.dueTime : "",
+      recurrence: quickAdd.recurrence
+        ? toTodoRecurrence(quickAdd.recurrence, null)
+        : form.recurrence,
+      position: topPosition(),
+    })
 
     if (error) {
       reportError("할일을 추가하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
@@ -344,18 +1206,34 @@ export default function Home() {
       return
     }
 
-    setTodos((prev) => [mapRowToTodo(data), ...prev])
+    mergeTodoChange({ type: "upsert", todo: data })
+    publishChange({ type: "upsert", todo: data })
+    recordHistory(createdEntry("할일을 추가", [data]))
     resetForm()
-    setFeedback(null)
     setIsSubmitting(false)
   }
 
+  // 반복 할일을 완료하면 완료된 회차는 이력으로 남기고 다음 회차를 만듭니다.
+  const spawnNextOccurrence = async (todo: Todo): Promise<Todo | null> => {
+    const draft = nextOccurrenceDraft(todo, todos, now.date)
+    if (!draft) return null
+
+    const { data, error } = await todoRepository.create({ ...draft, position: topPosition() })
+
+    if (error) {
+      reportError("다음 반복 할일을 만들지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return null
+    }
+
+    mergeTodoChange({ type: "upsert", todo: data })
+    publishChange({ type: "upsert", todo: data })
+    return data
+  }
+
   const toggleTodo = async (id: string, completed: boolean) => {
-    if (!session) return
-    const { error } = await supabase
-      .from("todos")
-      .update({ completed: !completed })
-      .eq("id", id)
+    if (!isAuthenticated) return
+    const patch: TodoPatch = { completed: !completed }
+    const { error } = await todoRepository.update(id, patch)
 
     if (error) {
       reportError("상태를 변경하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
@@ -363,27 +1241,216 @@ export default function Home() {
     }
 
     setTodos((prev) =>
-      prev.map((todo) =>
-        todo.id === id ? { ...todo, completed: !completed } : todo
-      )
+      prev.map((todo) => (todo.id === id ? applyTodoPatch(todo, patch) : todo))
     )
+    publishPatch(id, patch)
+
+    const toggled = todos.find((todo) => todo.id === id)
+    if (!toggled) return
+    const entry = updatedEntry(completed ? "미완료로 표시" : "완료로 표시", [toggled], patch)
+    const spawned = completed ? null : await spawnNextOccurrence(toggled)
+    // 다음 반복 회차도 함께 되돌립니다.
+    recordHistory(spawned ? combineEntries(entry, createdEntry(entry.label, [spawned])) : entry)
   }
 
-  const deleteTodo = async (id: string) => {
-    if (!session) return
-    const { error } = await supabase.from("todos").delete().eq("id", id)
+  // previous 와 next 사이로 옮깁니다. 보통은 옮긴 할일의 position 만 저장하지만,
+  // 이웃에 위치가 없거나 키가 겹치면 전체 순서를 다시 매깁니다.
+  const moveTodo = async (todo: Todo, previous: Todo | null, next: Todo | null) => {
+    if (!isAuthenticated) return
+    let position: string | null = null
+    if (previous?.position !== null && next?.position !== null) {
+      try {
+        position = generateKeyBetween(previous?.position ?? null, next?.position ?? null)
+      } catch {
+        position = null
+      }
+    }
+    if (position === null) {
+      await rebalancePositions(todo, previous, next)
+      return
+    }
+
+    const { error } = await todoRepository.update(todo.id, { position })
 
     if (error) {
-      reportError("할일을 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      reportError("순서를 바꾸지 못했습니다. 잠시 후 다시 시도해주세요.", error)
       return
     }
 
-    setTodos((prev) => prev.filter((todo) => todo.id !== id))
+    setTodos((prev) =>
+      prev.map((item) => (item.id === todo.id ? { ...item, position } : item))
+    )
+    publishPatch(todo.id, { position })
+  }
+
+  const rebalancePositions = async (
+    todo: Todo,
+    previous: Todo | null,
+    next: Todo | null
+  ) => {
+    const ordered = manualOrder.filter((item) => item.id !== todo.id)
+    const index = next
+      ? ordered.findIndex((item) => item.id === next.id)
+      : previous
+        ? ordered.findIndex((item) => item.id === previous.id) + 1
+        : ordered.length
+    ordered.splice(index < 0 ? ordered.length : index, 0, todo)
+    const keys = generateKeysBetween(null, null, ordered.length)
+    const changed = ordered
+      .map((item, i) => ({ id: item.id, position: keys[i] }))
+      .filter(({ id, position }) => todos.find((item) => item.id === id)?.position !== position)
+
+    for (const { id, position } of changed) {
+      const { error } = await todoRepository.update(id, { position })
+      if (error) {
+        reportError("순서를 바꾸지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+        await fetchTodos(true)
+        return
+      }
+      publishPatch(id, { position })
+    }
+
+    const positions = new Map(changed.map(({ id, position }) => [id, position]))
+    setTodos((prev) =>
+      prev.map((item) =>
+        positions.has(item.id) ? { ...item, position: positions.get(item.id)! } : item
+      )
+    )
+  }
+
+  // siblings 는 화면에 함께 보이는 목록입니다. 숨겨진 할일 사이로 끼어들지 않도록
+  // 보이는 이웃을 기준으로 옮깁니다.
+  const moveTodoBy = (todo: Todo, siblings: Todo[], offset: -1 | 1) => {
+    const index = siblings.findIndex((item) => item.id === todo.id)
+    const target = index + offset
+    if (index < 0 || target < 0 || target >= siblings.length) return
+    const previous = offset < 0 ? siblings[target - 1] ?? null : siblings[target]
+    const next = offset < 0 ? siblings[target] : siblings[target + 1] ?? null
+    moveTodo(todo, previous, next)
+  }
+
+  const dropTodo = (targetId: string, placement: "before" | "after", siblings: Todo[]) => {
+    const dragged = todos.find((item) => item.id === draggingId)
+    setDraggingId(null)
+    setDropTarget(null)
+    if (!dragged || dragged.id === targetId) return
+    const rest = siblings.filter((item) => item.id !== dragged.id)
+    const index = rest.findIndex((item) => item.id === targetId)
+    if (index < 0) return
+    const previous = placement === "before" ? rest[index - 1] ?? null : rest[index]
+    const next = placement === "before" ? rest[index] : rest[index + 1] ?? null
+    moveTodo(dragged, previous, next)
+  }
+
+  // 삭제는 휴지통으로 옮기는 것입니다. 완전히 지우는 것은 purgeTodos 입니다.
+  const deleteTodo = async (id: string) => {
+    const deleted = todos.find((todo) => todo.id === id)
+    if (!deleted) return
+    await updateTodoWithHistory(deleted, { deletedAt: new Date().toISOString() }, "할일을 휴지통으로 이동")
     if (editingId === id) {
       setEditingId(null)
     }
   }
 
+  // 한 할일의 필드를 바꾸고 되돌리기 기록을 남깁니다.
+  const updateTodoWithHistory = async (todo: Todo, patch: TodoPatch, label: string) => {
+    if (!isAuthenticated) return
+    const { error } = await todoRepository.update(todo.id, patch)
+
+    if (error) {
+      reportError(`${label}하지 못했습니다. 잠시 후 다시 시도해주세요.`, error)
+      return
+    }
+
+    setTodos((prev) =>
+      prev.map((item) => (item.id === todo.id ? applyTodoPatch(item, patch) : item))
+    )
+    publishPatch(todo.id, patch)
+    recordHistory(updatedEntry(label, [todo], patch))
+  }
+
+  const archiveTodo = (todo: Todo) =>
+    updateTodoWithHistory(todo, { archivedAt: new Date().toISOString() }, "할일을 보관함으로 이동")
+
+  const unarchiveTodo = (todo: Todo) =>
+    updateTodoWithHistory(todo, { archivedAt: null }, "할일을 목록으로 복원")
+
+  const restoreTodo = (todo: Todo) =>
+    updateTodoWithHistory(todo, { deletedAt: null }, "할일을 휴지통에서 복원")
+
+  // 휴지통의 할일을 완전히 지웁니다. 같은 id 로 되살릴 수 있도록 기록은 남깁니다.
+  const purgeTodos = async (targets: Todo[], label: string) => {
+    if (!isAuthenticated || targets.length === 0) return
+    const { data, error } = await todoRepository.removeMany(targets.map((todo) => todo.id))
+
+    if (error) {
+      reportError(`${label}하지 못했습니다. 잠시 후 다시 시도해주세요.`, error)
+      return
+    }
+
+    const removed = new Set(data.succeeded)
+    setTodos((prev) => prev.filter((todo) => !removed.has(todo.id)))
+    data.succeeded.forEach((id) => publishChange({ type: "delete", id }))
+    const purged = targets.filter((todo) => removed.has(todo.id))
+    if (purged.length > 0) recordHistory(deletedEntry(label, purged))
+    if (data.failed.length > 0) {
+      reportError(`${data.failed.length}개는 지우지 못했습니다.`, data.failed)
+    }
+  }
+
+  const updateSubtasks = async (todo: Todo, subtasks: Subtask[]) => {
+    if (!isAuthenticated) return
+    const allDone = subtasks.length > 0 && subtasks.every((subtask) => subtask.completed)
+    const patch: { subtasks: Subtask[]; completed?: boolean } = { subtasks }
+    if (preferences.autoCompleteParent && subtasks.length > 0 && allDone !== todo.completed) {
+      patch.completed = allDone
+    }
+
+    const { error } = await todoRepository.update(todo.id, patch)
+
+    if (error) {
+      reportError("체크리스트를 저장하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setTodos((prev) =>
+      prev.map((item) => (item.id === todo.id ? applyTodoPatch(item, patch) : item))
+    )
+    publishPatch(todo.id, patch)
+    if (patch.completed) {
+      await spawnNextOccurrence({ ...todo, ...patch })
+    }
+  }
+
+  const toggleSubtaskPanel = (id: string) => {
+    setExpandedSubtaskIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleActivityPanel = (id: string) => {
+    setExpandedActivityIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const revertActivity = (todo: Todo, entry: TodoActivity, patch: TodoPatch) => {
+    if (!entry.field) return
+    updateTodoWithHistory(todo, patch, `${activityFieldLabels[entry.field]} 값을 복원`)
+  }
+
   const startEditing = (todo: Todo) => {
     setEditingId(todo.id)
     setEditForm({
@@ -391,6 +1458,10 @@ export default function Home() {
       category: todo.category,
       priority: todo.priority,
       dueDate: todo.dueDate,
+      dueTime: todo.dueTime,
+      recurrence: todo.recurrence,
+      reminders: todo.reminders,
+      assigneeId: todo.assigneeId,
     })
   }
 
@@ -399,18 +1470,16 @@ export default function Home() {
   }
 
   const saveEditing = async (id: string) => {
-    if (!session) return
+    if (!isAuthenticated) return
     if (editForm.text.trim() === "") return
+    const edited = todos.find((todo) => todo.id === id)
+    const patch: TodoPatch = {
+      ...editForm,
+      text: editForm.text.trim(),
+      dueTime: editForm.dueDate ? editForm.dueTime : "",
+    }
 
-    const { error } = await supabase
-      .from("todos")
-      .update({
-        text: editForm.text.trim(),
-        category: editForm.category,
-        priority: editForm.priority,
-        due_date: editForm.dueDate || null,
-      })
-      .eq("id", id)
+    const { error } = await todoRepository.update(id, patch)
 
     if (error) {
       reportError("할일을 수정하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
@@ -420,16 +1489,21 @@ export default function Home() {
     setTodos((prev) =>
       prev.map((todo) =>
         todo.id === id
-          ? {
-              ...todo,
+          ? applyTodoPatch(todo, {
               text: editForm.text.trim(),
               category: editForm.category,
               priority: editForm.priority,
               dueDate: editForm.dueDate,
-            }
+              dueTime: patch.dueTime ?? "",
+              recurrence: editForm.recurrence,
+              reminders: editForm.reminders ?? todo.reminders,
+              assigneeId: editForm.assigneeId ?? null,
+            })
           : todo
       )
     )
+    publishPatch(id, patch)
+    if (edited) recordHistory(updatedEntry("할일을 수정", [edited], patch))
     setEditingId(null)
   }
 
@@ -451,44 +1525,587 @@ export default function Home() {
 
   const saveFieldEditing = async () => {
     if (!fieldEditing) return
-    if (!session) return
+    if (!isAuthenticated) return
     const { id, field } = fieldEditing
     const value =
       field === "priority"
         ? (fieldEditValue as Priority)
         : fieldEditValue
+    const edited = todos.find((todo) => todo.id === id)
+    // 마감일을 지우면 마감 시각도 함께 지웁니다.
+    const patch: TodoPatch =
+      field === "dueDate" && value === "" ? { dueDate: "", dueTime: "" } : { [field]: value }
+
+    const { error } = await todoRepository.update(id, patch)
+
+    if (error) {
+      reportError("필드를 수정하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setTodos((prev) =>
+      prev.map((todo) =>
+        todo.id === id
+          ? applyTodoPatch(todo, patch)
+          : todo
+      )
+    )
+    publishPatch(id, patch)
+    if (edited) {
+      const label =
+        field === "priority"
+          ? "우선순위를 변경"
+          : field === "category"
+            ? "카테고리를 변경"
+            : "마감일을 변경"
+      recordHistory(updatedEntry(label, [edited], patch))
+    }
+    setFieldEditing(null)
+    setFieldEditValue("")
+  }
+
+  const toggleSelection = (id: string, extendRange: boolean) => {
+    const anchor = selectionAnchorRef.current
+    const ids = selectableTodos.map((todo) => todo.id)
+    const from = anchor ? ids.indexOf(anchor) : -1
+    const to = ids.indexOf(id)
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (extendRange && from >= 0 && to >= 0) {
+        ids.slice(Math.min(from, to), Math.max(from, to) + 1).forEach((item) => next.add(item))
+      } else if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+    selectionAnchorRef.current = id
+  }
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      selectedTodos.length === selectableTodos.length
+        ? new Set()
+        : new Set(selectableTodos.map((todo) => todo.id))
+    )
+  }
+
+  const stopSelecting = () => {
+    setIsSelecting(false)
+    setSelectedIds(new Set())
+    selectionAnchorRef.current = null
+  }
+
+  // 일괄 작업 결과를 한 번에 알립니다. 실패한 할일은 다시 시도할 수 있도록 선택된 채로 둡니다.
+  const reportBulkResult = (result: BulkResult, entry: HistoryEntry) => {
+    setSelectedIds(new Set(result.failed.map(({ id }) => id)))
+    if (result.succeeded.length > 0) recordHistory(entry)
+    if (result.failed.length === 0) return
+    const names = result.failed
+      .map(({ id }) => `"${todos.find((todo) => todo.id === id)?.text ?? id}"`)
+      .join(", ")
+    reportError(
+      `${entry.label}했고 ${result.failed.length}개는 실패했습니다: ${names}`,
+      result.failed
+    )
+  }
+
+  const bulkUpdate = async (patch: TodoPatch, action: string) => {
+    if (!isAuthenticated || selectedTodos.length === 0) return
+    const targets = selectedTodos
+    const { data, error } = await todoRepository.updateMany(
+      targets.map((todo) => todo.id),
+      patch
+    )
+
+    if (error) {
+      reportError(`선택한 할일을 ${action}하지 못했습니다. 잠시 후 다시 시도해주세요.`, error)
+      return
+    }
+
+    const succeeded = new Set(data.succeeded)
+    setTodos((prev) =>
+      prev.map((todo) => (succeeded.has(todo.id) ? applyTodoPatch(todo, patch) : todo))
+    )
+    data.succeeded.forEach((id) => publishPatch(id, patch))
+
+    const updated = targets.filter((todo) => succeeded.has(todo.id))
+    let entry = updatedEntry(`할일 ${updated.length}개를 ${action}`, updated, patch)
+    if (patch.completed) {
+      const spawned: Todo[] = []
+      for (const todo of updated.filter((item) => !item.completed)) {
+        const next = await spawnNextOccurrence({ ...todo, ...patch })
+        if (next) spawned.push(next)
+      }
+      if (spawned.length > 0) entry = combineEntries(entry, createdEntry(entry.label, spawned))
+    }
+    reportBulkResult(data, entry)
+  }
+
+  const bulkDelete = async () => {
+    if (editingId && selectedIds.has(editingId)) {
+      setEditingId(null)
+    }
+    await bulkUpdate({ deletedAt: new Date().toISOString() }, "휴지통으로 이동")
+  }
+
+  // 보존 기간이 지난 휴지통 항목을 지우고, 완료한 지 오래된 할일을 보관합니다.
+  // 계정 설정을 읽기 전에는 기본값으로 지우지 않도록 기다리고, 공유 목록에서 다른 구성원이
+  // 만든 할일은 그 사람의 설정을 따르도록 건드리지 않습니다.
+  useEffect(() => {
+    if (!isAuthenticated || isLoading || !hasLoadedUserSettings) return
+    if (isApplyingRetentionRef.current) return
+    const isOwn = (todo: Todo) => isOwnTodo(todo, userId)
+    const expired = findExpiredTrash(trashedTodos.filter(isOwn), userSettings.trashRetentionDays)
+    const archivable = findArchivable(activeTodos.filter(isOwn), userSettings.autoArchiveDays)
+    if (expired.length === 0 && archivable.length === 0) return
+
+    isApplyingRetentionRef.current = true
+    void (async () => {
+      try {
+        if (expired.length > 0) {
+          const { data, error } = await todoRepository.removeMany(expired.map((todo) => todo.id))
+          if (error) {
+            reportError("휴지통을 정리하지 못했습니다.", error)
+          } else {
+            const removed = new Set(data.succeeded)
+            setTodos((prev) => prev.filter((todo) => !removed.has(todo.id)))
+            data.succeeded.forEach((id) => publishChange({ type: "delete", id }))
+          }
+        }
+        if (archivable.length > 0) {
+          const patch = { archivedAt: new Date().toISOString() }
+          const { data, error } = await todoRepository.updateMany(
+            archivable.map((todo) => todo.id),
+            patch
+          )
+          if (error) {
+            reportError("완료한 할일을 보관하지 못했습니다.", error)
+          } else {
+            const archived = new Set(data.succeeded)
+            setTodos((prev) =>
+              prev.map((todo) => (archived.has(todo.id) ? applyTodoPatch(todo, patch) : todo))
+            )
+            data.succeeded.forEach((id) => publishPatch(id, patch))
+          }
+        }
+      } finally {
+        isApplyingRetentionRef.current = false
+      }
+    })()
+  }, [
+    isAuthenticated,
+    isLoading,
+    hasLoadedUserSettings,
+    userId,
+    trashedTodos,
+    activeTodos,
+    userSettings.trashRetentionDays,
+    userSettings.autoArchiveDays,
+  ])
+
+  useEffect(() => {
+    setNotificationPermission(notificationSupport())
+  }, [])
+
+  const toggleReminders = async (enabled: boolean) => {
+    if (!enabled) {
+      await updateReminderSettings({ remindersEnabled: false })
+      return
+    }
+    const permission = await requestNotificationPermission()
+    setNotificationPermission(permission)
+    if (permission !== "granted") {
+      reportError("알림 권한을 받지 못해 마감 알림을 켜지 못했습니다.")
+      return
+    }
+    await updateReminderSettings({ remindersEnabled: true })
+  }
+
+  // 할일이 바뀔 때마다 알림 목록을 서비스 워커에 넘기고, 페이지가 열려 있는 동안은 1분마다 다시 넘겨 때가 된 알림을 띄우게 합니다.
+  useEffect(() => {
+    if (!hasLoadedUserSettings || notificationPermission === "unsupported") return
+    const enabled = userSettings.remindersEnabled && notificationPermission === "granted"
+    const sync = () => {
+      if (!enabled) return sendReminderSchedule(false, [])
+      const summary = userSettings.dailySummaryTime
+        ? dailySummaryReminder(activeTodos, userSettings.dailySummaryTime, timeZone)
+        : null
+      return sendReminderSchedule(true, [
+        ...collectTodoReminders(activeTodos, timeZone),
+        ...(summary ? [summary] : []),
+      ])
+    }
+
+    let cancelled = false
+    let timer: ReturnType<typeof setInterval> | undefined
+    sync().then(
+      () => {
+        if (enabled && !cancelled) {
+          timer = setInterval(() => void sync().catch(() => {}), REMINDER_SYNC_INTERVAL_MS)
+        }
+      },
+      (error) => reportError("마감 알림을 예약하지 못했습니다.", error)
+    )
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [
+    hasLoadedUserSettings,
+    notificationPermission,
+    userSettings.remindersEnabled,
+    userSettings.dailySummaryTime,
+    activeTodos,
+    timeZone,
+    reportError,
+  ])
+
+  // 전체는 보관함을 포함하고 휴지통은 뺍니다. 현재 보기는 화면에 보이는 순서 그대로입니다.
+  const exportTodos = (format: ExportFormat, scope: ExportScope) => {
+    const targets = scope === "all" ? todos.filter((todo) => !todo.deletedAt) : visibleTodos
+    try {
+      downloadTodos(targets, format, timeZone)
+    } catch (error) {
+      reportError("파일을 만들지 못했습니다.", error)
+      return
+    }
+    const label = exportFormatOptions.find((option) => option.value === format)?.label ?? format
+    const skipped =
+      format.startsWith("ics") ? targets.filter((todo) => !todo.dueDate).length : 0
+    setFeedback({
+      type: "success",
+      message:
+        skipped > 0
+          ? `할일 ${targets.length - skipped}개를 ${label} 파일로 내보냈습니다. 마감일이 없는 ${skipped}개는 뺐습니다.`
+          : `할일 ${targets.length}개를 ${label} 파일로 내보냈습니다.`,
+    })
+  }
+
+  // 없는 카테고리를 먼저 만들고, 파일 순서를 유지한 채 목록 맨 위에 나눠서 넣습니다.
+  const importTodos = async (rows: ImportRow[]) => {
+    const missing = Array.from(
+      new Set(rows.filter((row) => row.newCategory).map((row) => row.draft.category))
+    )
+    const nextSortOrder =
+      categories.reduce((max, category) => Math.max(max, category.sortOrder), -1) + 1
+    const createdCategories: Category[] = []
+    for (const [index, name] of missing.entries()) {
+      const { data, error } = await categoryRepository.create({
+        name,
+        color: CATEGORY_COLOR_PALETTE[(categories.length + index) % CATEGORY_COLOR_PALETTE.length],
+        sortOrder: nextSortOrder + index,
+      })
+      if (error) {
+        reportError(`카테고리 "${name}" 를 만들지 못해 가져오기를 멈췄습니다.`, error)
+        break
+      }
+      createdCategories.push(data)
+    }
+    if (createdCategories.length > 0) {
+      setCategories((prev) => [...prev, ...createdCategories])
+    }
+    if (createdCategories.length < missing.length) return
+
+    let positions: (string | null)[]
+    try {
+      positions = generateKeysBetween(null, manualOrder[0]?.position ?? null, rows.length)
+    } catch {
+      positions = rows.map(() => null)
+    }
+    const drafts = rows.map((row, index) => ({ ...row.draft, position: positions[index] }))
+
+    const imported: Todo[] = []
+    setImportProgress({ done: 0, total: drafts.length })
+    for (const batch of chunk(drafts, IMPORT_BATCH_SIZE)) {
+      const { data, error } = await todoRepository.createMany(batch)
+      if (error) {
+        reportError(
+          `${drafts.length}개 중 ${imported.length}개를 넣은 뒤 멈췄습니다. 잠시 후 다시 시도해주세요.`,
+          error
+        )
+        break
+      }
+      data.forEach((todo) => {
+        mergeTodoChange({ type: "upsert", todo })
+        publishChange({ type: "upsert", todo })
+      })
+      imported.push(...data)
+      setImportProgress({ done: imported.length, total: drafts.length })
+    }
+    setImportProgress(null)
+
+    if (imported.length === 0) return
+    const entry = createdEntry(`할일 ${imported.length}개를 추가`, imported)
+    setHistory((prev) => pushHistory(prev, entry))
+    if (imported.length < drafts.length) return
+    setIsImporting(false)
+    setFeedback({
+      type: "success",
+      message: `할일 ${imported.length}개를 가져왔습니다.`,
+      action: { label: "실행 취소", run: () => historyActionsRef.current.undo() },
+    })
+  }
+
+  const recordHistory = (entry: HistoryEntry) => {
+    setHistory((prev) => pushHistory(prev, entry))
+    setFeedback({
+      type: "success",
+      message: `${entry.label}했습니다.`,
+      action: { label: "실행 취소", run: () => historyActionsRef.current.undo() },
+    })
+  }
+
+  // 작업 하나를 저장소에 적용하고 화면과 다른 탭에 반영합니다.
+  const applyTodoOperation = async (operation: TodoOperation) => {
+    if (operation.type === "update") {
+      const { error } = await todoRepository.update(operation.id, operation.patch)
+      if (error) return error
+      setTodos((prev) =>
+        prev.map((todo) =>
+          todo.id === operation.id ? applyTodoPatch(todo, operation.patch) : todo
+        )
+      )
+      publishPatch(operation.id, operation.patch)
+    } else if (operation.type === "remove") {
+      const { error } = await todoRepository.remove(operation.id)
+      if (error) return error
+      setTodos((prev) => prev.filter((todo) => todo.id !== operation.id))
+      publishChange({ type: "delete", id: operation.id })
+    } else {
+      const { data, error } = await todoRepository.restore(operation.todo)
+      if (error) return error
+      mergeTodoChange({ type: "upsert", todo: data })
+      publishChange({ type: "upsert", todo: data })
+    }
+    return null
+  }
+
+  const replayHistory = async (direction: "undo" | "redo") => {
+    if (!isAuthenticated || isReplayingRef.current) return
+    const taken = direction === "undo" ? takeUndo(history) : takeRedo(history)
+    if (!taken) return
+    isReplayingRef.current = true
+    try {
+      for (const operation of taken.entry[direction]) {
+        const error = await applyTodoOperation(operation)
+        if (error) {
+          reportError(
+            direction === "undo"
+              ? "작업을 되돌리지 못했습니다. 잠시 후 다시 시도해주세요."
+              : "작업을 다시 실행하지 못했습니다. 잠시 후 다시 시도해주세요.",
+            error
+          )
+          return
+        }
+      }
+      setHistory(taken.history)
+      setFeedback(
+        direction === "undo"
+          ? {
+              type: "success",
+              message: `${taken.entry.label}한 작업을 되돌렸습니다.`,
+              action: { label: "다시 실행", run: () => historyActionsRef.current.redo() },
+            }
+          : {
+              type: "success",
+              message: `${taken.entry.label}한 작업을 다시 실행했습니다.`,
+              action: { label: "실행 취소", run: () => historyActionsRef.current.undo() },
+            }
+      )
+    } finally {
+      isReplayingRef.current = false
+    }
+  }
+
+  useEffect(() => {
+    historyActionsRef.current = {
+      undo: () => void replayHistory("undo"),
+      redo: () => void replayHistory("redo"),
+    }
+  })
+
+  // Ctrl+Z 로 되돌리고 Ctrl+Shift+Z(또는 Ctrl+Y)로 다시 실행합니다.
+  // 입력 칸 안에서는 브라우저 기본 동작을 그대로 둡니다.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return
+      const key = event.key.toLowerCase()
+      if (key === "z") {
+        event.preventDefault()
+        if (event.shiftKey) {
+          historyActionsRef.current.redo()
+        } else {
+          historyActionsRef.current.undo()
+        }
+      } else if (key === "y") {
+        event.preventDefault()
+        historyActionsRef.current.redo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // 달력에서 끌어다 놓은 할일의 마감일을 바꿉니다. 빈 문자열이면 마감일을 지웁니다.
+  const rescheduleTodo = async (todo: Todo, dueDate: string) => {
+    if (!isAuthenticated) return
+    const { error } = await todoRepository.update(todo.id, { dueDate })
+
+    if (error) {
+      reportError("마감일을 바꾸지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setTodos((prev) =>
+      prev.map((item) => (item.id === todo.id ? applyTodoPatch(item, { dueDate }) : item))
+    )
+    publishPatch(todo.id, { dueDate })
+  }
+
+  // 보드에서 카드를 다른 열로 옮기면 열의 기준이 되는 필드를 바꿉니다.
+  const moveTodoToColumn = async (todo: Todo, columnKey: string) => {
+    if (!isAuthenticated) return
+    if (groupKey === "status") {
+      if ((columnKey === "completed") !== todo.completed) {
+        await toggleTodo(todo.id, todo.completed)
+      }
+      return
+    }
+    const patch: TodoPatch =
+      groupKey === "priority"
+        ? { priority: columnKey as Priority }
+        : { category: columnKey }
+    const { error } = await todoRepository.update(todo.id, patch)
+
+    if (error) {
+      reportError("할일을 옮기지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+
+    setTodos((prev) =>
+      prev.map((item) => (item.id === todo.id ? applyTodoPatch(item, patch) : item))
+    )
+    publishPatch(todo.id, patch)
+  }
+
+  const createCategory = async (name: string, color: string) => {
+    if (categories.some((category) => category.name === name)) {
+      reportError("이미 같은 이름의 카테고리가 있습니다.")
+      return false
+    }
+    const sortOrder =
+      categories.reduce((max, category) => Math.max(max, category.sortOrder), -1) + 1
+    const { data, error } = await categoryRepository.create({ name, color, sortOrder })
+
+    if (error) {
+      reportError("카테고리를 추가하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return false
+    }
 
-    const payload =
-      field === "dueDate"
-        ? { due_date: value || null }
-        : { [field]: value }
+    setCategories((prev) => [...prev, data])
+    return true
+  }
 
-    const { error } = await supabase.from("todos").update(payload).eq("id", id)
+  const moveTodosToCategory = async (from: string, to: string) => {
+    const { error } = await todoRepository.reassignCategory(from, to)
 
     if (error) {
-      reportError("필드를 수정하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
-      return
+      reportError("할일의 카테고리를 옮기지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return false
     }
 
     setTodos((prev) =>
       prev.map((todo) =>
-        todo.id === id
-          ? {
-              ...todo,
-              [field]: field === "dueDate" ? (value as string) : value,
-            }
-          : todo
+        todo.category === from && isOwnTodo(todo, userId) ? { ...todo, category: to } : todo
       )
     )
-    setFieldEditing(null)
-    setFieldEditValue("")
+    setForm((prev) => (prev.category === from ? { ...prev, category: to } : prev))
+    setCategoryFilter((prev) => (prev === from ? to : prev))
+    return true
+  }
+
+  const updateCategory = async (id: string, patch: CategoryPatch) => {
+    const current = categories.find((category) => category.id === id)
+    if (!current) return false
+    const renamedTo =
+      patch.name !== undefined && patch.name !== current.name ? patch.name : null
+    if (renamedTo && categories.some((category) => category.name === renamedTo)) {
+      reportError("이미 같은 이름의 카테고리가 있습니다.")
+      return false
+    }
+
+    const { error } = await categoryRepository.update(id, patch)
+
+    if (error) {
+      reportError("카테고리를 수정하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return false
+    }
+
+    setCategories((prev) =>
+      prev.map((category) => (category.id === id ? { ...category, ...patch } : category))
+    )
+    if (renamedTo) {
+      await moveTodosToCategory(current.name, renamedTo)
+    }
+    return true
+  }
+
+  const moveCategory = async (id: string, direction: -1 | 1) => {
+    const index = categories.findIndex((category) => category.id === id)
+    if (index < 0 || !categories[index + direction]) return
+
+    // sortOrder 가 중복될 수 있으므로 목록 위치 기준으로 다시 매깁니다.
+    const reordered = [...categories]
+    ;[reordered[index], reordered[index + direction]] = [
+      reordered[index + direction],
+      reordered[index],
+    ]
+    const next = reordered.map((category, sortOrder) => ({ ...category, sortOrder }))
+    const changed = next.filter(
+      (category) =>
+        categories.find((prev) => prev.id === category.id)?.sortOrder !==
+        category.sortOrder
+    )
+    setCategories(next)
+
+    const results = await Promise.all(
+      changed.map((category) =>
+        categoryRepository.update(category.id, { sortOrder: category.sortOrder })
+      )
+    )
+    const failed = results.find((result) => result.error)
+    if (failed?.error) {
+      reportError("카테고리 순서를 저장하지 못했습니다. 잠시 후 다시 시도해주세요.", failed.error)
+      fetchCategories()
+    }
   }
 
-  const formattedDueDate = (value: string | null | undefined) => {
-    if (!value) return "기한 없음"
-    const date = new Date(value)
-    if (Number.isNaN(date.getTime())) return "기한 없음"
-    return new Intl.DateTimeFormat("ko-KR", { dateStyle: "medium" }).format(date)
+  const removeCategory = async (id: string, reassignTo: string | null) => {
+    const current = categories.find((category) => category.id === id)
+    if (!current) return false
+    if (reassignTo && !(await moveTodosToCategory(current.name, reassignTo))) {
+      return false
+    }
+
+    const { error } = await categoryRepository.remove(id)
+
+    if (error) {
+      reportError("카테고리를 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return false
+    }
+
+    setCategories((prev) => prev.filter((category) => category.id !== id))
+    setFeedback({
+      type: "success",
+      message: reassignTo
+        ? `"${current.name}"의 할일을 "${reassignTo}"(으)로 옮기고 카테고리를 삭제했습니다.`
+        : `"${current.name}" 카테고리를 삭제했습니다.`,
+    })
+    return true
   }
 
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -497,7 +2114,505 @@ export default function Home() {
     }
   }
 
-  if (!session) {
+  const renderTodoRow = (todo: Todo, _index: number, siblings: Todo[]) => {
+    const isEditing = editingId === todo.id
+    const canEdit = canEditTodo(todo, sharedLists)
+    const canReorder = canEdit && sortBy === "manual" && !isEditing
+    const listName = todo.listId
+      ? sharedLists.find((list) => list.id === todo.listId)?.name ?? "공유 목록"
+      : null
+    const assigneeEmail = memberEmail(sharedLists, todo.listId, todo.assigneeId)
+    const creatorEmail = memberEmail(sharedLists, todo.listId, todo.createdBy)
+    const dropPlacement = dropTarget?.id === todo.id ? dropTarget.placement : null
+    const isSubtaskPanelOpen = expandedSubtaskIds.has(todo.id)
+    const isActivityPanelOpen = expandedActivityIds.has(todo.id)
+    const subtaskTotal = todo.subtasks.length
+    const subtaskDone = todo.subtasks.filter(
+      (subtask) => subtask.completed
+    ).length
+    const priorityLabel =
+      priorityOptions.find((p) => p.value === todo.priority)
+        ?.label ?? "보통"
+
+    return (
+      <div
+        key={todo.id}
+        draggable={canReorder}
+        onDragStart={(e) => {
+          if (!canReorder) return
+          e.dataTransfer.effectAllowed = "move"
+          e.dataTransfer.setData("text/plain", todo.id)
+          setDraggingId(todo.id)
+        }}
+        onDragOver={(e) => {
+          if (!draggingId) return
+          e.preventDefault()
+          const rect = e.currentTarget.getBoundingClientRect()
+          const placement = e.clientY < rect.top + rect.height / 2 ? "before" : "after"
+          if (dropPlacement !== placement) {
+            setDropTarget({ id: todo.id, placement })
+          }
+        }}
+        onDrop={(e) => {
+          if (!draggingId) return
+          e.preventDefault()
+          dropTodo(todo.id, dropPlacement ?? "after", siblings)
+        }}
+        onDragEnd={() => {
+          setDraggingId(null)
+          setDropTarget(null)
+        }}
+        className={cn(
+          "rounded-lg border bg-card p-4 shadow-sm",
+          isOverdue(todo, now) &&
+            "border-red-200 bg-red-50/40 dark:border-red-900/60 dark:bg-red-950/20",
+          isSelecting && selectedIds.has(todo.id) && "border-primary bg-primary/5",
+          draggingId === todo.id && "opacity-50",
+          dropPlacement === "before" && "border-t-2 border-t-primary",
+          dropPlacement === "after" && "border-b-2 border-b-primary"
+        )}
+      >
+        <div className="flex flex-col gap-3">
+          <div className="flex items-start gap-3">
+            {isSelecting && canEdit && (
+              <Checkbox
+                checked={selectedIds.has(todo.id)}
+                onClick={(e) => toggleSelection(todo.id, e.shiftKey)}
+                aria-label={`${todo.text} 선택`}
+                className="mt-1 rounded-full"
+              />
+            )}
+            {canReorder && (
+              <button
+                type="button"
+                className="mt-0.5 cursor-grab rounded text-muted-foreground hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                aria-label={`${todo.text} 순서 옮기기 (위/아래 화살표)`}
+                title="끌어서 옮기거나 위/아래 화살표로 옮기세요"
+                onKeyDown={(e) => {
+                  if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+                    e.preventDefault()
+                    moveTodoBy(todo, siblings, e.key === "ArrowUp" ? -1 : 1)
+                  }
+                }}
+              >
+                <GripVertical className="h-4 w-4" />
+              </button>
+            )}
+            {canEdit && (
+              <Checkbox
+                checked={todo.completed}
+                onCheckedChange={() => toggleTodo(todo.id, todo.completed)}
+                className="mt-1"
+              />
+            )}
+            <div className="flex-1 space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {(["priority", "category", "dueDate"] as const).map(
+                  (fieldKey) => {
+                    const isFieldEditing =
+                      fieldEditing?.id === todo.id &&
+                      fieldEditing.field === fieldKey
+                    const overdue = fieldKey === "dueDate" && isOverdue(todo, now)
+                    const fieldLabel =
+                      fieldKey === "priority"
+                        ? "우선순위"
+                        : fieldKey === "category"
+                          ? "카테고리"
+                          : overdue
+                            ? "마감 지남"
+                            : "마감"
+                    const fieldValue =
+                      fieldKey === "priority"
+                        ? priorityLabel
+                        : fieldKey === "category"
+                          ? todo.category
+                          : formatTodoDeadline(todo, timeZone)
+
+                    return (
+                      <div key={fieldKey} className="min-w-[140px]">
+                        {isFieldEditing ? (
+                          <div className="flex flex-wrap items-center gap-2 rounded-full border bg-muted/60 px-3 py-1.5 text-xs">
+                            {fieldKey === "category" && (
+                              <select
+                                className="flex-1 bg-transparent text-xs outline-none"
+                                value={fieldEditValue}
+                                onChange={(e) => setFieldEditValue(e.target.value)}
+                              >
+                                {categoryOptions.map((option) => (
+                                  <option key={option.value} value={option.value}>
+                                    {option.label}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            {fieldKey === "priority" && (
+                              <select
+                                className="flex-1 bg-transparent text-xs outline-none"
+                                value={fieldEditValue}
+                                onChange={(e) =>
+                                  setFieldEditValue(e.target.value as Priority)
+                                }
+                              >
+                                {priorityOptions.map((option) => (
+                                  <option key={option.value} value={option.value}>
+                                    {option.label}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            {fieldKey === "dueDate" && (
+                              <Input
+                                type="date"
+                                value={fieldEditValue}
+                                onChange={(e) => setFieldEditValue(e.target.value)}
+                                className="h-6 flex-1 border-none bg-transparent p-0 text-xs focus-visible:ring-0"
+                              />
+                            )}
+                            <div className="flex items-center gap-1">
+                              <Button
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={saveFieldEditing}
+                              >
+                                <Check className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={cancelFieldEditing}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => startFieldEditing(todo, fieldKey)}
+                            disabled={editingId === todo.id || !canEdit}
+                            className={cn(
+                              "group inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                              canEdit && "hover:border-primary hover:bg-primary/5",
+                              fieldKey === "priority" && priorityBadgeStyles[todo.priority],
+                              overdue &&
+                                "border-red-300 text-red-600 dark:border-red-900 dark:text-red-400"
+                            )}
+                          >
+                            {fieldKey === "category" && (
+                              <span
+                                className="inline-block h-2 w-2 rounded-full"
+                                style={{
+                                  backgroundColor:
+                                    categoryColors[todo.category] ??
+                                    FALLBACK_CATEGORY_COLOR,
+                                }}
+                              />
+                            )}
+                            <span className={cn(!overdue && "text-muted-foreground")}>
+                              {fieldLabel}
+                            </span>
+                            <span className="font-semibold">{fieldValue}</span>
+                            {canEdit && (
+                              <Edit3 className="h-3.5 w-3.5 opacity-0 transition-opacity group-hover:opacity-100" />
+                            )}
+                          </button>
+                        )}
+                      </div>
+                    )
+                  }
+                )}
+                <button
+                  type="button"
+                  onClick={() => toggleSubtaskPanel(todo.id)}
+                  aria-expanded={isSubtaskPanelOpen}
+                  className={cn(
+                    "inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium transition-colors hover:border-primary hover:bg-primary/5",
+                    subtaskTotal > 0 &&
+                      subtaskDone === subtaskTotal &&
+                      "border-emerald-300 text-emerald-700 dark:border-emerald-800 dark:text-emerald-300"
+                  )}
+                >
+                  <ListChecks className="h-3.5 w-3.5" />
+                  {subtaskTotal > 0
+                    ? `${subtaskDone}/${subtaskTotal} 완료`
+                    : "체크리스트"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggleActivityPanel(todo.id)}
+                  aria-expanded={isActivityPanelOpen}
+                  className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium transition-colors hover:border-primary hover:bg-primary/5"
+                >
+                  <History className="h-3.5 w-3.5" />
+                  기록
+                </button>
+                {todo.recurrence && (
+                  <span
+                    className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium text-muted-foreground"
+                    title={`${todo.recurrence.occurrence}번째 반복`}
+                  >
+                    <Repeat className="h-3.5 w-3.5" />
+                    {describeRecurrence(todo.recurrence)}
+                    <span className="text-[10px]">
+                      · {todo.recurrence.occurrence}회차
+                    </span>
+                  </span>
+                )}
+                {todo.reminders.length > 0 && todo.dueDate && !todo.completed && (
+                  <span
+                    className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium text-muted-foreground"
+                    title="마감 알림"
+                  >
+                    <Bell className="h-3.5 w-3.5" />
+                    {todo.reminders.map(describeReminderOffset).join(", ")}
+                  </span>
+                )}
+                {pendingSyncIds.has(todo.id) && (
+                  <span className="inline-flex items-center gap-1 rounded-full border border-dashed border-sky-300 px-3 py-1 text-xs font-medium text-sky-700 dark:border-sky-800 dark:text-sky-300">
+                    <CloudOff className="h-3.5 w-3.5" />
+                    동기화 대기
+                  </span>
+                )}
+                {listName && (
+                  <span className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium text-muted-foreground">
+                    <Users className="h-3.5 w-3.5" />
+                    {listName}
+                    {!canEdit && <span className="text-[10px]">· 보기 전용</span>}
+                  </span>
+                )}
+                {todo.assigneeId && (
+                  <span
+                    className={cn(
+                      "inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium",
+                      todo.assigneeId === userId
+                        ? "border-primary/50 text-primary"
+                        : "text-muted-foreground"
+                    )}
+                  >
+                    <UserRound className="h-3.5 w-3.5" />
+                    담당 {todo.assigneeId === userId ? "나" : (assigneeEmail ?? "알 수 없음")}
+                  </span>
+                )}
+                {todo.listId && todo.createdBy && (
+                  <span className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium text-muted-foreground">
+                    작성 {todo.createdBy === userId ? "나" : (creatorEmail ?? "알 수 없음")}
+                  </span>
+                )}
+              </div>
+              {isEditing ? (
+                <div className="space-y-3">
+                  <Input
+                    value={editForm.text}
+                    onChange={(e) =>
+                      handleEditChange("text", e.target.value)
+                    }
+                  />
+                  <div className="grid gap-3 md:grid-cols-3">
+                    <select
+                      className={selectFieldClass}
+                      value={editForm.category}
+                      onChange={(e) =>
+                        handleEditChange(
+                          "category",
+                          e.target.value
+                        )
+                      }
+                    >
+                      {categoryOptions.map((option) => (
+                        <option
+                          key={option.value}
+                          value={option.value}
+                        >
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className={selectFieldClass}
+                      value={editForm.priority}
+                      onChange={(e) =>
+                        handleEditChange(
+                          "priority",
+                          e.target.value as Priority
+                        )
+                      }
+                    >
+                      {priorityOptions.map((option) => (
+                        <option
+                          key={option.value}
+                          value={option.value}
+                        >
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={editForm.dueDate}
+                        onChange={(e) =>
+                          handleEditChange("dueDate", e.target.value)
+                        }
+                      />
+                      <Input
+                        type="time"
+                        aria-label="마감 시각"
+                        className="w-28"
+                        disabled={!editForm.dueDate}
+                        value={editForm.dueTime ?? ""}
+                        onChange={(e) =>
+                          handleEditChange("dueTime", e.target.value)
+                        }
+                      />
+                    </div>
+                  </div>
+                  <RecurrenceEditor
+                    value={editForm.recurrence}
+                    onChange={(rule) =>
+                      setEditForm((prev) => ({
+                        ...prev,
+                        recurrence: toTodoRecurrence(rule, prev.recurrence),
+                      }))
+                    }
+                  />
+                  <ReminderPicker
+                    value={editForm.reminders ?? []}
+                    hasDueDate={Boolean(editForm.dueDate)}
+                    onChange={(reminders) => setEditForm((prev) => ({ ...prev, reminders }))}
+                  />
+                  {session && (
+                    <select
+                      aria-label="담당자"
+                      className={selectFieldClass}
+                      value={editForm.assigneeId ?? ""}
+                      onChange={(e) =>
+                        setEditForm((prev) => ({ ...prev, assigneeId: e.target.value || null }))
+                      }
+                    >
+                      <option value="">담당자 없음</option>
+                      {assigneeOptions(todo.listId).map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ) : (
+                <p
+                  className={cn(
+                    "text-base leading-relaxed",
+                    todo.completed
+                      ? "line-through text-muted-foreground"
+                      : "text-foreground"
+                  )}
+                >
+                  {todo.text}
+                </p>
+              )}
+              {isSubtaskPanelOpen && (
+                <SubtaskList
+                  subtasks={todo.subtasks}
+                  onChange={(subtasks) => updateSubtasks(todo, subtasks)}
+                  readOnly={!canEdit}
+                />
+              )}
+              {isActivityPanelOpen && (
+                <TodoActivityPanel
+                  todo={todo}
+                  loadActivity={loadTodoActivity}
+                  onRevert={(entry, patch) => revertActivity(todo, entry, patch)}
+                  readOnly={!canEdit}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            {isEditing ? (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={cancelEditing}
+                >
+                  취소
+                </Button>
+                  <Button
+                  size="sm"
+                  onClick={() => saveEditing(todo.id)}
+                >
+                  저장
+                </Button>
+              </>
+            ) : !canEdit ? (
+              <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                <Eye className="h-3.5 w-3.5" />
+                보기 전용
+              </span>
+            ) : (
+              <>
+                {canReorder && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label="위로 옮기기"
+                      disabled={siblings[0]?.id === todo.id}
+                      onClick={() => moveTodoBy(todo, siblings, -1)}
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label="아래로 옮기기"
+                      disabled={siblings[siblings.length - 1]?.id === todo.id}
+                      onClick={() => moveTodoBy(todo, siblings, 1)}
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => startEditing(todo)}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                  편집
+                </Button>
+                {todo.completed && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => archiveTodo(todo)}
+                  >
+                    <Archive className="h-3.5 w-3.5" />
+                    보관
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => deleteTodo(todo.id)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  삭제
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 p-4 md:p-8">
         <div className="mx-auto flex max-w-lg flex-col gap-6">
@@ -609,20 +2724,57 @@ export default function Home() {
        {/* 우측 상단 절대 위치: 로그인 정보 + 로그아웃 버튼 */}
        <div className="flex items-center justify-end gap-3">
           <div className="text-right">
-            <p className="text-xs text-muted-foreground">로그인 계정</p>
+            <p className="flex items-center justify-end gap-1.5 text-xs text-muted-foreground">
+              {session && (
+                <span
+                  title={
+                    realtimeStatus === "live"
+                      ? "실시간 동기화 중"
+                      : "실시간 동기화를 사용할 수 없어 탭 간 동기화만 동작합니다"
+                  }
+                  className={cn(
+                    "inline-block h-2 w-2 rounded-full",
+                    realtimeStatus === "live"
+                      ? "bg-emerald-500"
+                      : realtimeStatus === "connecting"
+                        ? "bg-amber-400"
+                        : "bg-slate-400"
+                  )}
+                />
+              )}
+              {session ? "로그인 계정" : "오프라인 모드"}
+            </p>
             <p className="text-sm font-semibold text-foreground dark:text-slate-50">
-              {session?.user?.email}
+              {session?.user?.email ?? "이 브라우저에 저장됩니다"}
             </p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleSignOut}
-            className="gap-2 hover:bg-red-50 hover:text-red-700 hover:border-red-300 dark:hover:bg-red-950/30 dark:hover:text-red-400 dark:hover:border-red-800 transition-colors whitespace-nowrap"
-          >
-            <LogOut className="h-4 w-4" />
-            로그아웃
-          </Button>
+          {isAuthenticated && (
+            <Button variant="outline" size="sm" className="gap-2 whitespace-nowrap" asChild>
+              <Link href="/analytics">
+                <BarChart3 className="h-4 w-4" />
+                통계
+              </Link>
+            </Button>
+          )}
+          {session && (
+            <Button variant="outline" size="sm" className="gap-2 whitespace-nowrap" asChild>
+              <Link href="/settings">
+                <KeyRound className="h-4 w-4" />
+                API 토큰
+              </Link>
+            </Button>
+          )}
+          {session && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSignOut}
+              className="gap-2 hover:bg-red-50 hover:text-red-700 hover:border-red-300 dark:hover:bg-red-950/30 dark:hover:text-red-400 dark:hover:border-red-800 transition-colors whitespace-nowrap"
+            >
+              <LogOut className="h-4 w-4" />
+              로그아웃
+            </Button>
+          )}
         </div>
 
 
@@ -643,6 +2795,33 @@ export default function Home() {
                         style={{ width: `${progressPercentage}%` }}
                       />
                     </div>
+                    <div className="space-y-2 pt-2">
+                      <select
+                        aria-label="진행률 계산 방식"
+                        className={cn(selectFieldClass, "h-8 text-xs")}
+                        value={preferences.progressMode}
+                        onChange={(e) =>
+                          updatePreferences({
+                            progressMode: e.target.value as ProgressMode,
+                          })
+                        }
+                      >
+                        {progressModeOptions.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Checkbox
+                          checked={preferences.autoCompleteParent}
+                          onCheckedChange={(checked) =>
+                            updatePreferences({ autoCompleteParent: checked === true })
+                          }
+                        />
+                        체크리스트를 모두 끝내면 할일 자동 완료
+                      </label>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -654,7 +2833,7 @@ export default function Home() {
                     <p className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">
                       {completedCount}개
                     </p>
-                    <p className="text-xs text-muted-foreground">전체 {todos.length}개 중</p>
+                    <p className="text-xs text-muted-foreground">전체 {statTodos.length}개 중</p>
                   </div>
                 </CardContent>
               </Card>
@@ -675,19 +2854,44 @@ export default function Home() {
                 <CardContent className="pt-5">
                   <div className="space-y-2">
                     <p className="text-sm font-medium text-muted-foreground">전체 할일</p>
-                    <p className="text-2xl font-bold">{todos.length}개</p>
+                    <p className="text-2xl font-bold">{statTodos.length}개</p>
                     <p className="text-xs text-muted-foreground">모든 카테고리 포함</p>
                   </div>
                 </CardContent>
               </Card>
             </div>
 
+            {isManagingCategories && (
+              <CategoryManager
+                categories={categories}
+                usage={categoryUsage}
+                onCreate={createCategory}
+                onUpdate={updateCategory}
+                onMove={moveCategory}
+                onRemove={removeCategory}
+                onClose={() => setIsManagingCategories(false)}
+              />
+            )}
+
             <Card className="shadow-lg">
               <CardHeader className="pb-3">
-                <CardTitle className="text-base">카테고리별 현황</CardTitle>
-                <CardDescription className="text-xs">
-                  각 카테고리별 할일 진행 상황을 확인하세요
-                </CardDescription>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1.5">
+                    <CardTitle className="text-base">카테고리별 현황</CardTitle>
+                    <CardDescription className="text-xs">
+                      각 카테고리별 할일 진행 상황을 확인하세요
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1 px-2 text-xs"
+                    onClick={() => setIsManagingCategories((prev) => !prev)}
+                  >
+                    <Settings2 className="h-3.5 w-3.5" />
+                    관리
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent className="space-y-3">
                 {categoryOptions.map((category) => {
@@ -702,27 +2906,117 @@ export default function Home() {
                       className="rounded-lg border border-dashed bg-card/70 p-3 text-sm"
                     >
                       <div className="flex items-center justify-between">
-                        <span>{category.label}</span>
+                        <span className="flex items-center gap-2">
+                          <span
+                            className="inline-block h-2.5 w-2.5 rounded-full"
+                            style={{ backgroundColor: category.color }}
+                          />
+                          {category.label}
+                        </span>
                         <span className="text-xs text-muted-foreground">{catProgress}%</span>
                       </div>
                       <div className="mt-2 w-full bg-secondary rounded-full h-1.5">
                         <div
-                          className="bg-primary h-1.5 rounded-full transition-all duration-300"
-                          style={{ width: `${catProgress}%` }}
+                          className="h-1.5 rounded-full transition-all duration-300"
+                          style={{ width: `${catProgress}%`, backgroundColor: category.color }}
                         />
                       </div>
                       <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
-                        <span>완료: {stats.completed}</span>
-                        <span>전체: {stats.total}</span>
+                        <span>완료: {formatCount(stats.completed)}</span>
+                        <span>전체: {formatCount(stats.total)}</span>
                       </div>
                     </div>
                   )
                 })}
               </CardContent>
             </Card>
+
+            <SmartListsPanel
+              activeFilter={filter}
+              counts={smartListCounts}
+              onSelect={selectSmartList}
+            />
+
+            {sharedListRepository && session && (
+              <SharedListsPanel
+                lists={sharedLists}
+                invitations={receivedInvitations}
+                activeListId={listFilter}
+                currentUserId={userId}
+                onSelect={selectSharedList}
+                onCreate={createSharedList}
+                onDelete={deleteSharedList}
+                onInvite={inviteToSharedList}
+                onCancelInvitation={cancelListInvitation}
+                onChangeRole={changeMemberRole}
+                onRemoveMember={removeListMember}
+                onAcceptInvitation={acceptListInvitation}
+                onDeclineInvitation={declineListInvitation}
+              />
+            )}
+
+            <SavedViewsPanel
+              views={savedViews}
+              activeViewId={activeSavedViewId}
+              onApply={(view) => applyViewState(view.state)}
+              onSave={saveCurrentView}
+              onDelete={deleteSavedView}
+              onCopyLink={copyViewLink}
+            />
+
+            <TimeZoneSettings timeZone={timeZone} onChange={changeTimeZone} />
+
+            <ReminderSettings
+              settings={userSettings}
+              permission={notificationPermission}
+              onToggle={toggleReminders}
+              onUpdateSettings={updateReminderSettings}
+            />
+
+            <TodoBinPanel
+              archived={archivedTodos}
+              trashed={trashedTodos}
+              preferences={preferences}
+              onUpdatePreferences={updatePreferences}
+              settings={userSettings}
+              onUpdateSettings={updateRetentionSettings}
+              onUnarchive={unarchiveTodo}
+              onTrash={(todo) => deleteTodo(todo.id)}
+              onRestore={restoreTodo}
+              onPurge={(todo) => purgeTodos([todo], "할일을 완전히 삭제")}
+              onEmptyTrash={() =>
+                purgeTodos(trashedTodos, `휴지통의 할일 ${trashedTodos.length}개를 완전히 삭제`)
+              }
+            />
           </div>
 
           <div className="space-y-6">
+            {syncState && (!syncState.isOnline || syncState.pendingIds.length > 0) && (
+              <div className="flex items-center gap-3 rounded-lg border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-800 shadow-sm dark:border-sky-900/40 dark:bg-sky-950/30 dark:text-sky-100">
+                {syncState.isOnline ? (
+                  <RefreshCw
+                    className={cn("h-4 w-4", syncState.isSyncing && "animate-spin")}
+                  />
+                ) : (
+                  <CloudOff className="h-4 w-4" />
+                )}
+                <p className="flex-1">
+                  {syncState.isOnline
+                    ? `동기화 대기 중인 변경 ${syncState.pendingIds.length}건을 서버에 반영하고 있습니다.`
+                    : "오프라인 상태입니다. 변경 사항은 이 기기에 저장되고 연결되면 순서대로 동기화됩니다."}
+                </p>
+                {syncState.isOnline && !syncState.isSyncing && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => todoRepository.sync?.flush()}
+                  >
+                    다시 시도
+                  </Button>
+                )}
+              </div>
+            )}
             {feedback && (
               <div
                 className={cn(
@@ -733,14 +3027,26 @@ export default function Home() {
                 )}
               >
                 <p>{feedback.message}</p>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-7 px-2 text-xs"
-                  onClick={() => setFeedback(null)}
-                >
-                  닫기
-                </Button>
+                <div className="flex shrink-0 items-center gap-1">
+                  {feedback.action && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={feedback.action.run}
+                    >
+                      {feedback.action.label}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setFeedback(null)}
+                  >
+                    닫기
+                  </Button>
+                </div>
               </div>
             )}
             <Card className="shadow-lg">
@@ -759,7 +3065,55 @@ export default function Home() {
                 value={form.text}
                 onChange={(e) => handleCreateChange("text", e.target.value)}
                 onKeyDown={handleKeyPress}
+                aria-describedby="todo-quick-add-hint"
               />
+              {quickAdd.tokens.length > 0 ? (
+                <div
+                  id="todo-quick-add-hint"
+                  className="flex flex-wrap items-center gap-1.5 text-xs"
+                  aria-live="polite"
+                >
+                  <Sparkles className="h-3.5 w-3.5 text-primary" />
+                  <span className="font-medium">{quickAdd.text || "(내용 없음)"}</span>
+                  {quickAdd.category && (
+                    <span className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5">
+                      <span
+                        className="inline-block h-2 w-2 rounded-full"
+                        style={{
+                          backgroundColor:
+                            categoryColors[quickAdd.category] ?? FALLBACK_CATEGORY_COLOR,
+                        }}
+                      />
+                      {quickAdd.category}
+                    </span>
+                  )}
+                  {quickAdd.priority && (
+                    <span
+                      className={cn(
+                        "rounded-full px-2 py-0.5",
+                        priorityBadgeStyles[quickAdd.priority]
+                      )}
+                    >
+                      {priorityOptions.find((p) => p.value === quickAdd.priority)?.label}
+                    </span>
+                  )}
+                  {quickAdd.dueDate && (
+                    <span className="rounded-full border px-2 py-0.5">
+                      마감 {formatDeadline(quickAdd.dueDate, form.dueTime)}
+                    </span>
+                  )}
+                  {quickAdd.recurrence && (
+                    <span className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5">
+                      <Repeat className="h-3 w-3" />
+                      {describeRecurrence(quickAdd.recurrence)}
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <p id="todo-quick-add-hint" className="text-xs text-muted-foreground">
+                  예: 내일 보고서 제출 #업무 !high · pay rent every 1st @personal
+                </p>
+              )}
             </div>
 
             <div className="grid gap-4 md:grid-cols-3">
@@ -797,13 +3151,92 @@ export default function Home() {
               </div>
               <div className="space-y-2">
                 <Label htmlFor="todo-due">마감일</Label>
-                <Input
-                  id="todo-due"
-                  type="date"
-                  value={form.dueDate}
-                  onChange={(e) => handleCreateChange("dueDate", e.target.value)}
-                />
+                <div className="flex gap-2">
+                  <Input
+                    id="todo-due"
+                    type="date"
+                    value={form.dueDate}
+                    onChange={(e) => handleCreateChange("dueDate", e.target.value)}
+                  />
+                  <Input
+                    type="time"
+                    aria-label="마감 시각"
+                    className="w-28"
+                    disabled={!(quickAdd.dueDate ?? form.dueDate)}
+                    value={form.dueTime ?? ""}
+                    onChange={(e) => handleCreateChange("dueTime", e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="todo-recurrence">반복</Label>
+              <RecurrenceEditor
+                id="todo-recurrence"
+                value={form.recurrence}
+                onChange={(rule) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    recurrence: toTodoRecurrence(rule, prev.recurrence),
+                  }))
+                }
+              />
+            </div>
+
+            {sharedListRepository && session && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="todo-list">목록</Label>
+                  <select
+                    id="todo-list"
+                    className={selectFieldClass}
+                    value={form.listId ?? ""}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        listId: e.target.value || null,
+                        assigneeId: null,
+                      }))
+                    }
+                  >
+                    <option value="">개인 할일</option>
+                    {editableLists.map((list) => (
+                      <option key={list.id} value={list.id}>
+                        {list.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="todo-assignee">담당자</Label>
+                  <select
+                    id="todo-assignee"
+                    className={selectFieldClass}
+                    value={form.assigneeId ?? ""}
+                    onChange={(e) =>
+                      setForm((prev) => ({ ...prev, assigneeId: e.target.value || null }))
+                    }
+                  >
+                    <option value="">담당자 없음</option>
+                    {assigneeOptions(form.listId).map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="todo-reminders">알림</Label>
+              <ReminderPicker
+                id="todo-reminders"
+                value={form.reminders ?? []}
+                hasDueDate={Boolean(quickAdd.dueDate ?? form.dueDate)}
+                onChange={(reminders) => setForm((prev) => ({ ...prev, reminders }))}
+              />
             </div>
 
             <Button onClick={addTodo} className="w-full gap-2" disabled={isSubmitting}>
@@ -813,21 +3246,109 @@ export default function Home() {
           </CardContent>
             </Card>
 
+            {isImporting && (
+              <ImportWizard
+                categories={categories.map((category) => category.name)}
+                existingTodos={todos}
+                priorityLabels={priorityLabels}
+                progress={importProgress}
+                onImport={importTodos}
+                onClose={() => setIsImporting(false)}
+              />
+            )}
+
             <Card className="shadow-lg">
               <CardHeader>
-                <CardTitle>
-                  할일 목록 {filteredAndSortedTodos.length > 0 && `(${filteredAndSortedTodos.length})`}
-                </CardTitle>
-                <CardDescription>
-                  {todos.length === 0
-                    ? "아직 할일이 없습니다. 위에서 새 할일을 추가해보세요!"
-                    : `${completedCount}개 완료됨`}
-                </CardDescription>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="space-y-1.5">
+                    <CardTitle>
+                      할일 목록 {filteredAndSortedTodos.length > 0 && `(${filteredAndSortedTodos.length})`}
+                    </CardTitle>
+                    <CardDescription>
+                      {activeTodos.length === 0
+                        ? "아직 할일이 없습니다. 위에서 새 할일을 추가해보세요!"
+                        : `${completedCount}개 완료됨`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      variant={isImporting ? "secondary" : "outline"}
+                      size="sm"
+                      className="h-8 gap-1"
+                      aria-pressed={isImporting}
+                      disabled={!isAuthenticated}
+                      onClick={() => setIsImporting((prev) => !prev)}
+                    >
+                      <FileUp className="h-3.5 w-3.5" />
+                      가져오기
+                    </Button>
+                    <ExportMenu
+                      allCount={todos.length - trashedTodos.length}
+                      viewCount={visibleTodos.length}
+                      onExport={exportTodos}
+                    />
+                    {layout === "list" && activeTodos.length > 0 && (
+                      <Button
+                        variant={isSelecting ? "secondary" : "outline"}
+                        size="sm"
+                        className="h-8 gap-1"
+                        aria-pressed={isSelecting}
+                        onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+                      >
+                        <SquareCheck className="h-3.5 w-3.5" />
+                        선택
+                      </Button>
+                    )}
+                    <div className="flex rounded-md border p-0.5" role="group" aria-label="보기 방식">
+                      {layoutOptions.map((option) => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          aria-pressed={layout === option.value}
+                          onClick={() => setLayout(option.value)}
+                          className={cn(
+                            "rounded px-3 py-1 text-xs font-medium",
+                            layout === option.value
+                              ? "bg-primary text-primary-foreground"
+                              : "text-muted-foreground hover:text-foreground"
+                          )}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent className="space-y-4">
             {/* 필터 및 정렬 */}
-            {todos.length > 0 && (
+            {activeTodos.length > 0 && (
               <div className="flex flex-wrap gap-3 p-4 bg-muted/50 rounded-lg">
+                <div className="w-full space-y-1">
+                  <div className="relative">
+                    <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      type="search"
+                      aria-label="할일 검색"
+                      placeholder="검색 또는 조건 입력: 보고서 priority:high category:업무 due:<2026-11-01 is:open"
+                      value={searchText}
+                      onChange={(e) => setSearchText(e.target.value)}
+                      className="pl-9"
+                    />
+                  </div>
+                  {searchQuery.errors.length > 0 ? (
+                    <p className="text-xs text-red-600 dark:text-red-400">
+                      {searchQuery.errors.join(" · ")}
+                    </p>
+                  ) : (
+                    searchText === "" && (
+                      <p className="text-xs text-muted-foreground">
+                        조건: priority:, category:, due:(&lt; &gt; today none), is:(open done
+                        overdue recurring), has:(subtasks due). 앞에 -를 붙이면 제외합니다.
+                      </p>
+                    )
+                  )}
+                </div>
                 <div className="flex items-center gap-2">
                   <Filter className="h-4 w-4 text-muted-foreground" />
                   <Label className="text-sm font-medium">필터:</Label>
@@ -836,11 +3357,18 @@ export default function Home() {
                   <select
                     className={selectFieldClass}
                     value={filter}
-                    onChange={(e) => setFilter(e.target.value as FilterType)}
+                    onChange={(e) => changeFilter(e.target.value as FilterType)}
                   >
                     <option value="all">전체</option>
                     <option value="pending">미완료</option>
                     <option value="completed">완료</option>
+                    <optgroup label="스마트 목록">
+                      {smartListOptions.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </optgroup>
                   </select>
                   <select
                     className={selectFieldClass}
@@ -854,6 +3382,33 @@ export default function Home() {
                       </option>
                     ))}
                   </select>
+                  {sharedLists.length > 0 && (
+                    <select
+                      aria-label="목록"
+                      className={selectFieldClass}
+                      value={listFilter}
+                      onChange={(e) => setListFilter(e.target.value)}
+                    >
+                      <option value="all">모든 목록</option>
+                      <option value="personal">개인 할일</option>
+                      {sharedLists.map((list) => (
+                        <option key={list.id} value={list.id}>
+                          {list.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {session && (
+                    <select
+                      aria-label="담당자"
+                      className={selectFieldClass}
+                      value={assigneeFilter}
+                      onChange={(e) => setAssigneeFilter(e.target.value as AssigneeFilterType)}
+                    >
+                      <option value="all">모든 담당자</option>
+                      <option value="me">나에게 배정됨</option>
+                    </select>
+                  )}
                 </div>
                 <div className="flex items-center gap-2 ml-auto">
                   <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
@@ -867,6 +3422,23 @@ export default function Home() {
                     <option value="priority">우선순위</option>
                     <option value="category">카테고리</option>
                     <option value="name">이름</option>
+                    <option value="manual">직접 정렬</option>
+                    <option value="completedAt">최근 완료</option>
+                  </select>
+                  <Layers className="h-4 w-4 text-muted-foreground" />
+                  <select
+                    aria-label="묶기"
+                    className={selectFieldClass}
+                    value={groupKey}
+                    onChange={(e) => setGroupBy(e.target.value as GroupType)}
+                  >
+                    {groupOptions
+                      .filter((option) => layout !== "board" || option.value !== "none")
+                      .map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.value === "none" ? option.label : `${option.label}별`}
+                        </option>
+                      ))}
                   </select>
                 </div>
               </div>
@@ -876,250 +3448,78 @@ export default function Home() {
               <div className="text-center py-12 text-slate-500 dark:text-slate-400">
                 데이터를 불러오는 중입니다...
               </div>
-            ) : todos.length === 0 ? (
+            ) : activeTodos.length === 0 ? (
               <div className="text-center py-12 text-slate-500 dark:text-slate-400">
                 <p className="text-lg">할일이 없습니다</p>
                 <p className="text-sm mt-2">새로운 할일을 추가해보세요!</p>
               </div>
+            ) : layout === "calendar" ? (
+              <TodoCalendar
+                todos={filteredAndSortedTodos}
+                categoryColors={categoryColors}
+                now={now}
+                onReschedule={rescheduleTodo}
+                canMove={(todo) => canEditTodo(todo, sharedLists)}
+              />
+            ) : layout === "board" && todoGroups ? (
+              <TodoBoard
+                columns={todoGroups}
+                categoryColors={categoryColors}
+                priorityLabels={priorityLabels}
+                now={now}
+                onMove={moveTodoToColumn}
+                canMove={(todo) => canEditTodo(todo, sharedLists)}
+              />
             ) : (
               <div className="space-y-3">
+                {isSelecting && (
+                  <BulkActionBar
+                    selectedCount={selectedTodos.length}
+                    visibleCount={selectableTodos.length}
+                    categoryOptions={categoryOptions}
+                    priorityOptions={priorityOptions}
+                    onToggleAll={toggleSelectAll}
+                    onSetCompleted={(completed) =>
+                      bulkUpdate({ completed }, completed ? "완료 처리" : "미완료 처리")
+                    }
+                    onSetCategory={(category) =>
+                      bulkUpdate({ category }, `'${category}' 카테고리로 이동`)
+                    }
+                    onSetPriority={(priority) =>
+                      bulkUpdate({ priority }, `우선순위 '${priorityLabels[priority]}'으로 변경`)
+                    }
+                    onSetDueDate={(dueDate) =>
+                      bulkUpdate({ dueDate }, dueDate ? "마감일 변경" : "마감일 삭제")
+                    }
+                    onDelete={bulkDelete}
+                    onClose={stopSelecting}
+                  />
+                )}
                 {filteredAndSortedTodos.length === 0 ? (
                   <div className="text-center py-12 text-slate-500 dark:text-slate-400">
                     <p className="text-lg">필터 조건에 맞는 할일이 없습니다</p>
                     <p className="text-sm mt-2">필터를 변경해보세요</p>
                   </div>
                 ) : (
-                  filteredAndSortedTodos.map((todo) => {
-                  const isEditing = editingId === todo.id
-                  const priorityLabel =
-                    priorityOptions.find((p) => p.value === todo.priority)
-                      ?.label ?? "보통"
-
-                  return (
-                    <div
-                      key={todo.id}
-                      className="rounded-lg border bg-card p-4 shadow-sm"
-                    >
-                      <div className="flex flex-col gap-3">
-                        <div className="flex items-start gap-3">
-                          <Checkbox
-                            checked={todo.completed}
-                            onCheckedChange={() => toggleTodo(todo.id, todo.completed)}
-                            className="mt-1"
-                          />
-                          <div className="flex-1 space-y-2">
-                            <div className="flex flex-wrap gap-2">
-                              {(["priority", "category", "dueDate"] as const).map(
-                                (fieldKey) => {
-                                  const isFieldEditing =
-                                    fieldEditing?.id === todo.id &&
-                                    fieldEditing.field === fieldKey
-                                  const fieldLabel =
-                                    fieldKey === "priority"
-                                      ? "우선순위"
-                                      : fieldKey === "category"
-                                        ? "카테고리"
-                                        : "마감"
-                                  const fieldValue =
-                                    fieldKey === "priority"
-                                      ? priorityLabel
-                                      : fieldKey === "category"
-                                        ? todo.category
-                                        : formattedDueDate(todo.dueDate)
-
-                                  return (
-                                    <div key={fieldKey} className="min-w-[140px]">
-                                      {isFieldEditing ? (
-                                        <div className="flex flex-wrap items-center gap-2 rounded-full border bg-muted/60 px-3 py-1.5 text-xs">
-                                          {fieldKey === "category" && (
-                                            <select
-                                              className="flex-1 bg-transparent text-xs outline-none"
-                                              value={fieldEditValue}
-                                              onChange={(e) => setFieldEditValue(e.target.value)}
-                                            >
-                                              {categoryOptions.map((option) => (
-                                                <option key={option.value} value={option.value}>
-                                                  {option.label}
-                                                </option>
-                                              ))}
-                                            </select>
-                                          )}
-                                          {fieldKey === "priority" && (
-                                            <select
-                                              className="flex-1 bg-transparent text-xs outline-none"
-                                              value={fieldEditValue}
-                                              onChange={(e) =>
-                                                setFieldEditValue(e.target.value as Priority)
-                                              }
-                                            >
-                                              {priorityOptions.map((option) => (
-                                                <option key={option.value} value={option.value}>
-                                                  {option.label}
-                                                </option>
-                                              ))}
-                                            </select>
-                                          )}
-                                          {fieldKey === "dueDate" && (
-                                            <Input
-                                              type="date"
-                                              value={fieldEditValue}
-                                              onChange={(e) => setFieldEditValue(e.target.value)}
-                                              className="h-6 flex-1 border-none bg-transparent p-0 text-xs focus-visible:ring-0"
-                                            />
-                                          )}
-                                          <div className="flex items-center gap-1">
-                                            <Button
-                                              size="sm"
-                                              className="h-6 px-2 text-xs"
-                                              onClick={saveFieldEditing}
-                                            >
-                                              <Check className="h-3 w-3" />
-                                            </Button>
-                                            <Button
-                                              variant="ghost"
-                                              size="sm"
-                                              className="h-6 px-2 text-xs"
-                                              onClick={cancelFieldEditing}
-                                            >
-                                              <X className="h-3 w-3" />
-                                            </Button>
-                                          </div>
-                                        </div>
-                                      ) : (
-                                        <button
-                                          type="button"
-                                          onClick={() => startFieldEditing(todo, fieldKey)}
-                                          disabled={editingId === todo.id}
-                                          className={cn(
-                                            "group inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium transition-colors hover:border-primary hover:bg-primary/5",
-                                            fieldKey === "priority" && priorityBadgeStyles[todo.priority]
-                                          )}
-                                        >
-                                          <span className="text-muted-foreground">{fieldLabel}</span>
-                                          <span className="font-semibold">{fieldValue}</span>
-                                          <Edit3 className="h-3.5 w-3.5 opacity-0 transition-opacity group-hover:opacity-100" />
-                                        </button>
-                                      )}
-                                    </div>
-                                  )
-                                }
-                              )}
-                            </div>
-                            {isEditing ? (
-                              <div className="space-y-3">
-                                <Input
-                                  value={editForm.text}
-                                  onChange={(e) =>
-                                    handleEditChange("text", e.target.value)
-                                  }
-                                />
-                                <div className="grid gap-3 md:grid-cols-3">
-                                  <select
-                                    className={selectFieldClass}
-                                    value={editForm.category}
-                                    onChange={(e) =>
-                                      handleEditChange(
-                                        "category",
-                                        e.target.value
-                                      )
-                                    }
-                                  >
-                                    {categoryOptions.map((option) => (
-                                      <option
-                                        key={option.value}
-                                        value={option.value}
-                                      >
-                                        {option.label}
-                                      </option>
-                                    ))}
-                                  </select>
-                                  <select
-                                    className={selectFieldClass}
-                                    value={editForm.priority}
-                                    onChange={(e) =>
-                                      handleEditChange(
-                                        "priority",
-                                        e.target.value as Priority
-                                      )
-                                    }
-                                  >
-                                    {priorityOptions.map((option) => (
-                                      <option
-                                        key={option.value}
-                                        value={option.value}
-                                      >
-                                        {option.label}
-                                      </option>
-                                    ))}
-                                  </select>
-                                  <Input
-                                    type="date"
-                                    value={editForm.dueDate}
-                                    onChange={(e) =>
-                                      handleEditChange("dueDate", e.target.value)
-                                    }
-                                  />
-                                </div>
-                              </div>
-                            ) : (
-                              <p
-                                className={cn(
-                                  "text-base leading-relaxed",
-                                  todo.completed
-                                    ? "line-through text-muted-foreground"
-                                    : "text-foreground"
-                                )}
-                              >
-                                {todo.text}
-                              </p>
-                            )}
-                          </div>
-                        </div>
-
-                        <div className="flex items-center justify-end gap-2">
-                          {isEditing ? (
-                            <>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={cancelEditing}
-                              >
-                                취소
-                              </Button>
-                                <Button
-                                size="sm"
-                                onClick={() => saveEditing(todo.id)}
-                              >
-                                저장
-                              </Button>
-                            </>
-                          ) : (
-                            <>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="gap-1"
-                                onClick={() => startEditing(todo)}
-                              >
-                                <Pencil className="h-3.5 w-3.5" />
-                                편집
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="text-destructive hover:text-destructive"
-                                onClick={() => deleteTodo(todo.id)}
-                              >
-                                <Trash2 className="h-3.5 w-3.5" />
-                                삭제
-                              </Button>
-                            </>
+                  groupedTodos ? (
+                    groupedTodos.map((group) => (
+                      <section key={group.key} className="space-y-3">
+                        <h3 className="flex items-center gap-2 pt-2 text-sm font-semibold text-muted-foreground">
+                          {group.color && (
+                            <span
+                              className="inline-block h-2.5 w-2.5 rounded-full"
+                              style={{ backgroundColor: group.color }}
+                            />
                           )}
-                        </div>
-                      </div>
-                    </div>
+                          {group.label}
+                          <span className="text-xs font-normal">{group.todos.length}</span>
+                        </h3>
+                        {group.todos.map(renderTodoRow)}
+                      </section>
+                    ))
+                  ) : (
+                    filteredAndSortedTodos.map(renderTodoRow)
                   )
-                  })
                 )}
               </div>
             )}
@@ -0,0 +1,230 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { Session } from "@supabase/supabase-js"
+import Link from "next/link"
+import { ArrowLeft, Copy, KeyRound, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { accessTokenRepository } from "@/lib/repositories"
+import { supabase } from "@/lib/supabaseClient"
+import type { AccessToken } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+const formatTimestamp = (value: string | null) =>
+  value
+    ? new Intl.DateTimeFormat("ko-KR", { dateStyle: "medium", timeStyle: "short" }).format(
+        new Date(value)
+      )
+    : "없음"
+
+export default function SettingsPage() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [hasCheckedSession, setHasCheckedSession] = useState(false)
+  const [tokens, setTokens] = useState<AccessToken[]>([])
+  const [newName, setNewName] = useState("")
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(
+    null
+  )
+
+  const reportError = useCallback((text: string, error?: unknown) => {
+    if (error) console.error(text, error)
+    setMessage({ type: "error", text })
+  }, [])
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setHasCheckedSession(true)
+    })
+  }, [])
+
+  const loadTokens = useCallback(async () => {
+    if (!accessTokenRepository) return
+    const { data, error } = await accessTokenRepository.list()
+    if (error) {
+      reportError("토큰 목록을 불러오지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+    setTokens(data)
+  }, [reportError])
+
+  useEffect(() => {
+    if (session) void loadTokens()
+  }, [session, loadTokens])
+
+  const createToken = async () => {
+    if (!accessTokenRepository || newName.trim() === "") return
+    const { data, error } = await accessTokenRepository.create(newName.trim())
+    if (error) {
+      reportError("토큰을 만들지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+    setTokens((prev) => [data.token, ...prev])
+    setCreatedSecret(data.secret)
+    setNewName("")
+    setMessage(null)
+  }
+
+  const revokeToken = async (token: AccessToken) => {
+    if (!accessTokenRepository) return
+    const { error } = await accessTokenRepository.revoke(token.id)
+    if (error) {
+      reportError("토큰을 폐기하지 못했습니다. 잠시 후 다시 시도해주세요.", error)
+      return
+    }
+    setTokens((prev) =>
+      prev.map((item) =>
+        item.id === token.id ? { ...item, revokedAt: new Date().toISOString() } : item
+      )
+    )
+    setMessage({ type: "success", text: `"${token.name}" 토큰을 폐기했습니다.` })
+  }
+
+  const copySecret = async () => {
+    if (!createdSecret) return
+    try {
+      await navigator.clipboard.writeText(createdSecret)
+      setMessage({ type: "success", text: "토큰을 복사했습니다." })
+    } catch (error) {
+      reportError("토큰을 복사하지 못했습니다. 직접 선택해서 복사해주세요.", error)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 p-4 md:p-8">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <Button variant="ghost" size="sm" className="gap-2" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+            할일 목록으로
+          </Link>
+        </Button>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              개인 액세스 토큰
+            </CardTitle>
+            <CardDescription>
+              스크립트나 CLI 에서 <code>/api/todos</code> 를 부를 때{" "}
+              <code>Authorization: Bearer &lt;토큰&gt;</code> 헤더로 보냅니다. 토큰은 내 계정의
+              모든 할일을 읽고 쓸 수 있으니 쓰지 않는 토큰은 폐기하세요.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {message && (
+              <p
+                className={cn(
+                  "rounded-md border px-3 py-2 text-sm",
+                  message.type === "error"
+                    ? "border-destructive/40 bg-destructive/10 text-destructive"
+                    : "border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-800 dark:bg-emerald-950/30 dark:text-emerald-400"
+                )}
+              >
+                {message.text}
+              </p>
+            )}
+
+            {!accessTokenRepository ? (
+              <p className="text-sm text-muted-foreground">
+                API 는 Supabase 백엔드에서만 사용할 수 있습니다.
+              </p>
+            ) : !hasCheckedSession ? null : !session ? (
+              <p className="text-sm text-muted-foreground">
+                로그인한 뒤에 토큰을 만들 수 있습니다.
+              </p>
+            ) : (
+              <>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="token-name">토큰 이름</Label>
+                    <Input
+                      id="token-name"
+                      placeholder="예: 노트북 CLI"
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") void createToken()
+                      }}
+                    />
+                  </div>
+                  <Button className="gap-2" disabled={newName.trim() === ""} onClick={createToken}>
+                    <Plus className="h-4 w-4" />
+                    만들기
+                  </Button>
+                </div>
+
+                {createdSecret && (
+                  <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-3 dark:border-amber-800 dark:bg-amber-950/30">
+                    <p className="text-sm font-medium">
+                      지금만 볼 수 있습니다. 안전한 곳에 복사해 두세요.
+                    </p>
+                    <div className="flex gap-2">
+                      <code className="flex-1 break-all rounded bg-background px-2 py-1.5 text-xs">
+                        {createdSecret}
+                      </code>
+                      <Button variant="outline" size="sm" className="gap-1" onClick={copySecret}>
+                        <Copy className="h-3.5 w-3.5" />
+                        복사
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {tokens.length === 0 ? (
+                  <p className="py-4 text-center text-sm text-muted-foreground">
+                    아직 만든 토큰이 없습니다.
+                  </p>
+                ) : (
+                  <ul className="divide-y rounded-md border">
+                    {tokens.map((token) => (
+                      <li key={token.id} className="flex items-center gap-3 px-3 py-2">
+                        <div className="min-w-0 flex-1">
+                          <p
+                            className={cn(
+                              "truncate text-sm font-medium",
+                              token.revokedAt && "text-muted-foreground line-through"
+                            )}
+                          >
+                            {token.name}{" "}
+                            <code className="text-xs font-normal">{token.prefix}…</code>
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            만든 날 {formatTimestamp(token.createdAt)} · 마지막 사용{" "}
+                            {formatTimestamp(token.lastUsedAt)}
+                            {token.revokedAt && ` · 폐기 ${formatTimestamp(token.revokedAt)}`}
+                          </p>
+                        </div>
+                        {!token.revokedAt && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => revokeToken(token)}
+                          >
+                            폐기
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,360 @@
+#!/usr/bin/env node
+/**
+ * /api/todos 를 부르는 명령줄 클라이언트.
+ *
+ *   todo login --url https://todo.example.com --token tvp_...
+ *   todo add "보고서" --category 업무 --priority high --due 2026-11-01
+ *   todo ls --open --sort priority
+ *   todo ls --mine --in <공유 목록 id>
+ *   todo done <id>
+ *   todo rm <id>
+ *
+ * 필터와 정렬은 서버가 목록 화면과 같은 코드(lib/todoList.ts)로 처리합니다.
+ * 컴파일한 JS 가 경로 별칭(@/) 없이 돌도록 lib 에서는 타입만 가져옵니다.
+ */
+import { chmod, mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { homedir } from "node:os"
+import { dirname, join } from "node:path"
+import { parseArgs } from "node:util"
+import type { ApiErrorBody } from "@/lib/api/http"
+import type { Priority, Todo } from "@/lib/types"
+import type { FilterType, SmartListType, SortType } from "@/lib/viewState"
+
+interface CliConfig {
+  url: string
+  token: string
+}
+
+interface TodoPage {
+  data: Todo[]
+  pagination: { total: number; limit: number; offset: number; nextOffset: number | null }
+}
+
+class CliError extends Error {}
+
+const CONFIG_PATH = join(
+  process.env.XDG_CONFIG_HOME ?? join(homedir(), ".config"),
+  "todo-vibe",
+  "config.json"
+)
+
+const PRIORITIES: Priority[] = ["low", "medium", "high"]
+const SORTS: SortType[] = ["date", "priority", "category", "name", "manual", "completedAt"]
+const SMART_LISTS: SmartListType[] = ["today", "overdue", "upcoming", "someday", "completedThisWeek"]
+const PRIORITY_MARKS: Record<Priority, string> = { high: "!!!", medium: "!! ", low: "!  " }
+// 목록에 보여주는 id 길이. 명령에는 겹치지 않는 앞부분만 줘도 됩니다.
+const SHORT_ID_LENGTH = 8
+
+const USAGE = `사용법: todo <명령> [옵션]
+
+  login --url <주소> --token <토큰>   API 주소와 개인 액세스 토큰을 저장합니다
+  logout                             저장한 토큰을 지웁니다
+  ls [--open | --done | --list today|overdue|upcoming|someday|completedThisWeek]
+     [--category <이름>] [--sort date|priority|category|name|manual|completedAt] [--search <검색어>]
+     [--in personal|<공유 목록 id>] [--mine] [--archived | --trash] [--limit <개수>] [--json]
+  add <내용> [--category <이름>] [--priority low|medium|high] [--due YYYY-MM-DD] [--time HH:MM]
+     [--in <공유 목록 id>]
+  show <id>
+  edit <id> [--text <내용>] [--category <이름>] [--priority <값>] [--due YYYY-MM-DD|""] [--time HH:MM|""]
+  done <id>                          완료로 표시합니다 (반복 할일은 다음 회차를 만듭니다)
+  undone <id>                        미완료로 되돌립니다
+  rm <id> [--permanent]              휴지통으로 옮기거나 완전히 지웁니다
+
+TODO_VIBE_URL, TODO_VIBE_TOKEN 환경 변수가 있으면 저장한 설정보다 먼저 씁니다.`
+
+const readConfig = async (): Promise<CliConfig> => {
+  let stored: Partial<CliConfig> = {}
+  try {
+    stored = JSON.parse(await readFile(CONFIG_PATH, "utf8"))
+  } catch {
+    // 아직 login 하지 않았으면 환경 변수만 봅니다.
+  }
+  const url = process.env.TODO_VIBE_URL ?? stored.url
+  const token = process.env.TODO_VIBE_TOKEN ?? stored.token
+  if (!url || !token) {
+    throw new CliError("먼저 todo login --url <주소> --token <토큰> 으로 로그인해주세요.")
+  }
+  return { url, token }
+}
+
+const request = async <T>(
+  config: CliConfig,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<T> => {
+  let response: Response
+  try {
+    response = await fetch(new URL(path, config.url), {
+      method,
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+  } catch (error) {
+    throw new CliError(`${config.url} 에 연결하지 못했습니다: ${(error as Error).message}`)
+  }
+  const payload = await response.json().catch(() => null)
+  if (!response.ok) {
+    const error = (payload as ApiErrorBody | null)?.error
+    const details = error?.details?.map((detail) => `\n  - ${detail}`).join("") ?? ""
+    throw new CliError(`${error?.message ?? `요청이 실패했습니다 (${response.status})`}${details}`)
+  }
+  return payload as T
+}
+
+const formatTodo = (todo: Todo) =>
+  [
+    todo.id.slice(0, SHORT_ID_LENGTH),
+    todo.completed ? "[x]" : "[ ]",
+    PRIORITY_MARKS[todo.priority],
+    `${todo.dueDate}${todo.dueTime ? ` ${todo.dueTime}` : ""}`.padEnd(16),
+    todo.category,
+    todo.text,
+    todo.subtasks.length > 0
+      ? `(${todo.subtasks.filter((subtask) => subtask.completed).length}/${todo.subtasks.length})`
+      : "",
+    todo.recurrence ? "↻" : "",
+    todo.listId ? "(공유)" : "",
+  ]
+    .filter(Boolean)
+    .join("  ")
+
+// 짧은 id 를 받으면 전체 할일에서 앞부분이 같은 하나를 찾습니다.
+const resolveTodo = async (config: CliConfig, id: string | undefined) => {
+  if (!id) throw new CliError("할일 id 를 입력해주세요.")
+  const matches: Todo[] = []
+  for (let offset: number | null = 0; offset !== null; ) {
+    const page: TodoPage = await request<TodoPage>(
+      config,
+      "GET",
+      `/api/todos?scope=all&limit=200&offset=${offset}`
+    )
+    matches.push(...page.data.filter((todo) => todo.id.startsWith(id)))
+    offset = page.pagination.nextOffset
+  }
+  if (matches.length === 0) throw new CliError(`할일을 찾을 수 없습니다: ${id}`)
+  if (matches.length > 1) {
+    throw new CliError(
+      `id 가 ${id} 로 시작하는 할일이 여러 개입니다. 더 길게 입력해주세요:\n${matches.map(formatTodo).join("\n")}`
+    )
+  }
+  return matches[0]
+}
+
+const pickPriority = (value: string | undefined) => {
+  if (value === undefined) return undefined
+  if (!PRIORITIES.includes(value as Priority)) {
+    throw new CliError(`우선순위는 ${PRIORITIES.join(", ")} 중 하나여야 합니다.`)
+  }
+  return value as Priority
+}
+
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+  async login(args) {
+    const { values } = parseArgs({
+      args,
+      options: { url: { type: "string" }, token: { type: "string" } },
+    })
+    if (!values.url || !values.token) throw new CliError("--url 과 --token 이 필요합니다.")
+    const config = { url: values.url, token: values.token }
+    // 저장하기 전에 토큰이 맞는지 확인합니다.
+    await request<TodoPage>(config, "GET", "/api/todos?limit=1")
+    await mkdir(dirname(CONFIG_PATH), { recursive: true })
+    await writeFile(CONFIG_PATH, JSON.stringify(config, null, 2), { mode: 0o600 })
+    await chmod(CONFIG_PATH, 0o600)
+    console.log(`로그인했습니다. 설정을 ${CONFIG_PATH} 에 저장했습니다.`)
+  },
+
+  async logout() {
+    await rm(CONFIG_PATH, { force: true })
+    console.log("저장한 토큰을 지웠습니다. 토큰 자체는 설정 페이지에서 폐기해주세요.")
+  },
+
+  async ls(args) {
+    const { values } = parseArgs({
+      args,
+      options: {
+        open: { type: "boolean" },
+        done: { type: "boolean" },
+        list: { type: "string", short: "l" },
+        category: { type: "string" },
+        in: { type: "string" },
+        mine: { type: "boolean" },
+        sort: { type: "string" },
+        search: { type: "string" },
+        archived: { type: "boolean" },
+        trash: { type: "boolean" },
+        limit: { type: "string" },
+        json: { type: "boolean" },
+      },
+    })
+    if ([values.open, values.done, values.list].filter(Boolean).length > 1) {
+      throw new CliError("--open, --done, --list 는 하나만 쓸 수 있습니다.")
+    }
+    if (values.list && !SMART_LISTS.includes(values.list as SmartListType)) {
+      throw new CliError(`목록은 ${SMART_LISTS.join(", ")} 중 하나여야 합니다.`)
+    }
+    if (values.sort && !SORTS.includes(values.sort as SortType)) {
+      throw new CliError(`정렬은 ${SORTS.join(", ")} 중 하나여야 합니다.`)
+    }
+    const filter: FilterType = values.list
+      ? (values.list as SmartListType)
+      : values.open
+        ? "pending"
+        : values.done
+          ? "completed"
+          : "all"
+    const params = new URLSearchParams({
+      filter,
+      sort: values.sort ?? (filter === "completedThisWeek" ? "completedAt" : "date"),
+      scope: values.trash ? "trash" : values.archived ? "archived" : "active",
+      limit: values.limit ?? "50",
+    })
+    if (values.category) params.set("category", values.category)
+    if (values.search) params.set("q", values.search)
+    if (values.in) params.set("list", values.in)
+    if (values.mine) params.set("assignee", "me")
+
+    const page = await request<TodoPage>(await readConfig(), "GET", `/api/todos?${params}`)
+    if (values.json) {
+      console.log(JSON.stringify(page.data, null, 2))
+      return
+    }
+    if (page.data.length === 0) {
+      console.log("할일이 없습니다.")
+      return
+    }
+    page.data.forEach((todo) => console.log(formatTodo(todo)))
+    if (page.pagination.nextOffset !== null) {
+      console.log(`… ${page.pagination.total - page.data.length}개 더 있습니다. --limit 으로 늘릴 수 있습니다.`)
+    }
+  },
+
+  async add(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        category: { type: "string", short: "c" },
+        priority: { type: "string", short: "p" },
+        due: { type: "string", short: "d" },
+        time: { type: "string", short: "t" },
+        in: { type: "string" },
+      },
+    })
+    const text = positionals.join(" ").trim()
+    if (text === "") throw new CliError("할일 내용을 입력해주세요.")
+    const { data } = await request<{ data: Todo }>(await readConfig(), "POST", "/api/todos", {
+      text,
+      category: values.category,
+      priority: pickPriority(values.priority),
+      dueDate: values.due,
+      dueTime: values.time,
+      listId: values.in,
+    })
+    console.log(`추가했습니다: ${formatTodo(data)}`)
+  },
+
+  async show(args) {
+    const todo = await resolveTodo(await readConfig(), args[0])
+    console.log(formatTodo(todo))
+    todo.subtasks.forEach((subtask) =>
+      console.log(`    ${subtask.completed ? "[x]" : "[ ]"} ${subtask.text}`)
+    )
+    console.log(`    id: ${todo.id}`)
+  },
+
+  async edit(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        text: { type: "string" },
+        category: { type: "string", short: "c" },
+        priority: { type: "string", short: "p" },
+        due: { type: "string", short: "d" },
+        time: { type: "string", short: "t" },
+      },
+    })
+    const config = await readConfig()
+    const todo = await resolveTodo(config, positionals[0])
+    const patch = {
+      text: values.text,
+      category: values.category,
+      priority: pickPriority(values.priority),
+      dueDate: values.due,
+      dueTime: values.time,
+    }
+    if (Object.values(patch).every((value) => value === undefined)) {
+      throw new CliError("바꿀 값을 하나 이상 입력해주세요.")
+    }
+    const { data } = await request<{ data: Todo }>(config, "PATCH", `/api/todos/${todo.id}`, patch)
+    console.log(`수정했습니다: ${formatTodo(data)}`)
+  },
+
+  async done(args) {
+    const config = await readConfig()
+    const todo = await resolveTodo(config, args[0])
+    if (todo.completed) {
+      console.log(`이미 완료한 할일입니다: ${formatTodo(todo)}`)
+      return
+    }
+    const { data, nextOccurrence } = await request<{ data: Todo; nextOccurrence: Todo | null }>(
+      config,
+      "POST",
+      `/api/todos/${todo.id}/toggle`
+    )
+    console.log(`완료했습니다: ${formatTodo(data)}`)
+    if (nextOccurrence) console.log(`다음 회차: ${formatTodo(nextOccurrence)}`)
+  },
+
+  async undone(args) {
+    const config = await readConfig()
+    const todo = await resolveTodo(config, args[0])
+    if (!todo.completed) {
+      console.log(`완료하지 않은 할일입니다: ${formatTodo(todo)}`)
+      return
+    }
+    const { data } = await request<{ data: Todo }>(config, "POST", `/api/todos/${todo.id}/toggle`)
+    console.log(`미완료로 되돌렸습니다: ${formatTodo(data)}`)
+  },
+
+  async rm(args) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: { permanent: { type: "boolean" } },
+    })
+    const config = await readConfig()
+    const todo = await resolveTodo(config, positionals[0])
+    await request(
+      config,
+      "DELETE",
+      `/api/todos/${todo.id}${values.permanent ? "?permanent=true" : ""}`
+    )
+    console.log(
+      `${values.permanent ? "완전히 지웠습니다" : "휴지통으로 옮겼습니다"}: ${formatTodo(todo)}`
+    )
+  },
+}
+
+const main = async () => {
+  const [name, ...args] = process.argv.slice(2)
+  const command = name ? commands[name] : undefined
+  if (!command) {
+    console.log(USAGE)
+    process.exitCode = name && name !== "help" && name !== "--help" ? 1 : 0
+    return
+  }
+  try {
+    await command(args)
+  } catch (error) {
+    console.error(error instanceof CliError || error instanceof TypeError ? error.message : error)
+    process.exitCode = 1
+  }
+}
+
+void main()
@@ -0,0 +1,113 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+
+export interface ChartBar {
+  key: string
+  /** 축 아래에 보이는 짧은 이름 */
+  label: string
+  /** 마우스를 올리면 보이는 설명 */
+  title: string
+  value: number
+}
+
+interface BarChartProps {
+  bars: ChartBar[]
+  ariaLabel: string
+  /** 막대가 많을 때 축 이름을 몇 개마다 하나씩 보여줄지 */
+  labelEvery?: number
+  barClassName?: string
+}
+
+/** 외부 라이브러리 없이 막대 높이를 비율로 그립니다. */
+export function BarChart({ bars, ariaLabel, labelEvery = 1, barClassName }: BarChartProps) {
+  const max = Math.max(1, ...bars.map((bar) => bar.value))
+  return (
+    <div role="img" aria-label={ariaLabel} className="space-y-1">
+      <div className="flex h-32 items-end gap-0.5 border-b">
+        {bars.map((bar) => (
+          <div key={bar.key} title={bar.title} className="flex h-full flex-1 items-end">
+            <div
+              className={cn("w-full rounded-t-sm bg-primary/80", barClassName)}
+              style={{ height: `${(bar.value / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-0.5 text-[10px] text-muted-foreground">
+        {bars.map((bar, index) => (
+          <span key={bar.key} className="flex-1 truncate text-center">
+            {(bars.length - 1 - index) % labelEvery === 0 ? bar.label : ""}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export interface ChartSeries {
+  key: string
+  label: string
+  values: number[]
+  /** 선 색. currentColor 로 그리므로 text-* 클래스를 줍니다. */
+  className: string
+}
+
+interface LineChartProps {
+  series: ChartSeries[]
+  /** series 의 값과 같은 길이의 축 이름 */
+  labels: string[]
+  ariaLabel: string
+  labelEvery?: number
+}
+
+const VIEW_WIDTH = 100
+const VIEW_HEIGHT = 40
+
+export function LineChart({ series, labels, ariaLabel, labelEvery = 1 }: LineChartProps) {
+  const max = Math.max(1, ...series.flatMap((item) => item.values))
+  const step = labels.length > 1 ? VIEW_WIDTH / (labels.length - 1) : 0
+  const toPoints = (values: number[]) =>
+    values
+      .map((value, index) => `${index * step},${VIEW_HEIGHT - (value / max) * VIEW_HEIGHT}`)
+      .join(" ")
+
+  return (
+    <div className="space-y-2">
+      <div role="img" aria-label={ariaLabel} className="relative h-40 border-b border-l">
+        <span className="absolute -top-1 left-1 text-[10px] text-muted-foreground">{max}</span>
+        <svg
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="h-full w-full overflow-visible"
+        >
+          {series.map((item) => (
+            <polyline
+              key={item.key}
+              points={toPoints(item.values)}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+              className={item.className}
+            />
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        {labels.map((label, index) =>
+          (labels.length - 1 - index) % labelEvery === 0 ? <span key={index}>{label}</span> : null
+        )}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {series.map((item) => (
+          <span key={item.key} className="flex items-center gap-1.5">
+            <span className={cn("inline-block h-0.5 w-4 bg-current", item.className)} />
+            <span className="text-muted-foreground">{item.label}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
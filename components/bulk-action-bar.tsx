@@ -0,0 +1,136 @@
+"use client"
+
+import { useState } from "react"
+import { Check, RotateCcw, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { selectFieldClass } from "@/lib/styles"
+import type { Priority } from "@/lib/types"
+
+interface BulkActionBarProps {
+  selectedCount: number
+  visibleCount: number
+  categoryOptions: { value: string; label: string }[]
+  priorityOptions: { value: Priority; label: string }[]
+  /** 보이는 할일을 모두 선택하거나, 이미 모두 선택되어 있으면 해제합니다. */
+  onToggleAll: () => void
+  onSetCompleted: (completed: boolean) => void
+  onSetCategory: (category: string) => void
+  onSetPriority: (priority: Priority) => void
+  /** 빈 문자열이면 마감일을 지웁니다. */
+  onSetDueDate: (dueDate: string) => void
+  onDelete: () => void
+  onClose: () => void
+}
+
+export function BulkActionBar({
+  selectedCount,
+  visibleCount,
+  categoryOptions,
+  priorityOptions,
+  onToggleAll,
+  onSetCompleted,
+  onSetCategory,
+  onSetPriority,
+  onSetDueDate,
+  onDelete,
+  onClose,
+}: BulkActionBarProps) {
+  const [dueDate, setDueDate] = useState("")
+  const allSelected = visibleCount > 0 && selectedCount === visibleCount
+  const disabled = selectedCount === 0
+
+  return (
+    <div className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-background/95 p-3 shadow-md backdrop-blur">
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <Checkbox
+          checked={allSelected ? true : selectedCount > 0 ? "indeterminate" : false}
+          onCheckedChange={onToggleAll}
+          aria-label="보이는 할일 모두 선택"
+        />
+        {selectedCount}개 선택됨
+      </label>
+      <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          disabled={disabled}
+          onClick={() => onSetCompleted(true)}
+        >
+          <Check className="h-3.5 w-3.5" />
+          완료
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          disabled={disabled}
+          onClick={() => onSetCompleted(false)}
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          미완료
+        </Button>
+        <select
+          aria-label="카테고리 바꾸기"
+          className={selectFieldClass}
+          disabled={disabled}
+          value=""
+          onChange={(e) => e.target.value && onSetCategory(e.target.value)}
+        >
+          <option value="">카테고리…</option>
+          {categoryOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="우선순위 바꾸기"
+          className={selectFieldClass}
+          disabled={disabled}
+          value=""
+          onChange={(e) => e.target.value && onSetPriority(e.target.value as Priority)}
+        >
+          <option value="">우선순위…</option>
+          {priorityOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          <Input
+            type="date"
+            aria-label="마감일"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="h-8 w-36"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onSetDueDate(dueDate)}
+          >
+            {dueDate ? "마감일 지정" : "마감일 지우기"}
+          </Button>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1 text-destructive hover:text-destructive"
+          disabled={disabled}
+          onClick={onDelete}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          삭제
+        </Button>
+        <Button variant="ghost" size="sm" aria-label="선택 끝내기" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
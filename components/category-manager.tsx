@@ -0,0 +1,289 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp, Check, Merge, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CATEGORY_COLOR_PALETTE } from "@/lib/categoryRepository"
+import { selectFieldClass } from "@/lib/styles"
+import type { Category, CategoryPatch } from "@/lib/types"
+
+interface CategoryManagerProps {
+  categories: Category[]
+  /** 카테고리 이름별 할일 개수 */
+  usage: Record<string, number>
+  onCreate: (name: string, color: string) => Promise<boolean>
+  onUpdate: (id: string, patch: CategoryPatch) => Promise<boolean>
+  onMove: (id: string, direction: -1 | 1) => void
+  /** reassignTo 가 있으면 해당 카테고리의 할일을 그쪽으로 옮긴 뒤 삭제합니다. */
+  onRemove: (id: string, reassignTo: string | null) => Promise<boolean>
+  onClose: () => void
+}
+
+type PendingAction = { id: string; kind: "merge" | "delete"; target: string }
+
+export function CategoryManager({
+  categories,
+  usage,
+  onCreate,
+  onUpdate,
+  onMove,
+  onRemove,
+  onClose,
+}: CategoryManagerProps) {
+  const [newName, setNewName] = useState("")
+  const [newColor, setNewColor] = useState(
+    CATEGORY_COLOR_PALETTE[categories.length % CATEGORY_COLOR_PALETTE.length]
+  )
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+
+  const handleCreate = async () => {
+    if (newName.trim() === "") return
+    if (await onCreate(newName.trim(), newColor)) {
+      setNewName("")
+      setNewColor(
+        CATEGORY_COLOR_PALETTE[(categories.length + 1) % CATEGORY_COLOR_PALETTE.length]
+      )
+    }
+  }
+
+  const handleRename = async (id: string) => {
+    if (renameValue.trim() === "") return
+    if (await onUpdate(id, { name: renameValue.trim() })) {
+      setRenamingId(null)
+    }
+  }
+
+  const startAction = (category: Category, kind: PendingAction["kind"]) => {
+    const fallback = categories.find((other) => other.id !== category.id)
+    setPendingAction({ id: category.id, kind, target: fallback?.name ?? "" })
+  }
+
+  const confirmAction = async (category: Category) => {
+    if (!pendingAction) return
+    const hasTodos = (usage[category.name] ?? 0) > 0
+    const reassignTo =
+      pendingAction.kind === "merge" || hasTodos ? pendingAction.target : null
+    if (await onRemove(category.id, reassignTo)) {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">카테고리 관리</CardTitle>
+            <CardDescription className="text-xs">
+              이름과 색상을 바꾸거나 순서를 정리하고, 카테고리를 합칠 수 있어요.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {categories.map((category, index) => {
+          const isRenaming = renamingId === category.id
+          const action = pendingAction?.id === category.id ? pendingAction : null
+          const count = usage[category.name] ?? 0
+          const targets = categories.filter((other) => other.id !== category.id)
+
+          return (
+            <div
+              key={category.id}
+              className="space-y-2 rounded-lg border bg-card/70 p-3 text-sm"
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  aria-label={`${category.name} 색상`}
+                  value={category.color}
+                  onChange={(e) => onUpdate(category.id, { color: e.target.value })}
+                  className="h-6 w-6 shrink-0 cursor-pointer rounded border-none bg-transparent p-0"
+                />
+                {isRenaming ? (
+                  <Input
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(category.id)
+                      if (e.key === "Escape") setRenamingId(null)
+                    }}
+                    className="h-7 flex-1 text-sm"
+                    autoFocus
+                  />
+                ) : (
+                  <span className="flex-1 truncate font-medium">{category.name}</span>
+                )}
+                <span className="text-xs text-muted-foreground">{count}개</span>
+              </div>
+              <div className="flex flex-wrap items-center justify-end gap-1">
+                {isRenaming ? (
+                  <>
+                    <Button
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => handleRename(category.id)}
+                    >
+                      <Check className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setRenamingId(null)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      aria-label="위로 이동"
+                      disabled={index === 0}
+                      onClick={() => onMove(category.id, -1)}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      aria-label="아래로 이동"
+                      disabled={index === categories.length - 1}
+                      onClick={() => onMove(category.id, 1)}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => {
+                        setRenamingId(category.id)
+                        setRenameValue(category.name)
+                      }}
+                    >
+                      <Pencil className="h-3 w-3" />
+                      이름
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      disabled={targets.length === 0}
+                      onClick={() => startAction(category, "merge")}
+                    >
+                      <Merge className="h-3 w-3" />
+                      합치기
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs text-destructive hover:text-destructive"
+                      disabled={targets.length === 0}
+                      onClick={() => startAction(category, "delete")}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      삭제
+                    </Button>
+                  </>
+                )}
+              </div>
+              {action && (
+                <div className="space-y-2 rounded-md bg-muted/60 p-2 text-xs">
+                  {action.kind === "merge" || count > 0 ? (
+                    <>
+                      <p>
+                        {action.kind === "merge"
+                          ? `"${category.name}"의 할일 ${count}개를 옮기고 이 카테고리를 없앱니다.`
+                          : `"${category.name}"에 할일 ${count}개가 있습니다. 옮길 카테고리를 선택하세요.`}
+                      </p>
+                      <select
+                        className={selectFieldClass}
+                        value={action.target}
+                        onChange={(e) =>
+                          setPendingAction({ ...action, target: e.target.value })
+                        }
+                      >
+                        {targets.map((target) => (
+                          <option key={target.id} value={target.name}>
+                            {target.name}
+                          </option>
+                        ))}
+                      </select>
+                    </>
+                  ) : (
+                    <p>&quot;{category.name}&quot; 카테고리를 삭제할까요?</p>
+                  )}
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setPendingAction(null)}
+                    >
+                      취소
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={action.kind === "delete" ? "destructive" : "default"}
+                      className="h-6 px-2 text-xs"
+                      onClick={() => confirmAction(category)}
+                    >
+                      {action.kind === "merge" ? "합치기" : "삭제"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+
+        <div className="space-y-2 rounded-lg border border-dashed p-3">
+          <Label htmlFor="new-category" className="text-xs">
+            새 카테고리
+          </Label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              aria-label="새 카테고리 색상"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              className="h-7 w-7 shrink-0 cursor-pointer rounded border-none bg-transparent p-0"
+            />
+            <Input
+              id="new-category"
+              placeholder="이름"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleCreate()
+              }}
+              className="h-8"
+            />
+            <Button size="sm" className="h-8 px-2" onClick={handleCreate}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
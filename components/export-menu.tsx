@@ -0,0 +1,80 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { exportFormatOptions, type ExportFormat } from "@/lib/export"
+import { cn } from "@/lib/utils"
+
+export type ExportScope = "all" | "view"
+
+interface ExportMenuProps {
+  /** 휴지통을 뺀 전체 할일 수 */
+  allCount: number
+  /** 지금 필터와 검색에 맞는 할일 수 */
+  viewCount: number
+  onExport: (format: ExportFormat, scope: ExportScope) => void
+}
+
+export function ExportMenu({ allCount, viewCount, onExport }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [scope, setScope] = useState<ExportScope>("all")
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 gap-1"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((prev) => !prev)}
+      >
+        <Download className="h-3.5 w-3.5" />
+        내보내기
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-72 space-y-3 rounded-lg border bg-popover p-3 text-popover-foreground shadow-lg">
+          <div className="flex rounded-md border p-0.5" role="radiogroup" aria-label="내보낼 범위">
+            {(["all", "view"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={scope === value}
+                onClick={() => setScope(value)}
+                className={cn(
+                  "flex-1 rounded px-2 py-1 text-xs font-medium",
+                  scope === value
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {value === "all" ? `전체 (${allCount})` : `현재 보기 (${viewCount})`}
+              </button>
+            ))}
+          </div>
+          <ul className="space-y-1">
+            {exportFormatOptions.map((option) => (
+              <li key={option.value}>
+                <button
+                  type="button"
+                  disabled={(scope === "all" ? allCount : viewCount) === 0}
+                  onClick={() => {
+                    onExport(option.value, scope)
+                    setIsOpen(false)
+                  }}
+                  className="w-full rounded-md px-2 py-1.5 text-left hover:bg-muted disabled:opacity-50"
+                >
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {option.description}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,374 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { FileUp, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  detectImportFormat,
+  guessColumnMapping,
+  importFieldOptions,
+  importFormatOptions,
+  parseCsv,
+  recordsFromCsv,
+  recordsFromJson,
+  recordsFromMarkdown,
+  recordsFromTodoist,
+  validateImportRecords,
+  type ColumnMapping,
+  type ImportField,
+  type ImportFormat,
+  type ImportRecord,
+  type ImportRow,
+} from "@/lib/import"
+import { selectFieldClass } from "@/lib/styles"
+import type { Priority, Todo } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface ImportWizardProps {
+  categories: string[]
+  /** 중복을 찾을 기존 할일 */
+  existingTodos: Todo[]
+  priorityLabels: Record<Priority, string>
+  /** 넣는 중이면 진행 상황, 아니면 null */
+  progress: { done: number; total: number } | null
+  onImport: (rows: ImportRow[]) => Promise<void>
+  onClose: () => void
+}
+
+interface ImportSource {
+  fileName: string
+  content: string
+}
+
+// 미리보기는 앞부분만 그립니다. 가져오기는 전체 행을 대상으로 합니다.
+const PREVIEW_LIMIT = 100
+
+const readRecords = (
+  source: ImportSource,
+  format: ImportFormat,
+  table: string[][],
+  mapping: ColumnMapping,
+  categories: string[]
+): ImportRecord[] => {
+  switch (format) {
+    case "csv":
+      return table.length > 0 ? recordsFromCsv(table, mapping) : []
+    case "todoist":
+      return table.length > 0 ? recordsFromTodoist(table) : []
+    case "json":
+      return recordsFromJson(source.content)
+    case "markdown":
+      return recordsFromMarkdown(source.content, categories)
+  }
+}
+
+export function ImportWizard({
+  categories,
+  existingTodos,
+  priorityLabels,
+  progress,
+  onImport,
+  onClose,
+}: ImportWizardProps) {
+  const [source, setSource] = useState<ImportSource | null>(null)
+  const [format, setFormat] = useState<ImportFormat>("csv")
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [createMissingCategories, setCreateMissingCategories] = useState(false)
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+
+  const table = useMemo(
+    () => (source && (format === "csv" || format === "todoist") ? parseCsv(source.content) : []),
+    [source, format]
+  )
+
+  const parsed = useMemo(() => {
+    if (!source) return { rows: [] as ImportRow[], error: null }
+    try {
+      const records = readRecords(source, format, table, mapping, categories)
+      return {
+        rows: validateImportRecords(records, {
+          categories,
+          existingTodos,
+          createMissingCategories,
+        }),
+        error: null,
+      }
+    } catch (error) {
+      return {
+        rows: [] as ImportRow[],
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }, [source, format, table, mapping, categories, existingTodos, createMissingCategories])
+
+  const invalidCount = parsed.rows.filter((row) => row.errors.length > 0).length
+  const duplicateCount = parsed.rows.filter((row) => row.duplicate).length
+  const importable = parsed.rows.filter(
+    (row) => row.errors.length === 0 && (includeDuplicates || !row.duplicate)
+  )
+  const isImporting = progress !== null
+
+  const handleFile = async (file: File) => {
+    const content = await file.text()
+    const detected = detectImportFormat(file.name, content)
+    setSource({ fileName: file.name, content })
+    setFormat(detected)
+    setMapping(detected === "csv" ? guessColumnMapping(parseCsv(content)[0] ?? []) : {})
+  }
+
+  const changeFormat = (next: ImportFormat) => {
+    setFormat(next)
+    if (next === "csv" && source) {
+      setMapping(guessColumnMapping(parseCsv(source.content)[0] ?? []))
+    }
+  }
+
+  const changeMapping = (field: ImportField, value: string) =>
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (value === "") delete next[field]
+      else next[field] = Number(value)
+      return next
+    })
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">할일 가져오기</CardTitle>
+          <CardDescription className="text-xs">
+            CSV, JSON, Markdown 체크리스트, Todoist 내보내기 파일을 읽어 미리 확인한 뒤 넣습니다
+          </CardDescription>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2"
+          aria-label="가져오기 닫기"
+          disabled={isImporting}
+          onClick={onClose}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">파일</Label>
+            <label
+              htmlFor="import-file"
+              className="flex h-9 cursor-pointer items-center gap-2 rounded-md border px-3 text-sm hover:bg-muted"
+            >
+              <FileUp className="h-4 w-4" />
+              <span className="max-w-48 truncate">{source?.fileName ?? "파일 선택"}</span>
+            </label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,.md,.markdown,.txt"
+              className="sr-only"
+              disabled={isImporting}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) void handleFile(file)
+                e.target.value = ""
+              }}
+            />
+          </div>
+          {source && (
+            <div className="space-y-2">
+              <Label htmlFor="import-format">형식</Label>
+              <select
+                id="import-format"
+                className={cn(selectFieldClass, "w-44")}
+                value={format}
+                disabled={isImporting}
+                onChange={(e) => changeFormat(e.target.value as ImportFormat)}
+              >
+                {importFormatOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {source && format === "csv" && table.length > 0 && (
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">열 연결</legend>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {importFieldOptions.map((field) => (
+                <label key={field.value} className="space-y-1 text-xs">
+                  <span className="text-muted-foreground">
+                    {field.label}
+                    {field.required && " *"}
+                  </span>
+                  <select
+                    className={cn(selectFieldClass, "h-8 text-xs")}
+                    value={mapping[field.value] ?? ""}
+                    disabled={isImporting}
+                    onChange={(e) => changeMapping(field.value, e.target.value)}
+                  >
+                    <option value="">사용 안 함</option>
+                    {table[0].map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `${index + 1}번째 열`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        {parsed.error && (
+          <p className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            파일을 읽지 못했습니다: {parsed.error}
+          </p>
+        )}
+
+        {source && !parsed.error && (
+          <>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+              <span>
+                전체 <strong>{parsed.rows.length}</strong>개
+              </span>
+              <span className="text-destructive">오류 {invalidCount}개</span>
+              <span className="text-amber-600 dark:text-amber-400">중복 {duplicateCount}개</span>
+            </div>
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="import-create-categories"
+                  checked={createMissingCategories}
+                  disabled={isImporting}
+                  onCheckedChange={(checked) => setCreateMissingCategories(checked === true)}
+                />
+                <Label htmlFor="import-create-categories" className="text-xs font-normal">
+                  없는 카테고리는 새로 만들기
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="import-include-duplicates"
+                  checked={includeDuplicates}
+                  disabled={isImporting}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor="import-include-duplicates" className="text-xs font-normal">
+                  중복도 가져오기
+                </Label>
+              </div>
+            </div>
+
+            {parsed.rows.length > 0 && (
+              <div className="max-h-80 overflow-auto rounded-md border">
+                <table className="w-full text-left text-xs">
+                  <thead className="sticky top-0 bg-muted text-muted-foreground">
+                    <tr>
+                      <th className="px-2 py-1.5 font-medium">줄</th>
+                      <th className="px-2 py-1.5 font-medium">내용</th>
+                      <th className="px-2 py-1.5 font-medium">카테고리</th>
+                      <th className="px-2 py-1.5 font-medium">우선순위</th>
+                      <th className="px-2 py-1.5 font-medium">마감일</th>
+                      <th className="px-2 py-1.5 font-medium">상태</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsed.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                      <tr
+                        key={row.line}
+                        className={cn(
+                          "border-t align-top",
+                          row.errors.length > 0 && "bg-destructive/5",
+                          row.errors.length === 0 && row.duplicate && "bg-amber-500/5"
+                        )}
+                      >
+                        <td className="px-2 py-1.5 tabular-nums text-muted-foreground">{row.line}</td>
+                        <td className="px-2 py-1.5">
+                          <span className={cn(row.draft.completed && "line-through")}>
+                            {row.draft.text}
+                          </span>
+                          {(row.draft.subtasks?.length ?? 0) > 0 && (
+                            <span className="ml-1 text-muted-foreground">
+                              (+{row.draft.subtasks?.length})
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-2 py-1.5">
+                          {row.draft.category}
+                          {row.newCategory && createMissingCategories && (
+                            <span className="ml-1 text-muted-foreground">(새로)</span>
+                          )}
+                        </td>
+                        <td className="px-2 py-1.5">{priorityLabels[row.draft.priority]}</td>
+                        <td className="px-2 py-1.5 tabular-nums">
+                          {row.draft.dueDate}
+                          {row.draft.dueTime && ` ${row.draft.dueTime}`}
+                        </td>
+                        <td className="px-2 py-1.5">
+                          {row.errors.length > 0 ? (
+                            <ul className="text-destructive">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          ) : row.duplicate ? (
+                            <span className="text-amber-600 dark:text-amber-400">
+                              {includeDuplicates ? "중복 (가져옴)" : "중복 (건너뜀)"}
+                            </span>
+                          ) : (
+                            <span className="text-emerald-600 dark:text-emerald-400">가져옴</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {parsed.rows.length > PREVIEW_LIMIT && (
+                  <p className="border-t px-2 py-1.5 text-xs text-muted-foreground">
+                    앞의 {PREVIEW_LIMIT}개만 보여줍니다. 나머지도 같은 규칙으로 가져옵니다.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <div className="h-2 w-full rounded-full bg-secondary">
+                  <div
+                    className="h-2 rounded-full bg-primary transition-all duration-300"
+                    style={{ width: `${Math.round((progress.done / Math.max(progress.total, 1)) * 100)}%` }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {progress.done} / {progress.total} 넣는 중...
+                </p>
+              </div>
+            )}
+
+            <Button
+              className="w-full"
+              disabled={importable.length === 0 || isImporting}
+              onClick={() => void onImport(importable)}
+            >
+              {importable.length}개 가져오기
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
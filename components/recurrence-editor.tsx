@@ -0,0 +1,162 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import {
+  monthlyModeOptions,
+  recurrenceFrequencyOptions,
+  weekdayLabels,
+} from "@/lib/recurrence"
+import { selectFieldClass } from "@/lib/styles"
+import type { RecurrenceRule } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface RecurrenceEditorProps {
+  id?: string
+  value: RecurrenceRule | null
+  onChange: (rule: RecurrenceRule | null) => void
+}
+
+type EndMode = "never" | "until" | "count"
+
+export function RecurrenceEditor({ id, value, onChange }: RecurrenceEditorProps) {
+  const endMode: EndMode =
+    value?.until != null ? "until" : value?.count ? "count" : "never"
+
+  const update = (patch: Partial<RecurrenceRule>) => {
+    if (!value) return
+    onChange({ ...value, ...patch })
+  }
+
+  const toggleWeekday = (day: number) => {
+    const current = value?.weekdays ?? []
+    update({
+      weekdays: current.includes(day)
+        ? current.filter((item) => item !== day)
+        : [...current, day],
+    })
+  }
+
+  const changeEndMode = (mode: EndMode) => {
+    if (mode === "never") update({ until: null, count: null })
+    if (mode === "until") update({ until: value?.until ?? "", count: null })
+    if (mode === "count") update({ until: null, count: value?.count ?? 10 })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_120px]">
+        <select
+          id={id}
+          className={selectFieldClass}
+          value={value?.frequency ?? "none"}
+          onChange={(e) => {
+            const frequency = e.target.value
+            if (frequency === "none") {
+              onChange(null)
+              return
+            }
+            onChange({
+              interval: 1,
+              ...value,
+              frequency: frequency as RecurrenceRule["frequency"],
+            })
+          }}
+        >
+          <option value="none">반복 안 함</option>
+          {recurrenceFrequencyOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {value && (
+          <div className="flex items-center gap-2 text-sm">
+            <Input
+              type="number"
+              min={1}
+              aria-label="반복 간격"
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <span className="whitespace-nowrap text-muted-foreground">
+              {recurrenceFrequencyOptions.find((o) => o.value === value.frequency)?.unit}
+              마다
+            </span>
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === "weekly" && (
+        <div className="flex flex-wrap gap-1">
+          {weekdayLabels.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              aria-pressed={value.weekdays?.includes(day) ?? false}
+              className={cn(
+                "h-8 w-8 rounded-full border text-xs font-medium transition-colors",
+                value.weekdays?.includes(day)
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "hover:border-primary hover:bg-primary/5"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === "monthly" && (
+        <select
+          aria-label="매월 반복 기준"
+          className={selectFieldClass}
+          value={value.monthlyMode ?? "dayOfMonth"}
+          onChange={(e) =>
+            update({
+              monthlyMode: e.target.value as RecurrenceRule["monthlyMode"],
+            })
+          }
+        >
+          {monthlyModeOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {value && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <select
+            aria-label="반복 종료"
+            className={selectFieldClass}
+            value={endMode}
+            onChange={(e) => changeEndMode(e.target.value as EndMode)}
+          >
+            <option value="never">계속 반복</option>
+            <option value="until">종료일까지</option>
+            <option value="count">횟수 지정</option>
+          </select>
+          {endMode === "until" && (
+            <Input
+              type="date"
+              aria-label="반복 종료일"
+              value={value.until ?? ""}
+              onChange={(e) => update({ until: e.target.value })}
+            />
+          )}
+          {endMode === "count" && (
+            <Input
+              type="number"
+              min={1}
+              aria-label="반복 횟수"
+              value={value.count ?? 1}
+              onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
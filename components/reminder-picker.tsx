@@ -0,0 +1,47 @@
+"use client"
+
+import { reminderOffsetOptions } from "@/lib/reminders"
+import { cn } from "@/lib/utils"
+
+interface ReminderPickerProps {
+  id?: string
+  value: number[]
+  onChange: (reminders: number[]) => void
+  /** 마감일이 없으면 고를 수는 있지만 알림이 가지 않는다고 안내합니다. */
+  hasDueDate: boolean
+}
+
+export function ReminderPicker({ id, value, onChange, hasDueDate }: ReminderPickerProps) {
+  const toggle = (offset: number) =>
+    onChange(
+      value.includes(offset)
+        ? value.filter((item) => item !== offset)
+        : [...value, offset].sort((a, b) => a - b)
+    )
+
+  return (
+    <div className="space-y-1.5">
+      <div id={id} className="flex flex-wrap gap-1.5" role="group" aria-label="마감 알림">
+        {reminderOffsetOptions.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggle(option.value)}
+            aria-pressed={value.includes(option.value)}
+            className={cn(
+              "rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+              value.includes(option.value)
+                ? "border-primary bg-primary text-primary-foreground"
+                : "hover:border-primary hover:bg-primary/5"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {value.length > 0 && !hasDueDate && (
+        <p className="text-xs text-muted-foreground">마감일을 정해야 알림이 갑니다.</p>
+      )}
+    </div>
+  )
+}
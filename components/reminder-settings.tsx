@@ -0,0 +1,92 @@
+"use client"
+
+import { Bell, BellOff } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { NotificationSupport } from "@/lib/notifications"
+import type { UserSettings } from "@/lib/types"
+
+interface ReminderSettingsProps {
+  settings: UserSettings
+  permission: NotificationSupport
+  /** 켤 때는 알림 권한을 먼저 요청합니다. */
+  onToggle: (enabled: boolean) => void
+  onUpdateSettings: (patch: Partial<UserSettings>) => void
+}
+
+const permissionMessages: Partial<Record<NotificationSupport, string>> = {
+  unsupported: "이 브라우저는 알림을 지원하지 않습니다.",
+  denied: "브라우저 설정에서 이 사이트의 알림이 차단되어 있습니다.",
+}
+
+export function ReminderSettings({
+  settings,
+  permission,
+  onToggle,
+  onUpdateSettings,
+}: ReminderSettingsProps) {
+  const isActive = settings.remindersEnabled && permission === "granted"
+  const blocked = permissionMessages[permission]
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          {isActive ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+          마감 알림
+        </CardTitle>
+        <CardDescription className="text-xs">
+          할일마다 고른 시점과 매일 아침 요약을 브라우저 알림으로 보냅니다. 이 앱이 열린 탭이
+          있으면 백그라운드에서도 알려줍니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="reminders-enabled"
+            checked={isActive}
+            disabled={permission === "unsupported" || permission === "denied"}
+            onCheckedChange={(checked) => onToggle(checked === true)}
+          />
+          <Label htmlFor="reminders-enabled" className="text-xs font-normal">
+            브라우저 알림 받기
+          </Label>
+        </div>
+        {blocked && <p className="text-xs text-destructive">{blocked}</p>}
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="daily-summary"
+              checked={settings.dailySummaryTime !== null}
+              disabled={!isActive}
+              onCheckedChange={(checked) =>
+                onUpdateSettings({ dailySummaryTime: checked === true ? "08:00" : null })
+              }
+            />
+            <Label htmlFor="daily-summary" className="text-xs font-normal">
+              오늘 마감 요약
+            </Label>
+          </div>
+          <Input
+            type="time"
+            aria-label="요약 받을 시각"
+            className="h-8 w-28"
+            disabled={!isActive || settings.dailySummaryTime === null}
+            value={settings.dailySummaryTime ?? ""}
+            onChange={(e) => {
+              if (e.target.value) onUpdateSettings({ dailySummaryTime: e.target.value })
+            }}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
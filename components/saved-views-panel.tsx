@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Bookmark, Link2, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import type { SavedView } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface SavedViewsPanelProps {
+  views: SavedView[]
+  /** 현재 보기와 같은 저장된 보기의 id */
+  activeViewId: string | null
+  onApply: (view: SavedView) => void
+  onSave: (name: string) => Promise<boolean>
+  onDelete: (id: string) => void
+  onCopyLink: () => void
+}
+
+export function SavedViewsPanel({
+  views,
+  activeViewId,
+  onApply,
+  onSave,
+  onDelete,
+  onCopyLink,
+}: SavedViewsPanelProps) {
+  const [name, setName] = useState("")
+
+  const handleSave = async () => {
+    if (name.trim() === "") return
+    if (await onSave(name.trim())) setName("")
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">저장된 보기</CardTitle>
+            <CardDescription className="text-xs">
+              자주 쓰는 필터와 정렬을 저장하고 링크로 공유하세요
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+            onClick={onCopyLink}
+          >
+            <Link2 className="h-3.5 w-3.5" />
+            링크
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {views.length === 0 && (
+          <p className="text-xs text-muted-foreground">아직 저장된 보기가 없습니다.</p>
+        )}
+        {views.map((view) => (
+          <div
+            key={view.id}
+            className={cn(
+              "group flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm transition-colors",
+              view.id === activeViewId
+                ? "border-primary bg-primary/5"
+                : "hover:border-primary/50"
+            )}
+          >
+            <button
+              type="button"
+              className="flex flex-1 items-center gap-2 truncate text-left"
+              onClick={() => onApply(view)}
+            >
+              <Bookmark className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              <span className="truncate">{view.name}</span>
+            </button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-1.5 text-destructive opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100 focus-visible:opacity-100"
+              aria-label={`${view.name} 보기 삭제`}
+              onClick={() => onDelete(view.id)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 pt-1">
+          <Input
+            placeholder="현재 보기 이름"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave()
+            }}
+            className="h-8"
+          />
+          <Button size="sm" className="h-8 px-2" onClick={handleSave}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,334 @@
+"use client"
+
+import { useState } from "react"
+import { Check, LogOut, Mail, Plus, Trash2, Users, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { listRoleLabels } from "@/lib/sharing"
+import { selectFieldClass } from "@/lib/styles"
+import type { ListInvitation, ListRole, SharedList } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+type MemberRole = Exclude<ListRole, "owner">
+
+interface SharedListsPanelProps {
+  lists: SharedList[]
+  /** 내 이메일로 받은 초대 */
+  invitations: ListInvitation[]
+  /** 지금 목록에 적용된 listFilter. 공유 목록 id 면 그 항목을 펼칩니다. */
+  activeListId: string
+  currentUserId: string | null
+  /** 이미 고른 목록을 다시 누르면 전체 목록으로 돌아갑니다. */
+  onSelect: (listId: string) => void
+  onCreate: (name: string) => Promise<boolean>
+  onDelete: (list: SharedList) => void
+  onInvite: (list: SharedList, email: string, role: MemberRole) => Promise<boolean>
+  onCancelInvitation: (invitation: ListInvitation) => void
+  onChangeRole: (list: SharedList, userId: string, role: MemberRole) => void
+  /** 주인이 내보내거나, 내 id 면 목록에서 나갑니다. */
+  onRemoveMember: (list: SharedList, userId: string) => void
+  onAcceptInvitation: (invitation: ListInvitation) => void
+  onDeclineInvitation: (invitation: ListInvitation) => void
+}
+
+const MEMBER_ROLES: MemberRole[] = ["editor", "viewer"]
+
+export function SharedListsPanel({
+  lists,
+  invitations,
+  activeListId,
+  currentUserId,
+  onSelect,
+  onCreate,
+  onDelete,
+  onInvite,
+  onCancelInvitation,
+  onChangeRole,
+  onRemoveMember,
+  onAcceptInvitation,
+  onDeclineInvitation,
+}: SharedListsPanelProps) {
+  const [name, setName] = useState("")
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<MemberRole>("editor")
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null)
+  const activeList = lists.find((list) => list.id === activeListId) ?? null
+
+  const handleCreate = async () => {
+    if (name.trim() === "") return
+    if (await onCreate(name.trim())) setName("")
+  }
+
+  const handleInvite = async () => {
+    if (!activeList || inviteEmail.trim() === "") return
+    if (await onInvite(activeList, inviteEmail.trim(), inviteRole)) setInviteEmail("")
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">공유 목록</CardTitle>
+        <CardDescription className="text-xs">
+          이메일로 초대해 편집자나 보기 전용 구성원과 함께 쓰세요
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">받은 초대</p>
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center gap-2 rounded-md border border-primary/40 bg-primary/5 px-2 py-1.5 text-sm"
+              >
+                <Mail className="h-3.5 w-3.5 shrink-0 text-primary" />
+                <span className="flex-1 truncate">
+                  {invitation.listName || "이름 없는 목록"}
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    {listRoleLabels[invitation.role]}
+                  </span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5"
+                  aria-label={`${invitation.listName} 초대 수락`}
+                  onClick={() => onAcceptInvitation(invitation)}
+                >
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5 text-destructive hover:text-destructive"
+                  aria-label={`${invitation.listName} 초대 거절`}
+                  onClick={() => onDeclineInvitation(invitation)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <button
+            type="button"
+            aria-pressed={activeListId === "personal"}
+            onClick={() => onSelect("personal")}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-md border px-2 py-1.5 text-left text-sm transition-colors",
+              activeListId === "personal"
+                ? "border-primary bg-primary/5"
+                : "border-transparent hover:border-primary/50"
+            )}
+          >
+            <Users className="h-4 w-4 shrink-0 text-muted-foreground opacity-40" />
+            <span className="flex-1 truncate">개인 할일</span>
+          </button>
+          {lists.map((list) => (
+            <button
+              key={list.id}
+              type="button"
+              aria-pressed={list.id === activeListId}
+              onClick={() => onSelect(list.id)}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-md border px-2 py-1.5 text-left text-sm transition-colors",
+                list.id === activeListId
+                  ? "border-primary bg-primary/5"
+                  : "border-transparent hover:border-primary/50"
+              )}
+            >
+              <Users className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate">{list.name}</span>
+              <span className="rounded-full bg-muted px-1.5 text-xs text-muted-foreground">
+                {listRoleLabels[list.role]}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {activeList && (
+          <div className="space-y-2 rounded-md border border-dashed p-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              구성원 {activeList.members.length}명
+            </p>
+            <ul className="space-y-1">
+              {activeList.members.map((member) => {
+                const isSelf = member.userId === currentUserId
+                return (
+                  <li key={member.userId} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate" title={member.email}>
+                      {member.email}
+                      {isSelf && <span className="text-xs text-muted-foreground"> (나)</span>}
+                    </span>
+                    {activeList.role === "owner" && member.role !== "owner" ? (
+                      <>
+                        <select
+                          className={cn(selectFieldClass, "h-7 w-auto px-1 text-xs")}
+                          value={member.role}
+                          aria-label={`${member.email} 역할`}
+                          onChange={(e) =>
+                            onChangeRole(activeList, member.userId, e.target.value as MemberRole)
+                          }
+                        >
+                          {MEMBER_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {listRoleLabels[role]}
+                            </option>
+                          ))}
+                        </select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-1.5 text-destructive hover:text-destructive"
+                          aria-label={`${member.email} 내보내기`}
+                          onClick={() => onRemoveMember(activeList, member.userId)}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {listRoleLabels[member.role]}
+                      </span>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+
+            {activeList.role === "owner" && (
+              <>
+                {activeList.invitations.length > 0 && (
+                  <ul className="space-y-1">
+                    {activeList.invitations.map((invitation) => (
+                      <li
+                        key={invitation.id}
+                        className="flex items-center gap-2 text-sm text-muted-foreground"
+                      >
+                        <Mail className="h-3.5 w-3.5 shrink-0" />
+                        <span className="flex-1 truncate">{invitation.email}</span>
+                        <span className="text-xs">대기 중 · {listRoleLabels[invitation.role]}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-1.5"
+                          aria-label={`${invitation.email} 초대 취소`}
+                          onClick={() => onCancelInvitation(invitation)}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex items-center gap-1.5">
+                  <Input
+                    type="email"
+                    placeholder="초대할 이메일"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleInvite()
+                    }}
+                    className="h-8"
+                  />
+                  <select
+                    className={cn(selectFieldClass, "h-8 w-auto px-1 text-xs")}
+                    value={inviteRole}
+                    aria-label="초대할 역할"
+                    onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+                  >
+                    {MEMBER_ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {listRoleLabels[role]}
+                      </option>
+                    ))}
+                  </select>
+                  <Button size="sm" className="h-8 px-2" onClick={handleInvite}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {activeList.role === "owner" && confirmingDeleteId === activeList.id ? (
+              <div className="space-y-2 rounded-md bg-muted/60 p-2 text-xs">
+                <p>
+                  &quot;{activeList.name}&quot; 목록과 그 안의 할일을 모두 지웁니다. 되돌릴 수
+                  없어요.
+                </p>
+                <div className="flex justify-end gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setConfirmingDeleteId(null)}
+                  >
+                    취소
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => {
+                      setConfirmingDeleteId(null)
+                      onDelete(activeList)
+                    }}
+                  >
+                    삭제
+                  </Button>
+                </div>
+              </div>
+            ) : activeList.role === "owner" ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-full gap-1 text-xs text-destructive hover:text-destructive"
+                onClick={() => setConfirmingDeleteId(activeList.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+                목록과 할일 삭제
+              </Button>
+            ) : (
+              currentUserId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-full gap-1 text-xs"
+                  onClick={() => onRemoveMember(activeList, currentUserId)}
+                >
+                  <LogOut className="h-3 w-3" />
+                  목록에서 나가기
+                </Button>
+              )
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 pt-1">
+          <Input
+            placeholder="새 목록 이름"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate()
+            }}
+            className="h-8"
+          />
+          <Button size="sm" className="h-8 px-2" onClick={handleCreate}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
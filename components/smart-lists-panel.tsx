@@ -0,0 +1,84 @@
+"use client"
+
+import {
+  AlertTriangle,
+  CalendarCheck,
+  CalendarDays,
+  CalendarRange,
+  Inbox,
+  type LucideIcon,
+} from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { smartListOptions, type FilterType, type SmartListType } from "@/lib/viewState"
+
+interface SmartListsPanelProps {
+  /** 지금 목록에 적용된 필터. 스마트 목록이면 그 항목을 강조합니다. */
+  activeFilter: FilterType
+  counts: Record<SmartListType, number>
+  /** 이미 고른 목록을 다시 누르면 전체 목록으로 돌아갑니다. */
+  onSelect: (list: SmartListType) => void
+}
+
+const SMART_LIST_ICONS: Record<SmartListType, LucideIcon> = {
+  today: CalendarDays,
+  overdue: AlertTriangle,
+  upcoming: CalendarRange,
+  someday: Inbox,
+  completedThisWeek: CalendarCheck,
+}
+
+export function SmartListsPanel({ activeFilter, counts, onSelect }: SmartListsPanelProps) {
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">스마트 목록</CardTitle>
+        <CardDescription className="text-xs">마감일과 완료 시각으로 자동으로 모읍니다</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {smartListOptions.map((option) => {
+          const Icon = SMART_LIST_ICONS[option.value]
+          const count = counts[option.value]
+          const isActive = activeFilter === option.value
+          const isAlert = option.value === "overdue" && count > 0
+          return (
+            <button
+              key={option.value}
+              type="button"
+              aria-pressed={isActive}
+              onClick={() => onSelect(option.value)}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-md border px-2 py-1.5 text-left text-sm transition-colors",
+                isActive ? "border-primary bg-primary/5" : "border-transparent hover:border-primary/50"
+              )}
+            >
+              <Icon
+                className={cn(
+                  "h-4 w-4 shrink-0",
+                  isAlert ? "text-red-600 dark:text-red-400" : "text-muted-foreground"
+                )}
+              />
+              <span className="flex-1 truncate">{option.label}</span>
+              <span
+                className={cn(
+                  "min-w-6 rounded-full px-1.5 text-center text-xs tabular-nums",
+                  isAlert
+                    ? "bg-red-100 font-semibold text-red-700 dark:bg-red-950/60 dark:text-red-300"
+                    : "bg-muted text-muted-foreground"
+                )}
+              >
+                {count}
+              </span>
+            </button>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
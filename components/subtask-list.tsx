@@ -0,0 +1,117 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { generateId } from "@/lib/ids"
+import type { Subtask } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface SubtaskListProps {
+  subtasks: Subtask[]
+  onChange: (subtasks: Subtask[]) => void
+  /** 보기 전용 구성원에게는 체크와 편집 없이 목록만 보여줍니다. */
+  readOnly?: boolean
+}
+
+export function SubtaskList({ subtasks, onChange, readOnly = false }: SubtaskListProps) {
+  const [draft, setDraft] = useState("")
+
+  const addSubtask = () => {
+    if (draft.trim() === "") return
+    onChange([...subtasks, { id: generateId(), text: draft.trim(), completed: false }])
+    setDraft("")
+  }
+
+  const toggleSubtask = (id: string) =>
+    onChange(
+      subtasks.map((subtask) =>
+        subtask.id === id ? { ...subtask, completed: !subtask.completed } : subtask
+      )
+    )
+
+  const moveSubtask = (index: number, direction: -1 | 1) => {
+    const next = [...subtasks]
+    ;[next[index], next[index + direction]] = [next[index + direction], next[index]]
+    onChange(next)
+  }
+
+  const removeSubtask = (id: string) =>
+    onChange(subtasks.filter((subtask) => subtask.id !== id))
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed bg-muted/30 p-3">
+      {subtasks.map((subtask, index) => (
+        <div key={subtask.id} className="group flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={subtask.completed}
+            disabled={readOnly}
+            onCheckedChange={() => toggleSubtask(subtask.id)}
+          />
+          <span
+            className={cn(
+              "flex-1",
+              subtask.completed && "line-through text-muted-foreground"
+            )}
+          >
+            {subtask.text}
+          </span>
+          {!readOnly && (
+            <div className="flex items-center opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1.5"
+                aria-label="위로 이동"
+                disabled={index === 0}
+                onClick={() => moveSubtask(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1.5"
+                aria-label="아래로 이동"
+                disabled={index === subtasks.length - 1}
+                onClick={() => moveSubtask(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1.5 text-destructive hover:text-destructive"
+                aria-label="체크리스트 항목 삭제"
+                onClick={() => removeSubtask(subtask.id)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+      {subtasks.length === 0 && readOnly && (
+        <p className="text-xs text-muted-foreground">체크리스트가 없습니다.</p>
+      )}
+      {!readOnly && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="체크리스트 항목 추가..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addSubtask()
+            }}
+            className="h-7 text-sm"
+          />
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={addSubtask}>
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useMemo } from "react"
+import { Globe } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { localTimeZone, timeZoneOptions } from "@/lib/dates"
+import { selectFieldClass } from "@/lib/styles"
+
+interface TimeZoneSettingsProps {
+  timeZone: string
+  onChange: (timeZone: string) => void
+}
+
+export function TimeZoneSettings({ timeZone, onChange }: TimeZoneSettingsProps) {
+  const options = useMemo(() => timeZoneOptions(timeZone), [timeZone])
+  const deviceTimeZone = localTimeZone()
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Globe className="h-4 w-4" />
+          시간대
+        </CardTitle>
+        <CardDescription className="text-xs">
+          오늘 날짜, 마감 지남, 알림 시각을 이 시간대로 셉니다. 마감일과 시각은 시간대를 바꿔도
+          그대로입니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <select
+          aria-label="시간대"
+          className={selectFieldClass}
+          value={timeZone}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          {options.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone}
+            </option>
+          ))}
+        </select>
+        {deviceTimeZone !== timeZone && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-full text-xs"
+            onClick={() => onChange(deviceTimeZone)}
+          >
+            이 기기 시간대({deviceTimeZone})로 바꾸기
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CheckCircle2, Circle, Pencil, Plus, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  activityFieldLabels,
+  activityRevertPatch,
+  formatActivityValue,
+} from "@/lib/activity"
+import type { RepositoryResult } from "@/lib/todoRepository"
+import type { Todo, TodoActivity, TodoPatch } from "@/lib/types"
+
+interface TodoActivityPanelProps {
+  todo: Todo
+  loadActivity: (todoId: string) => Promise<RepositoryResult<TodoActivity[]>>
+  /** 한 필드를 기록의 바뀌기 전 값으로 돌립니다. 되돌린 것도 새 기록으로 남습니다. */
+  onRevert: (entry: TodoActivity, patch: TodoPatch) => void
+  /** 보기 전용 구성원에게는 되돌리기 버튼을 보여주지 않습니다. */
+  readOnly?: boolean
+}
+
+const formatChangedAt = (value: string) =>
+  new Intl.DateTimeFormat("ko-KR", { dateStyle: "medium", timeStyle: "short" }).format(
+    new Date(value)
+  )
+
+const describeEntry = (entry: TodoActivity) => {
+  switch (entry.kind) {
+    case "created":
+      return "생성"
+    case "completed":
+      return "완료"
+    case "reopened":
+      return "다시 열기"
+    case "updated":
+      return entry.field ? `${activityFieldLabels[entry.field]} 변경` : "수정"
+  }
+}
+
+const ENTRY_ICONS = {
+  created: Plus,
+  completed: CheckCircle2,
+  reopened: Circle,
+  updated: Pencil,
+}
+
+export function TodoActivityPanel({
+  todo,
+  loadActivity,
+  onRevert,
+  readOnly = false,
+}: TodoActivityPanelProps) {
+  const [entries, setEntries] = useState<TodoActivity[] | null>(null)
+  const [hasError, setHasError] = useState(false)
+
+  // 기록에 남는 값이 바뀌면 다시 읽습니다.
+  const revision = [
+    todo.text,
+    todo.category,
+    todo.priority,
+    todo.dueDate,
+    todo.dueTime,
+    todo.completed,
+  ].join("\u0000")
+
+  useEffect(() => {
+    let cancelled = false
+    loadActivity(todo.id).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) {
+        console.error("변경 기록을 불러오지 못했습니다.", error)
+        setHasError(true)
+        return
+      }
+      setHasError(false)
+      setEntries(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [todo.id, revision, loadActivity])
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed bg-muted/30 p-3 text-sm">
+      {hasError ? (
+        <p className="text-xs text-destructive">
+          변경 기록을 불러오지 못했습니다. 온라인 상태에서 다시 열어주세요.
+        </p>
+      ) : entries === null ? (
+        <p className="text-xs text-muted-foreground">불러오는 중…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">아직 남은 기록이 없습니다.</p>
+      ) : (
+        <ol className="space-y-2 border-l pl-4">
+          {entries.map((entry) => {
+            const Icon = ENTRY_ICONS[entry.kind]
+            const patch = readOnly ? null : activityRevertPatch(entry, todo)
+            return (
+              <li key={entry.id} className="relative">
+                <Icon className="absolute -left-[1.4rem] top-0.5 h-3.5 w-3.5 rounded-full bg-background text-muted-foreground" />
+                <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                  <span className="font-medium">{describeEntry(entry)}</span>
+                  <time dateTime={entry.changedAt} className="text-xs text-muted-foreground">
+                    {formatChangedAt(entry.changedAt)}
+                  </time>
+                  {patch && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 gap-1 px-2 text-xs"
+                      onClick={() => onRevert(entry, patch)}
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      이전 값으로 되돌리기
+                    </Button>
+                  )}
+                </div>
+                {entry.field && (
+                  <p className="break-words text-xs text-muted-foreground">
+                    <span className="line-through">
+                      {formatActivityValue(entry.field, entry.oldValue)}
+                    </span>
+                    {" → "}
+                    <span className="text-foreground">
+                      {formatActivityValue(entry.field, entry.newValue)}
+                    </span>
+                  </p>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+"use client"
+
+import { useState } from "react"
+import { Archive, ArchiveRestore, RotateCcw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { TodoPreferences } from "@/lib/preferences"
+import type { Todo, UserSettings } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+type BinTab = "archive" | "trash"
+
+interface TodoBinPanelProps {
+  archived: Todo[]
+  trashed: Todo[]
+  preferences: TodoPreferences
+  onUpdatePreferences: (patch: Partial<TodoPreferences>) => void
+  /** 보존 기간과 자동 보관은 계정 설정입니다. */
+  settings: UserSettings
+  onUpdateSettings: (patch: Partial<UserSettings>) => void
+  onUnarchive: (todo: Todo) => void
+  /** 보관한 할일을 휴지통으로 옮깁니다. */
+  onTrash: (todo: Todo) => void
+  onRestore: (todo: Todo) => void
+  onPurge: (todo: Todo) => void
+  onEmptyTrash: () => void
+}
+
+const formatTimestamp = (value: string | null) =>
+  value
+    ? new Intl.DateTimeFormat("ko-KR", { dateStyle: "medium" }).format(new Date(value))
+    : ""
+
+// 빈 값이나 1 미만은 null 로 돌려 자동 정리를 끕니다.
+const parseDays = (value: string) => {
+  const days = Math.floor(Number(value))
+  return value.trim() === "" || !Number.isFinite(days) || days < 1 ? null : days
+}
+
+export function TodoBinPanel({
+  archived,
+  trashed,
+  preferences,
+  onUpdatePreferences,
+  settings,
+  onUpdateSettings,
+  onUnarchive,
+  onTrash,
+  onRestore,
+  onPurge,
+  onEmptyTrash,
+}: TodoBinPanelProps) {
+  const [tab, setTab] = useState<BinTab>("archive")
+  const items = tab === "archive" ? archived : trashed
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">보관함 · 휴지통</CardTitle>
+        <CardDescription className="text-xs">
+          완료한 할일은 보관하고, 지운 할일은 보존 기간 동안 되살릴 수 있어요
+        </CardDescription>
+        <div className="flex rounded-md border p-0.5" role="tablist">
+          {(["archive", "trash"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              role="tab"
+              aria-selected={tab === value}
+              onClick={() => setTab(value)}
+              className={cn(
+                "flex flex-1 items-center justify-center gap-1 rounded px-2 py-1 text-xs font-medium",
+                tab === value
+                  ? "bg-primary text-primary-foreground"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {value === "archive" ? (
+                <Archive className="h-3.5 w-3.5" />
+              ) : (
+                <Trash2 className="h-3.5 w-3.5" />
+              )}
+              {value === "archive" ? "보관함" : "휴지통"}
+              <span className="opacity-80">
+                {value === "archive" ? archived.length : trashed.length}
+              </span>
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.length === 0 ? (
+          <p className="py-4 text-center text-xs text-muted-foreground">
+            {tab === "archive" ? "보관한 할일이 없습니다." : "휴지통이 비어 있습니다."}
+          </p>
+        ) : (
+          <ul className="max-h-64 space-y-1 overflow-y-auto">
+            {items.map((todo) => (
+              <li
+                key={todo.id}
+                className="flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{todo.text}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {formatTimestamp(tab === "archive" ? todo.archivedAt : todo.deletedAt)}
+                  </p>
+                </div>
+                {tab === "archive" ? (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      aria-label="목록으로 되돌리기"
+                      onClick={() => onUnarchive(todo)}
+                    >
+                      <ArchiveRestore className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-destructive hover:text-destructive"
+                      aria-label="휴지통으로 옮기기"
+                      onClick={() => onTrash(todo)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      aria-label="복원"
+                      onClick={() => onRestore(todo)}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-destructive hover:text-destructive"
+                      aria-label="영구 삭제"
+                      onClick={() => onPurge(todo)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {tab === "archive" ? (
+          <div className="space-y-3 border-t pt-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="auto-archive-days" className="text-xs">
+                완료 후 자동 보관 (일, 비우면 끔)
+              </Label>
+              <Input
+                id="auto-archive-days"
+                key={settings.autoArchiveDays ?? "off"}
+                type="number"
+                min={1}
+                className="h-8 w-20"
+                defaultValue={settings.autoArchiveDays ?? ""}
+                onBlur={(e) => onUpdateSettings({ autoArchiveDays: parseDays(e.target.value) })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="include-archived"
+                checked={preferences.includeArchivedInStats}
+                onCheckedChange={(checked) =>
+                  onUpdatePreferences({ includeArchivedInStats: checked === true })
+                }
+              />
+              <Label htmlFor="include-archived" className="text-xs font-normal">
+                보관한 할일도 진행률과 카테고리 현황에 포함
+              </Label>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 border-t pt-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="trash-retention-days" className="text-xs">
+                휴지통 보존 기간 (일)
+              </Label>
+              <Input
+                id="trash-retention-days"
+                key={settings.trashRetentionDays}
+                type="number"
+                min={1}
+                className="h-8 w-20"
+                defaultValue={settings.trashRetentionDays}
+                onBlur={(e) => {
+                  const days = parseDays(e.target.value)
+                  if (days === null) {
+                    e.target.value = String(settings.trashRetentionDays)
+                    return
+                  }
+                  onUpdateSettings({ trashRetentionDays: days })
+                }}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full text-destructive hover:text-destructive"
+              disabled={trashed.length === 0}
+              onClick={onEmptyTrash}
+            >
+              휴지통 비우기
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { useState, type DragEvent } from "react"
+import { CalendarDays } from "lucide-react"
+import { FALLBACK_CATEGORY_COLOR } from "@/lib/categoryRepository"
+import type { ZonedDateTime } from "@/lib/dates"
+import { isOverdue } from "@/lib/deadlines"
+import type { Todo } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+export interface BoardColumn {
+  key: string
+  label: string
+  color: string | null
+  todos: Todo[]
+}
+
+interface TodoBoardProps {
+  columns: BoardColumn[]
+  categoryColors: Record<string, string>
+  priorityLabels: Record<Todo["priority"], string>
+  /** 사용자 시간대의 지금. 마감이 지난 카드를 표시합니다. */
+  now: ZonedDateTime
+  /** 카드를 다른 열에 놓으면 호출됩니다. 열의 key 가 그대로 새 값입니다. */
+  onMove: (todo: Todo, columnKey: string) => void
+  /** false 인 카드는 끌 수 없습니다. 보기 전용 목록의 할일에 씁니다. */
+  canMove?: (todo: Todo) => boolean
+}
+
+const DRAG_TYPE = "text/plain"
+
+export function TodoBoard({
+  columns,
+  categoryColors,
+  priorityLabels,
+  now,
+  onMove,
+  canMove = () => true,
+}: TodoBoardProps) {
+  const [dropKey, setDropKey] = useState<string | null>(null)
+
+  const handleDrop = (event: DragEvent, column: BoardColumn) => {
+    event.preventDefault()
+    setDropKey(null)
+    const id = event.dataTransfer.getData(DRAG_TYPE)
+    if (column.todos.some((todo) => todo.id === id)) return
+    const todo = columns.flatMap((item) => item.todos).find((item) => item.id === id)
+    if (todo) onMove(todo, column.key)
+  }
+
+  return (
+    <div className="-mx-2 flex snap-x snap-mandatory gap-3 overflow-x-auto px-2 pb-2 md:snap-none">
+      {columns.map((column) => (
+        <section
+          key={column.key}
+          onDragOver={(event) => {
+            event.preventDefault()
+            event.dataTransfer.dropEffect = "move"
+            if (dropKey !== column.key) setDropKey(column.key)
+          }}
+          onDragLeave={() => setDropKey((prev) => (prev === column.key ? null : prev))}
+          onDrop={(event) => handleDrop(event, column)}
+          className={cn(
+            "flex w-72 shrink-0 snap-start flex-col gap-2 rounded-lg border bg-muted/30 p-3",
+            dropKey === column.key && "bg-primary/10"
+          )}
+        >
+          <h3 className="flex items-center gap-2 text-sm font-semibold">
+            {column.color && (
+              <span
+                className="inline-block h-2.5 w-2.5 rounded-full"
+                style={{ backgroundColor: column.color }}
+              />
+            )}
+            {column.label}
+            <span className="text-xs font-normal text-muted-foreground">
+              {column.todos.length}
+            </span>
+          </h3>
+          <div className="flex min-h-24 flex-col gap-2">
+            {column.todos.map((todo) => {
+              const overdue = isOverdue(todo, now)
+              const movable = canMove(todo)
+              return (
+                <article
+                  key={todo.id}
+                  draggable={movable}
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move"
+                    event.dataTransfer.setData(DRAG_TYPE, todo.id)
+                  }}
+                  className={cn(
+                    "space-y-2 rounded-md border bg-card p-3 text-sm shadow-sm",
+                    movable && "cursor-grab"
+                  )}
+                >
+                  <p
+                    className={cn(
+                      "leading-snug",
+                      todo.completed && "text-muted-foreground line-through"
+                    )}
+                  >
+                    {todo.text}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="inline-flex items-center gap-1">
+                      <span
+                        className="inline-block h-2 w-2 rounded-full"
+                        style={{
+                          backgroundColor:
+                            categoryColors[todo.category] ?? FALLBACK_CATEGORY_COLOR,
+                        }}
+                      />
+                      {todo.category}
+                    </span>
+                    <span>· {priorityLabels[todo.priority]}</span>
+                    {todo.dueDate && (
+                      <span
+                        className={cn(
+                          "inline-flex items-center gap-1",
+                          overdue && "font-medium text-red-600 dark:text-red-400"
+                        )}
+                      >
+                        <CalendarDays className="h-3 w-3" />
+                        {todo.dueDate.slice(5).replace("-", ".")}
+                        {todo.dueTime && ` ${todo.dueTime}`}
+                      </span>
+                    )}
+                  </div>
+                </article>
+              )
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
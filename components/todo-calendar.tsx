@@ -0,0 +1,241 @@
+"use client"
+
+import { useMemo, useState, type DragEvent } from "react"
+import { CalendarX, ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  addDays,
+  parseIsoDate,
+  startOfMonth,
+  startOfWeek,
+  type ZonedDateTime,
+} from "@/lib/dates"
+import { isOverdue } from "@/lib/deadlines"
+import { FALLBACK_CATEGORY_COLOR } from "@/lib/categoryRepository"
+import { weekdayLabels } from "@/lib/recurrence"
+import type { Todo } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+type CalendarMode = "month" | "week"
+
+interface TodoCalendarProps {
+  /** 필터가 적용된 할일. 마감일이 없는 할일은 옆 보관함에 놓입니다. */
+  todos: Todo[]
+  categoryColors: Record<string, string>
+  /** 사용자 시간대의 지금. 오늘 칸과 마감이 지난 할일을 표시합니다. */
+  now: ZonedDateTime
+  /** dueDate 가 빈 문자열이면 마감일을 지웁니다. */
+  onReschedule: (todo: Todo, dueDate: string) => void
+  /** false 인 할일은 끌 수 없습니다. 보기 전용 목록의 할일에 씁니다. */
+  canMove?: (todo: Todo) => boolean
+}
+
+const MONTH_CELL_LIMIT = 3
+
+const DRAG_TYPE = "text/plain"
+
+export function TodoCalendar({
+  todos,
+  categoryColors,
+  now,
+  onReschedule,
+  canMove = () => true,
+}: TodoCalendarProps) {
+  const today = now.date
+  const [mode, setMode] = useState<CalendarMode>("month")
+  const [anchor, setAnchor] = useState(today)
+  const [dropDate, setDropDate] = useState<string | null>(null)
+
+  const days = useMemo(() => {
+    if (mode === "week") {
+      const start = startOfWeek(anchor)
+      return Array.from({ length: 7 }, (_, i) => addDays(start, i))
+    }
+    const first = startOfMonth(anchor)
+    const start = startOfWeek(first)
+    const nextMonth = startOfMonth(anchor, 1)
+    const result: string[] = []
+    for (let day = start; day < nextMonth || result.length % 7 !== 0; day = addDays(day, 1)) {
+      result.push(day)
+    }
+    return result
+  }, [mode, anchor])
+
+  const todosByDate = useMemo(() => {
+    const map = new Map<string, Todo[]>()
+    todos.forEach((todo) => {
+      if (!todo.dueDate) return
+      map.set(todo.dueDate, [...(map.get(todo.dueDate) ?? []), todo])
+    })
+    return map
+  }, [todos])
+
+  const undated = useMemo(() => todos.filter((todo) => !todo.dueDate), [todos])
+
+  const currentMonth = startOfMonth(anchor).slice(0, 7)
+  const title =
+    mode === "month"
+      ? `${Number(currentMonth.slice(0, 4))}년 ${Number(currentMonth.slice(5, 7))}월`
+      : `${days[0].replace(/-/g, ".")} – ${days[6].slice(5).replace("-", ".")}`
+
+  const move = (offset: -1 | 1) => {
+    setAnchor((prev) =>
+      mode === "month" ? startOfMonth(prev, offset) : addDays(prev, offset * 7)
+    )
+  }
+
+  const handleDrop = (event: DragEvent, dueDate: string) => {
+    event.preventDefault()
+    setDropDate(null)
+    const todo = todos.find((item) => item.id === event.dataTransfer.getData(DRAG_TYPE))
+    if (todo && todo.dueDate !== dueDate) onReschedule(todo, dueDate)
+  }
+
+  const dropHandlers = (dueDate: string) => ({
+    onDragOver: (event: DragEvent) => {
+      event.preventDefault()
+      event.dataTransfer.dropEffect = "move"
+      if (dropDate !== dueDate) setDropDate(dueDate)
+    },
+    onDragLeave: () => setDropDate((prev) => (prev === dueDate ? null : prev)),
+    onDrop: (event: DragEvent) => handleDrop(event, dueDate),
+  })
+
+  const renderChip = (todo: Todo) => {
+    const overdue = isOverdue(todo, now)
+    const movable = canMove(todo)
+    return (
+      <div
+        key={todo.id}
+        draggable={movable}
+        onDragStart={(event) => {
+          event.dataTransfer.effectAllowed = "move"
+          event.dataTransfer.setData(DRAG_TYPE, todo.id)
+        }}
+        title={todo.text}
+        className={cn(
+          "flex items-center gap-1.5 truncate rounded border bg-card px-1.5 py-0.5 text-xs",
+          movable && "cursor-grab",
+          todo.completed && "text-muted-foreground line-through opacity-70",
+          overdue &&
+            "border-red-300 bg-red-50 text-red-900 dark:border-red-900 dark:bg-red-950/40 dark:text-red-200"
+        )}
+      >
+        <span
+          className="inline-block h-2 w-2 shrink-0 rounded-full"
+          style={{
+            backgroundColor: categoryColors[todo.category] ?? FALLBACK_CATEGORY_COLOR,
+          }}
+        />
+        {todo.dueTime && <span className="shrink-0 tabular-nums opacity-70">{todo.dueTime}</span>}
+        <span className="truncate">{todo.text}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-4 lg:flex-row">
+      <div className="min-w-0 flex-1 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" aria-label="이전" onClick={() => move(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(today)}>
+            오늘
+          </Button>
+          <Button variant="outline" size="sm" aria-label="다음" onClick={() => move(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="text-sm font-semibold">{title}</h3>
+          <div className="ml-auto flex rounded-md border p-0.5">
+            {(["month", "week"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMode(value)}
+                className={cn(
+                  "rounded px-2.5 py-1 text-xs font-medium",
+                  mode === value
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {value === "month" ? "월" : "주"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[640px] grid-cols-7 overflow-hidden rounded-lg border">
+            {weekdayLabels.map((label, index) => (
+              <div
+                key={label}
+                className={cn(
+                  "border-b bg-muted/50 px-2 py-1.5 text-center text-xs font-medium text-muted-foreground",
+                  index === 0 && "text-red-600 dark:text-red-400"
+                )}
+              >
+                {label}
+              </div>
+            ))}
+            {days.map((day) => {
+              const dayTodos = todosByDate.get(day) ?? []
+              const isOutside = mode === "month" && !day.startsWith(currentMonth)
+              const visible =
+                mode === "month" ? dayTodos.slice(0, MONTH_CELL_LIMIT) : dayTodos
+              return (
+                <div
+                  key={day}
+                  {...dropHandlers(day)}
+                  className={cn(
+                    "space-y-1 border-b border-r p-1.5 [&:nth-child(7n)]:border-r-0",
+                    mode === "month" ? "min-h-24" : "min-h-64",
+                    isOutside && "bg-muted/30 text-muted-foreground",
+                    dropDate === day && "bg-primary/10"
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "flex h-6 w-6 items-center justify-center rounded-full text-xs",
+                      day === today && "bg-primary font-semibold text-primary-foreground",
+                      day !== today &&
+                        parseIsoDate(day).getUTCDay() === 0 &&
+                        "text-red-600 dark:text-red-400"
+                    )}
+                  >
+                    {Number(day.slice(8))}
+                  </div>
+                  {visible.map(renderChip)}
+                  {dayTodos.length > visible.length && (
+                    <p className="px-1 text-[11px] text-muted-foreground">
+                      +{dayTodos.length - visible.length}개 더
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+
+      <aside
+        {...dropHandlers("")}
+        className={cn(
+          "space-y-2 rounded-lg border bg-muted/30 p-3 lg:w-56",
+          dropDate === "" && "bg-primary/10"
+        )}
+      >
+        <div className="flex items-center gap-1.5 text-sm font-semibold">
+          <CalendarX className="h-4 w-4 text-muted-foreground" />
+          마감일 없음
+          <span className="text-xs font-normal text-muted-foreground">{undated.length}</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          날짜 칸으로 끌어 마감일을 정하고, 여기로 끌어오면 마감일을 지웁니다.
+        </p>
+        <div className="space-y-1">{undated.map(renderChip)}</div>
+      </aside>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import type { RepositoryResult } from "@/lib/todoRepository"
+import type { AccessToken } from "@/lib/types"
+
+export interface AccessTokenRepository {
+  /** 최근에 만든 순으로, 폐기한 토큰도 함께 반환합니다. */
+  list(): Promise<RepositoryResult<AccessToken[]>>
+  /** secret 은 토큰 원문입니다. 다시 읽을 수 없으므로 바로 보여줘야 합니다. */
+  create(name: string): Promise<RepositoryResult<{ token: AccessToken; secret: string }>>
+  revoke(id: string): Promise<RepositoryResult<null>>
+}
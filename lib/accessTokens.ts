@@ -0,0 +1,25 @@
+/** 세션 JWT 와 구분하기 위해 모든 개인 액세스 토큰은 이 접두사로 시작합니다. */
+export const ACCESS_TOKEN_PREFIX = "tvp_"
+
+// 목록에 보여줄 앞부분 길이. 접두사 뒤로 4글자까지 보여줍니다.
+const DISPLAY_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 4
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+
+export const isAccessToken = (value: string) => value.startsWith(ACCESS_TOKEN_PREFIX)
+
+/** 256비트 난수 토큰. 원문은 사용자에게 한 번만 보여줍니다. */
+export const generateAccessToken = () => {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return `${ACCESS_TOKEN_PREFIX}${toBase64Url(bytes)}`
+}
+
+export const accessTokenDisplayPrefix = (token: string) => token.slice(0, DISPLAY_PREFIX_LENGTH)
+
+/** 저장과 조회에 쓰는 SHA-256 hex. 브라우저와 서버에서 같은 값을 냅니다. */
+export const hashAccessToken = async (token: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,82 @@
+import { formatDeadline } from "@/lib/deadlines"
+import type { Priority, Todo, TodoActivity, TodoActivityField, TodoPatch } from "@/lib/types"
+
+export const ACTIVITY_FIELDS: TodoActivityField[] = [
+  "text",
+  "category",
+  "priority",
+  "dueDate",
+  "dueTime",
+]
+
+export const activityFieldLabels: Record<TodoActivityField, string> = {
+  text: "내용",
+  category: "카테고리",
+  priority: "우선순위",
+  dueDate: "마감일",
+  dueTime: "마감 시각",
+}
+
+const PRIORITY_LABELS: Record<Priority, string> = { high: "높음", medium: "보통", low: "낮음" }
+
+/**
+ * 트리거(log_todo_activity)와 같은 규칙으로 남길 기록을 만듭니다. 로컬 저장소용입니다.
+ * before 가 null 이면 새로 만든 할일입니다.
+ */
+export const diffTodoActivity = (
+  before: Todo | null,
+  after: Todo,
+  changedAt: string
+): Omit<TodoActivity, "id">[] => {
+  const entry = { todoId: after.id, field: null, oldValue: null, newValue: null, changedAt }
+  if (!before) return [{ ...entry, kind: "created" }]
+
+  const completion: Omit<TodoActivity, "id">[] =
+    before.completed !== after.completed
+      ? [{ ...entry, kind: after.completed ? "completed" : "reopened" }]
+      : []
+  const updates = ACTIVITY_FIELDS.filter((field) => before[field] !== after[field]).map(
+    (field): Omit<TodoActivity, "id"> => ({
+      ...entry,
+      kind: "updated",
+      field,
+      oldValue: before[field] || null,
+      newValue: after[field] || null,
+    })
+  )
+  return [...completion, ...updates]
+}
+
+const revertPatch = (field: TodoActivityField, value: string): TodoPatch | null => {
+  switch (field) {
+    case "text":
+      return value.trim() === "" ? null : { text: value }
+    case "category":
+      return value === "" ? null : { category: value }
+    case "priority":
+      return value in PRIORITY_LABELS ? { priority: value as Priority } : null
+    case "dueDate":
+      return value === "" ? { dueDate: "", dueTime: "" } : { dueDate: value }
+    case "dueTime":
+      return { dueTime: value }
+  }
+}
+
+/**
+ * 기록의 바뀌기 전 값으로 돌리는 patch. 마감일을 지우면 마감 시각도 지웁니다.
+ * 이미 그 값이거나 마감일 없이 시각만 돌리게 되면 null 입니다.
+ */
+export const activityRevertPatch = (entry: TodoActivity, todo: Todo): TodoPatch | null => {
+  if (entry.kind !== "updated" || !entry.field) return null
+  const value = entry.oldValue ?? ""
+  if (todo[entry.field] === value) return null
+  if (entry.field === "dueTime" && value !== "" && !todo.dueDate) return null
+  return revertPatch(entry.field, value)
+}
+
+export const formatActivityValue = (field: TodoActivityField, value: string | null) => {
+  if (!value) return "없음"
+  if (field === "priority") return PRIORITY_LABELS[value as Priority] ?? value
+  if (field === "dueDate") return formatDeadline(value)
+  return value
+}
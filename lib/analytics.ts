@@ -0,0 +1,156 @@
+import { addDays, startOfWeek, zonedDateTime, type ZonedDateTime } from "@/lib/dates"
+import { isOverdue } from "@/lib/deadlines"
+import type { Todo } from "@/lib/types"
+
+/** 날짜(YYYY-MM-DD)마다 센 수. 주 단위일 때 date 는 그 주의 일요일입니다. */
+export interface DateCount {
+  date: string
+  count: number
+}
+
+export interface CompletionStreak {
+  /** 오늘(아직 완료가 없으면 어제)까지 이어진 날 수 */
+  current: number
+  longest: number
+}
+
+export interface CompletionTimeStat<K extends string> {
+  key: K
+  count: number
+  averageMs: number
+}
+
+export interface DeadlineResult {
+  onTime: number
+  late: number
+}
+
+export interface BurndownPoint {
+  date: string
+  created: number
+  completed: number
+  /** 그날이 끝날 때 남아 있던 미완료 할일 수 */
+  open: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** ISO 시각을 사용자 시간대의 날짜로 바꿉니다. */
+const localDate = (iso: string, timeZone: string) => zonedDateTime(timeZone, new Date(iso)).date
+
+const completionDates = (todos: Todo[], timeZone: string) =>
+  todos.flatMap((todo) =>
+    todo.completed && todo.completedAt ? [localDate(todo.completedAt, timeZone)] : []
+  )
+
+const countBy = (keys: string[]) => {
+  const counts = new Map<string, number>()
+  keys.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1))
+  return counts
+}
+
+/** 오늘을 포함한 최근 days 일. 오래된 날부터 */
+export const recentDates = (today: string, days: number) =>
+  Array.from({ length: days }, (_, index) => addDays(today, index - days + 1))
+
+export const completionsByDay = (todos: Todo[], now: ZonedDateTime, days: number): DateCount[] => {
+  const counts = countBy(completionDates(todos, now.timeZone))
+  return recentDates(now.date, days).map((date) => ({ date, count: counts.get(date) ?? 0 }))
+}
+
+/** 이번 주를 포함한 최근 weeks 주. 주는 일요일부터 셉니다. */
+export const completionsByWeek = (todos: Todo[], now: ZonedDateTime, weeks: number): DateCount[] => {
+  const counts = countBy(completionDates(todos, now.timeZone).map(startOfWeek))
+  const thisWeek = startOfWeek(now.date)
+  return Array.from({ length: weeks }, (_, index) => {
+    const date = addDays(thisWeek, (index - weeks + 1) * 7)
+    return { date, count: counts.get(date) ?? 0 }
+  })
+}
+
+/** 하루에 하나라도 완료한 날이 이어진 수 */
+export const completionStreak = (todos: Todo[], now: ZonedDateTime): CompletionStreak => {
+  const dates = Array.from(new Set(completionDates(todos, now.timeZone))).sort()
+  let longest = 0
+  let run = 0
+  dates.forEach((date, index) => {
+    run = index > 0 && addDays(dates[index - 1], 1) === date ? run + 1 : 1
+    longest = Math.max(longest, run)
+  })
+
+  const completed = new Set(dates)
+  let day = completed.has(now.date) ? now.date : addDays(now.date, -1)
+  let current = 0
+  while (completed.has(day)) {
+    current += 1
+    day = addDays(day, -1)
+  }
+  return { current, longest }
+}
+
+/** 만든 뒤 완료하기까지 걸린 평균 시간. 완료한 할일이 많은 순서입니다. */
+export const averageCompletionTime = <K extends "category" | "priority">(
+  todos: Todo[],
+  key: K
+): CompletionTimeStat<Todo[K]>[] => {
+  const totals = new Map<Todo[K], { count: number; totalMs: number }>()
+  todos.forEach((todo) => {
+    if (!todo.completed || !todo.completedAt || !todo.createdAt) return
+    const elapsed = new Date(todo.completedAt).getTime() - new Date(todo.createdAt).getTime()
+    if (!Number.isFinite(elapsed) || elapsed < 0) return
+    const total = totals.get(todo[key]) ?? { count: 0, totalMs: 0 }
+    totals.set(todo[key], { count: total.count + 1, totalMs: total.totalMs + elapsed })
+  })
+  return Array.from(totals, ([value, total]) => ({
+    key: value,
+    count: total.count,
+    averageMs: total.totalMs / total.count,
+  })).sort((a, b) => b.count - a.count)
+}
+
+/** 마감일이 있는 완료 할일을 마감 안에 끝냈는지 셉니다. 기준은 isOverdue 와 같습니다. */
+export const deadlineResults = (todos: Todo[], timeZone: string): DeadlineResult =>
+  todos.reduce<DeadlineResult>(
+    (result, todo) => {
+      if (!todo.completed || !todo.completedAt || !todo.dueDate) return result
+      const completedAt = zonedDateTime(timeZone, new Date(todo.completedAt))
+      return isOverdue({ ...todo, completed: false }, completedAt)
+        ? { ...result, late: result.late + 1 }
+        : { ...result, onTime: result.onTime + 1 }
+    },
+    { onTime: 0, late: 0 }
+  )
+
+/** 최근 days 일 동안 날마다 만든 수, 완료한 수, 남은 수 */
+export const burndown = (todos: Todo[], now: ZonedDateTime, days: number): BurndownPoint[] => {
+  const tracked = todos.filter((todo) => todo.createdAt)
+  const created = tracked.map((todo) => localDate(todo.createdAt, now.timeZone))
+  const completed = completionDates(tracked, now.timeZone)
+  const createdByDate = countBy(created)
+  const completedByDate = countBy(completed)
+  const dates = recentDates(now.date, days)
+
+  // 기간 앞에서 이미 남아 있던 수에서 시작합니다.
+  let open =
+    created.filter((date) => date < dates[0]).length -
+    completed.filter((date) => date < dates[0]).length
+  return dates.map((date) => {
+    const point = {
+      date,
+      created: createdByDate.get(date) ?? 0,
+      completed: completedByDate.get(date) ?? 0,
+    }
+    open += point.created - point.completed
+    return { ...point, open }
+  })
+}
+
+export const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${minutes}분`
+  const hours = Math.floor(ms / 3600000)
+  if (ms < DAY_MS) return `${hours}시간`
+  const days = Math.floor(ms / DAY_MS)
+  const restHours = Math.floor((ms % DAY_MS) / 3600000)
+  return restHours > 0 && days < 7 ? `${days}일 ${restHours}시간` : `${days}일`
+}
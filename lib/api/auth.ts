@@ -0,0 +1,90 @@
+import { createHmac } from "node:crypto"
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import type { NextRequest } from "next/server"
+import { hashAccessToken, isAccessToken } from "@/lib/accessTokens"
+import { apiError, internalError } from "@/lib/api/http"
+import { todoBackend } from "@/lib/config"
+import { createSupabaseTodoRepository } from "@/lib/repositories/supabaseTodoRepository"
+import { SESSION_COOKIE_NAME } from "@/lib/sessionCookie"
+import type { TodoRepository } from "@/lib/todoRepository"
+
+/** 인증된 요청에서 쓰는 값. client 는 요청한 사용자 권한으로 동작하므로 RLS 가 그대로 적용됩니다. */
+export interface ApiContext {
+  userId: string
+  client: SupabaseClient
+  todos: TodoRepository
+}
+
+// 개인 액세스 토큰으로 만든 세션 JWT 의 수명. 요청 하나를 처리하는 동안만 씁니다.
+const TOKEN_SESSION_SECONDS = 60
+
+const createUserClient = (accessToken?: string) =>
+  createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+    global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+  })
+
+const base64Url = (value: string | Buffer) =>
+  Buffer.from(value).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+
+// PostgREST 가 auth.uid() 로 읽을 수 있도록 프로젝트 JWT 비밀키로 사용자 세션을 서명합니다.
+const signUserJwt = (userId: string, secret: string) => {
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }))
+  const payload = base64Url(
+    JSON.stringify({
+      sub: userId,
+      role: "authenticated",
+      aud: "authenticated",
+      iat: now,
+      exp: now + TOKEN_SESSION_SECONDS,
+    })
+  )
+  const signature = base64Url(createHmac("sha256", secret).update(`${header}.${payload}`).digest())
+  return `${header}.${payload}.${signature}`
+}
+
+const readBearerToken = (request: NextRequest) => {
+  const header = request.headers.get("authorization")
+  const match = header ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null
+  return match?.[1] ?? request.cookies.get(SESSION_COOKIE_NAME)?.value ?? null
+}
+
+/**
+ * Authorization: Bearer 헤더나 세션 쿠키로 사용자를 찾습니다.
+ * tvp_ 로 시작하면 개인 액세스 토큰, 그 외에는 Supabase 세션 access token 으로 봅니다.
+ * 실패하면 그대로 돌려줄 오류 응답을 반환합니다.
+ */
+export const authenticateRequest = async (
+  request: NextRequest
+): Promise<ApiContext | Response> => {
+  if (todoBackend === "local") {
+    return apiError("not_implemented", "API 는 Supabase 백엔드에서만 사용할 수 있습니다.")
+  }
+  const token = readBearerToken(request)
+  if (!token) {
+    return apiError("unauthorized", "Authorization 헤더나 로그인 세션이 필요합니다.")
+  }
+
+  if (isAccessToken(token)) {
+    const secret = process.env.SUPABASE_JWT_SECRET
+    if (!secret) {
+      return internalError("SUPABASE_JWT_SECRET 이 설정되지 않았습니다.", null)
+    }
+    const { data: userId, error } = await createUserClient().rpc(
+      "verify_personal_access_token",
+      { p_token_hash: await hashAccessToken(token) }
+    )
+    if (error) return internalError("토큰을 확인하지 못했습니다.", error)
+    if (!userId) return apiError("unauthorized", "폐기되었거나 없는 토큰입니다.")
+    const client = createUserClient(signUserJwt(userId, secret))
+    return { userId, client, todos: createSupabaseTodoRepository(client) }
+  }
+
+  const client = createUserClient(token)
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) {
+    return apiError("unauthorized", "세션이 만료되었습니다. 다시 로그인해주세요.")
+  }
+  return { userId: data.user.id, client, todos: createSupabaseTodoRepository(client) }
+}
@@ -0,0 +1,15 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { fail, ok } from "@/lib/todoRepository"
+
+/** 사용자의 카테고리 이름을 sortOrder 순으로 읽습니다. 첫 번째가 새 할일의 기본 카테고리입니다. */
+export const fetchCategoryNames = async (client: SupabaseClient) => {
+  const { data, error } = await client
+    .from("categories")
+    .select("name")
+    .order("sort_order", { ascending: true })
+  if (error) return fail<string[]>(error)
+  return ok((data ?? []).map((row) => row.name as string))
+}
+
+export const unknownCategoryError = (category: string, categories: string[]) =>
+  `없는 카테고리입니다: ${category} (사용 가능: ${categories.join(", ")})`
@@ -0,0 +1,57 @@
+export type ApiErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "invalid_request"
+  | "not_implemented"
+  | "internal"
+
+/** 모든 API 오류 응답의 본문. details 에는 입력 검증에서 걸린 항목을 하나씩 담습니다. */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode
+    message: string
+    details?: string[]
+  }
+}
+
+const STATUS: Record<ApiErrorCode, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  invalid_request: 400,
+  not_implemented: 501,
+  internal: 500,
+}
+
+export const apiError = (code: ApiErrorCode, message: string, details?: string[]) =>
+  Response.json(
+    { error: { code, message, ...(details && details.length > 0 ? { details } : {}) } } satisfies ApiErrorBody,
+    { status: STATUS[code] }
+  )
+
+/** 성공 응답은 항상 { data } 로 감쌉니다. */
+export const apiData = <T>(data: T, extra: Record<string, unknown> = {}, status = 200) =>
+  Response.json({ data, ...extra }, { status })
+
+/** 저장소 오류를 500 으로 돌립니다. 원인은 서버 로그에만 남깁니다. */
+export const internalError = (message: string, error: unknown) => {
+  console.error(message, error)
+  return apiError("internal", message)
+}
+
+/** RLS 정책에 막힌 쓰기(PostgreSQL insufficient_privilege)인지 봅니다. */
+export const isPermissionError = (error: Error) =>
+  (error as Error & { code?: unknown }).code === "42501"
+
+/** 본문이 JSON 객체가 아니면 null 입니다. */
+export const readJsonObject = async (request: Request) => {
+  try {
+    const body: unknown = await request.json()
+    return body && typeof body === "object" && !Array.isArray(body)
+      ? (body as Record<string, unknown>)
+      : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,11 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { DEFAULT_TIME_ZONE } from "@/lib/deadlines"
+import { createSupabaseUserSettingsRepository } from "@/lib/repositories/supabaseUserSettingsRepository"
+import { fail, ok } from "@/lib/todoRepository"
+
+/** 사용자의 시간대. 아직 저장하지 않았으면 DB 의 todo_due_at 과 같은 기본값을 씁니다. */
+export const fetchTimeZone = async (client: SupabaseClient) => {
+  const { data, error } = await createSupabaseUserSettingsRepository(client).get()
+  if (error) return fail<string>(error)
+  return ok(data?.timeZone ?? DEFAULT_TIME_ZONE)
+}
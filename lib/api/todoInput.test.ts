@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import { parseTodoDraft, parseTodoPatch } from "@/lib/api/todoInput"
+import type { Todo } from "@/lib/types"
+
+const parseRecurrence = (recurrence: unknown) => parseTodoPatch({ recurrence }, null)
+
+describe("parseTodoPatch recurrence", () => {
+  it("accepts a complete monthly rule", () => {
+    const { value, errors } = parseRecurrence({
+      frequency: "monthly",
+      interval: 2,
+      monthlyMode: "dayOfMonth",
+      monthDay: 31,
+      count: 12,
+    })
+    expect(errors).toEqual([])
+    expect(value.recurrence).toMatchObject({
+      frequency: "monthly",
+      interval: 2,
+      monthlyMode: "dayOfMonth",
+      monthDay: 31,
+      count: 12,
+      occurrence: 1,
+    })
+  })
+
+  it.each([
+    [{ frequency: "monthly", monthlyMode: "firstMonday" }, "monthlyMode"],
+    [{ frequency: "monthly", monthDay: 0 }, "monthDay"],
+    [{ frequency: "monthly", monthDay: 32 }, "monthDay"],
+    [{ frequency: "monthly", monthDay: "1" }, "monthDay"],
+    [{ frequency: "daily", count: 0 }, "count"],
+    [{ frequency: "daily", count: 1.5 }, "count"],
+    [{ frequency: "daily", interval: 0 }, "interval"],
+    [{ frequency: "hourly" }, "frequency"],
+  ])("rejects %j", (rule, field) => {
+    const { value, errors } = parseRecurrence(rule)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toContain(`recurrence.${field}`)
+    expect(value.recurrence).toBeUndefined()
+  })
+
+  it("clears the rule with null", () => {
+    expect(parseRecurrence(null)).toEqual({ value: { recurrence: null }, errors: [] })
+  })
+})
+
+describe("parseTodoPatch deadline", () => {
+  const current: Todo = {
+    id: "todo-1",
+    text: "보고서",
+    category: "업무",
+    priority: "medium",
+    dueDate: "2026-10-20",
+    dueTime: "09:00",
+    dueAt: "2026-10-20T00:00:00+00:00",
+    completed: false,
+    subtasks: [],
+    recurrence: null,
+    position: null,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    reminders: [],
+    listId: null,
+    assigneeId: null,
+    createdBy: null,
+  }
+  const undated = { ...current, dueDate: "", dueTime: "", dueAt: null }
+
+  it("rejects a due time without a due date", () => {
+    expect(parseTodoDraft({ text: "보고서", dueTime: "09:00" }, "업무").errors).toEqual([
+      "dueTime 은 dueDate 가 있을 때만 정할 수 있습니다.",
+    ])
+    expect(parseTodoPatch({ dueTime: "10:00" }, undated).errors).toHaveLength(1)
+    expect(parseTodoPatch({ dueDate: "", dueTime: "10:00" }, current).errors).toHaveLength(1)
+  })
+
+  it("accepts a due time when the todo keeps its date", () => {
+    expect(parseTodoPatch({ dueTime: "10:00" }, current)).toEqual({
+      value: { dueTime: "10:00" },
+      errors: [],
+    })
+    expect(parseTodoPatch({ dueTime: "" }, undated).errors).toEqual([])
+  })
+
+  it("clears the time together with the date", () => {
+    expect(parseTodoPatch({ dueDate: "" }, current).value).toEqual({ dueDate: "", dueTime: "" })
+  })
+})
@@ -0,0 +1,320 @@
+import { isValidTime } from "@/lib/dates"
+import { generateId } from "@/lib/ids"
+import { monthlyModeOptions, toTodoRecurrence } from "@/lib/recurrence"
+import { parseTodoQuery, type PostgrestFilter } from "@/lib/todoQuery"
+import type { TodoListCriteria } from "@/lib/todoList"
+import type { Priority, RecurrenceRule, Subtask, Todo, TodoDraft, TodoPatch } from "@/lib/types"
+import { ASSIGNEE_FILTERS, FILTERS, SORTS } from "@/lib/viewState"
+
+/** 검증한 값과 걸린 항목. errors 가 비어 있지 않으면 value 를 쓰지 않습니다. */
+export interface ParsedInput<T> {
+  value: T
+  errors: string[]
+}
+
+/** 목록에 포함할 할일. 기본은 보관함과 휴지통을 뺀 active 입니다. */
+export type TodoListScope = "active" | "archived" | "trash" | "all"
+
+export interface TodoListParams {
+  criteria: TodoListCriteria
+  scope: TodoListScope
+  limit: number
+  offset: number
+}
+
+const PRIORITIES: Priority[] = ["low", "medium", "high"]
+const SCOPES: TodoListScope[] = ["active", "archived", "trash", "all"]
+const FREQUENCIES: RecurrenceRule["frequency"][] = ["daily", "weekly", "monthly", "yearly"]
+const MONTHLY_MODES = monthlyModeOptions.map((option) => option.value)
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+const isValidDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+const readInteger = (value: string | null, fallback: number) =>
+  value === null || value.trim() === "" ? fallback : Number(value)
+
+export const parseTodoListParams = (params: URLSearchParams): ParsedInput<TodoListParams> => {
+  const errors: string[] = []
+  const pick = <T extends string>(name: string, allowed: T[], fallback: T): T => {
+    const value = params.get(name)
+    if (value === null || value === "") return fallback
+    if (allowed.includes(value as T)) return value as T
+    errors.push(`${name} 는 ${allowed.join(", ")} 중 하나여야 합니다.`)
+    return fallback
+  }
+
+  const query = parseTodoQuery(params.get("q") ?? "")
+  errors.push(...query.errors)
+
+  const limit = readInteger(params.get("limit"), DEFAULT_PAGE_SIZE)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    errors.push(`limit 는 1 에서 ${MAX_PAGE_SIZE} 사이의 정수여야 합니다.`)
+  }
+  const offset = readInteger(params.get("offset"), 0)
+  if (!Number.isInteger(offset) || offset < 0) {
+    errors.push("offset 은 0 이상의 정수여야 합니다.")
+  }
+
+  return {
+    value: {
+      criteria: {
+        filter: pick("filter", FILTERS, "all"),
+        categoryFilter: params.get("category") || "all",
+        listFilter: params.get("list") || "all",
+        assigneeFilter: pick("assignee", ASSIGNEE_FILTERS, "all"),
+        sortBy: pick("sort", SORTS, "date"),
+        query,
+      },
+      scope: pick("scope", SCOPES, "active"),
+      limit,
+      offset,
+    },
+    errors,
+  }
+}
+
+export const matchesScope = (todo: Todo, scope: TodoListScope) => {
+  switch (scope) {
+    case "active":
+      return !todo.deletedAt && !todo.archivedAt
+    case "archived":
+      return !todo.deletedAt && Boolean(todo.archivedAt)
+    case "trash":
+      return Boolean(todo.deletedAt)
+    case "all":
+      return true
+  }
+}
+
+/** matchesScope 와 같은 조건의 PostgREST 필터 */
+export const scopeToPostgrest = (scope: TodoListScope): PostgrestFilter[] => {
+  switch (scope) {
+    case "active":
+      return [
+        { method: "is", column: "deleted_at", value: null },
+        { method: "is", column: "archived_at", value: null },
+      ]
+    case "archived":
+      return [
+        { method: "is", column: "deleted_at", value: null },
+        { method: "isNot", column: "archived_at", value: null },
+      ]
+    case "trash":
+      return [{ method: "isNot", column: "deleted_at", value: null }]
+    case "all":
+      return []
+  }
+}
+
+const parseSubtasks = (value: unknown, errors: string[]): Subtask[] | undefined => {
+  if (!Array.isArray(value)) {
+    errors.push("subtasks 는 배열이어야 합니다.")
+    return undefined
+  }
+  const subtasks: Subtask[] = []
+  value.forEach((item, index) => {
+    const text = item && typeof item === "object" ? (item as { text?: unknown }).text : undefined
+    if (typeof text !== "string" || text.trim() === "") {
+      errors.push(`subtasks[${index}].text 가 비어 있습니다.`)
+      return
+    }
+    subtasks.push({
+      id: generateId(),
+      text: text.trim(),
+      completed: (item as { completed?: unknown }).completed === true,
+    })
+  })
+  return subtasks
+}
+
+/** 반복 규칙을 검증합니다. 잘못되었으면 errors 에 이유를 넣고 undefined 를 돌려줍니다. */
+export const parseRecurrence = (
+  value: unknown,
+  errors: string[]
+): RecurrenceRule | null | undefined => {
+  if (value === null) return null
+  if (!value || typeof value !== "object") {
+    errors.push("recurrence 는 객체나 null 이어야 합니다.")
+    return undefined
+  }
+  const rule = value as Partial<RecurrenceRule>
+  if (!FREQUENCIES.includes(rule.frequency as RecurrenceRule["frequency"])) {
+    errors.push(`recurrence.frequency 는 ${FREQUENCIES.join(", ")} 중 하나여야 합니다.`)
+    return undefined
+  }
+  const interval = rule.interval ?? 1
+  if (!Number.isInteger(interval) || interval < 1) {
+    errors.push("recurrence.interval 은 1 이상의 정수여야 합니다.")
+    return undefined
+  }
+  if (
+    rule.weekdays !== undefined &&
+    (!Array.isArray(rule.weekdays) ||
+      rule.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6))
+  ) {
+    errors.push("recurrence.weekdays 는 0(일)~6(토) 사이 정수의 배열이어야 합니다.")
+    return undefined
+  }
+  if (rule.until != null && (typeof rule.until !== "string" || !isValidDate(rule.until))) {
+    errors.push("recurrence.until 은 YYYY-MM-DD 형식이어야 합니다.")
+    return undefined
+  }
+  if (rule.monthlyMode !== undefined && !MONTHLY_MODES.includes(rule.monthlyMode)) {
+    errors.push(`recurrence.monthlyMode 는 ${MONTHLY_MODES.join(", ")} 중 하나여야 합니다.`)
+    return undefined
+  }
+  if (
+    rule.monthDay != null &&
+    (!Number.isInteger(rule.monthDay) || rule.monthDay < 1 || rule.monthDay > 31)
+  ) {
+    errors.push("recurrence.monthDay 는 1 에서 31 사이의 정수나 null 이어야 합니다.")
+    return undefined
+  }
+  if (rule.count != null && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    errors.push("recurrence.count 는 1 이상의 정수나 null 이어야 합니다.")
+    return undefined
+  }
+  return {
+    frequency: rule.frequency as RecurrenceRule["frequency"],
+    interval,
+    weekdays: rule.weekdays,
+    monthlyMode: rule.monthlyMode,
+    monthDay: rule.monthDay ?? null,
+    until: rule.until ?? null,
+    count: rule.count ?? null,
+  }
+}
+
+/**
+ * 요청 본문에서 알고 있는 필드만 골라 검증합니다. 모르는 필드는 무시합니다.
+ * archived/deleted 는 true 면 지금 시각으로 보관/휴지통에 넣고 false 면 꺼냅니다.
+ */
+export const parseTodoPatch = (
+  body: Record<string, unknown>,
+  current: Todo | null
+): ParsedInput<TodoPatch> => {
+  const errors: string[] = []
+  const patch: TodoPatch = {}
+
+  if ("text" in body) {
+    if (typeof body.text !== "string" || body.text.trim() === "") {
+      errors.push("text 는 비어 있지 않은 문자열이어야 합니다.")
+    } else {
+      patch.text = body.text.trim()
+    }
+  }
+  if ("category" in body) {
+    if (typeof body.category !== "string" || body.category.trim() === "") {
+      errors.push("category 는 비어 있지 않은 문자열이어야 합니다.")
+    } else {
+      patch.category = body.category.trim()
+    }
+  }
+  if ("priority" in body) {
+    if (!PRIORITIES.includes(body.priority as Priority)) {
+      errors.push(`priority 는 ${PRIORITIES.join(", ")} 중 하나여야 합니다.`)
+    } else {
+      patch.priority = body.priority as Priority
+    }
+  }
+  if ("dueDate" in body) {
+    const dueDate = body.dueDate ?? ""
+    if (typeof dueDate !== "string" || (dueDate !== "" && !isValidDate(dueDate))) {
+      errors.push("dueDate 는 YYYY-MM-DD 형식이거나 빈 문자열이어야 합니다.")
+    } else {
+      patch.dueDate = dueDate
+    }
+  }
+  if ("dueTime" in body) {
+    const dueTime = body.dueTime ?? ""
+    if (typeof dueTime !== "string" || (dueTime !== "" && !isValidTime(dueTime))) {
+      errors.push("dueTime 은 HH:MM(24시간) 형식이거나 빈 문자열이어야 합니다.")
+    } else {
+      patch.dueTime = dueTime
+    }
+  }
+  // 화면처럼 시각은 날짜가 있을 때만 둡니다. 날짜만 지우면 시각도 함께 지웁니다.
+  const dueDate = patch.dueDate ?? current?.dueDate ?? ""
+  if (dueDate === "" && patch.dueTime) {
+    errors.push("dueTime 은 dueDate 가 있을 때만 정할 수 있습니다.")
+  } else if (patch.dueDate === "" && !("dueTime" in body) && current?.dueTime) {
+    patch.dueTime = ""
+  }
+  if ("completed" in body) {
+    if (typeof body.completed !== "boolean") errors.push("completed 는 true 나 false 여야 합니다.")
+    else patch.completed = body.completed
+  }
+  if ("subtasks" in body) {
+    const subtasks = parseSubtasks(body.subtasks, errors)
+    if (subtasks) patch.subtasks = subtasks
+  }
+  if ("recurrence" in body) {
+    const rule = parseRecurrence(body.recurrence, errors)
+    if (rule !== undefined) patch.recurrence = toTodoRecurrence(rule, current?.recurrence ?? null)
+  }
+  if ("reminders" in body) {
+    const reminders = body.reminders
+    if (
+      !Array.isArray(reminders) ||
+      reminders.some((offset) => !Number.isInteger(offset) || offset < 0)
+    ) {
+      errors.push("reminders 는 마감 몇 분 전인지 나타내는 0 이상 정수의 배열이어야 합니다.")
+    } else {
+      patch.reminders = [...new Set(reminders as number[])].sort((a, b) => a - b)
+    }
+  }
+  // 목록 구성원인지, 그 목록을 편집할 수 있는지는 RLS 가 확인합니다.
+  for (const key of ["listId", "assigneeId"] as const) {
+    if (!(key in body)) continue
+    const value = body[key]
+    if (value !== null && (typeof value !== "string" || value.trim() === "")) {
+      errors.push(`${key} 는 id 문자열이나 null 이어야 합니다.`)
+    } else {
+      patch[key] = value
+    }
+  }
+  for (const [field, key] of [
+    ["archived", "archivedAt"],
+    ["deleted", "deletedAt"],
+  ] as const) {
+    if (!(field in body)) continue
+    if (typeof body[field] !== "boolean") {
+      errors.push(`${field} 는 true 나 false 여야 합니다.`)
+    } else {
+      patch[key] = body[field] ? (current?.[key] ?? new Date().toISOString()) : null
+    }
+  }
+
+  return { value: patch, errors }
+}
+
+/** 새 할일 본문. text 는 필수이고 나머지는 화면의 기본값을 따릅니다. */
+export const parseTodoDraft = (
+  body: Record<string, unknown>,
+  defaultCategory: string
+): ParsedInput<TodoDraft> => {
+  const { value: patch, errors } = parseTodoPatch(body, null)
+  if (!("text" in body)) errors.unshift("text 는 필수입니다.")
+  return {
+    value: {
+      text: patch.text ?? "",
+      category: patch.category ?? defaultCategory,
+      priority: patch.priority ?? "medium",
+      dueDate: patch.dueDate ?? "",
+      dueTime: patch.dueTime,
+      recurrence: patch.recurrence ?? null,
+      completed: patch.completed,
+      subtasks: patch.subtasks,
+      reminders: patch.reminders,
+      listId: patch.listId,
+      assigneeId: patch.assigneeId,
+    },
+    errors,
+  }
+}
@@ -0,0 +1,26 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { apiError, internalError, isPermissionError } from "@/lib/api/http"
+import { getSupabaseTodo } from "@/lib/repositories/supabaseTodoRepository"
+import { TodoNotFoundError } from "@/lib/todoRepository"
+
+export const todoNotFound = (id: string) => apiError("not_found", `할일을 찾을 수 없습니다: ${id}`)
+
+export const todoForbidden = (id: string) =>
+  apiError("forbidden", `이 할일을 바꿀 권한이 없습니다: ${id}`)
+
+/**
+ * 할일 쓰기가 실패했을 때의 응답. RLS 에 막혔으면 403 입니다.
+ * 바뀐 행이 없으면 다시 읽어, 보이는 할일이면 볼 수만 있는 것이므로 403, 보이지 않으면 404 입니다.
+ */
+export const todoWriteError = async (
+  client: SupabaseClient,
+  id: string,
+  error: Error,
+  message: string
+) => {
+  if (isPermissionError(error)) return todoForbidden(id)
+  if (!(error instanceof TodoNotFoundError)) return internalError(message, error)
+  const current = await getSupabaseTodo(client, id)
+  if (current.error) return internalError("할일을 불러오지 못했습니다.", current.error)
+  return current.data ? todoForbidden(id) : todoNotFound(id)
+}
@@ -0,0 +1,31 @@
+import type { RepositoryResult } from "@/lib/todoRepository"
+import type { Category, CategoryDraft, CategoryPatch } from "@/lib/types"
+
+export interface CategoryRepository {
+  /** sortOrder 오름차순으로 반환합니다. */
+  list(): Promise<RepositoryResult<Category[]>>
+  create(draft: CategoryDraft): Promise<RepositoryResult<Category>>
+  update(id: string, patch: CategoryPatch): Promise<RepositoryResult<null>>
+  remove(id: string): Promise<RepositoryResult<null>>
+}
+
+/** 카테고리가 하나도 없는 사용자에게 처음 만들어 주는 기본값입니다. */
+export const DEFAULT_CATEGORIES: Omit<CategoryDraft, "sortOrder">[] = [
+  { name: "업무", color: "#3b82f6" },
+  { name: "개인", color: "#10b981" },
+  { name: "학습", color: "#8b5cf6" },
+  { name: "기타", color: "#64748b" },
+]
+
+export const CATEGORY_COLOR_PALETTE = [
+  "#3b82f6",
+  "#10b981",
+  "#8b5cf6",
+  "#f59e0b",
+  "#ef4444",
+  "#ec4899",
+  "#14b8a6",
+  "#64748b",
+]
+
+export const FALLBACK_CATEGORY_COLOR = "#94a3b8"
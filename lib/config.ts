@@ -0,0 +1,5 @@
+export type TodoBackend = "supabase" | "local"
+
+// NEXT_PUBLIC_TODO_BACKEND=local 이면 Supabase 없이 브라우저 저장소만 사용합니다.
+export const todoBackend: TodoBackend =
+  process.env.NEXT_PUBLIC_TODO_BACKEND === "local" ? "local" : "supabase"
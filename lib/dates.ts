@@ -0,0 +1,109 @@
+const pad = (value: number) => String(value).padStart(2, "0")
+
+/** 로컬 시간 기준 YYYY-MM-DD */
+export const todayIsoDate = (now: Date = new Date()) =>
+  `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+
+/**
+ * YYYY-MM-DD 를 UTC 자정의 Date 로 읽습니다. 날짜 계산을 시간대와 무관하게
+ * 하기 위한 용도이며 화면 표시용이 아닙니다.
+ */
+export const parseIsoDate = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+export const formatIsoDate = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+
+export const addDays = (value: string, days: number) => {
+  const date = parseIsoDate(value)
+  date.setUTCDate(date.getUTCDate() + days)
+  return formatIsoDate(date)
+}
+
+export const daysInMonth = (year: number, monthIndex: number) =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate()
+
+/** 일요일로 시작하는 주의 첫날 */
+export const startOfWeek = (value: string) =>
+  addDays(value, -parseIsoDate(value).getUTCDay())
+
+/** 달을 옮긴 뒤 그 달의 1일. 달력 이동용입니다. */
+export const startOfMonth = (value: string, monthOffset = 0) => {
+  const date = parseIsoDate(value)
+  return formatIsoDate(
+    new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + monthOffset, 1))
+  )
+}
+
+/** 이 기기의 IANA 시간대 */
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+
+export const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** 고를 수 있는 시간대 목록. 목록을 주지 않는 환경에서는 지금 시간대만 돌려줍니다. */
+export const timeZoneOptions = (current: string): string[] => {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : []
+  return zones.includes(current) ? zones : [current, ...zones]
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/** HH:MM (24시간) */
+export const isValidTime = (value: string) => TIME_PATTERN.test(value)
+
+/** 어떤 시간대에서 본 날짜(YYYY-MM-DD)와 시각(HH:MM) */
+export interface ZonedDateTime {
+  date: string
+  time: string
+  timeZone: string
+}
+
+export const zonedDateTime = (timeZone: string, now: Date = new Date()): ZonedDateTime => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  )
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    timeZone,
+  }
+}
+
+const MINUTE_MS = 60 * 1000
+
+const wallClockMs = ({ date, time }: Pick<ZonedDateTime, "date" | "time">) => {
+  const [hours, minutes] = time.split(":").map(Number)
+  return parseIsoDate(date).getTime() + (hours * 60 + minutes) * MINUTE_MS
+}
+
+/**
+ * 시간대의 날짜와 시각을 실제 시각(epoch ms)으로 바꿉니다. 일광 절약 시간처럼 오프셋이
+ * 시각마다 다를 수 있어 구한 시각의 오프셋으로 한 번 더 맞춥니다.
+ */
+export const zonedInstant = (date: string, time: string, timeZone: string) => {
+  const wall = wallClockMs({ date, time })
+  const offsetAt = (instant: number) =>
+    wallClockMs(zonedDateTime(timeZone, new Date(instant))) -
+    Math.floor(instant / MINUTE_MS) * MINUTE_MS
+  const guess = wall - offsetAt(wall)
+  return wall - offsetAt(guess)
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import { zonedDateTime } from "@/lib/dates"
+import { deadlineDate, deadlineInstant, formatTodoDeadline, isOverdue } from "@/lib/deadlines"
+
+const deadline = (dueDate: string, dueTime: string, dueAt: string | null = null) => ({
+  dueDate,
+  dueTime,
+  dueAt,
+  completed: false,
+})
+
+describe("deadlineInstant", () => {
+  it("prefers the instant computed by the server", () => {
+    const todo = deadline("2026-10-20", "09:00", "2026-10-20T00:00:00+00:00")
+    expect(deadlineInstant(todo, "America/New_York")).toBe(Date.parse("2026-10-20T00:00:00Z"))
+  })
+
+  it("falls back to the given zone, ending date-only deadlines at midnight", () => {
+    expect(deadlineInstant(deadline("2026-10-20", "09:00"), "Asia/Seoul")).toBe(
+      Date.parse("2026-10-20T00:00:00Z")
+    )
+    expect(deadlineInstant(deadline("2026-10-20", ""), "Asia/Seoul")).toBe(
+      Date.parse("2026-10-20T15:00:00Z")
+    )
+    expect(deadlineInstant(deadline("", ""), "Asia/Seoul")).toBeNull()
+  })
+})
+
+describe("deadlineDate", () => {
+  it("moves timed deadlines into the viewer's zone", () => {
+    const todo = deadline("2026-10-20", "09:00", "2026-10-20T00:00:00+00:00")
+    expect(deadlineDate(todo, "Asia/Seoul")).toBe("2026-10-20")
+    expect(deadlineDate(todo, "America/New_York")).toBe("2026-10-19")
+  })
+
+  it("uses the day that ends at a date-only deadline", () => {
+    // 뉴욕에서 만든 10월 20일 마감은 서울 기준 10월 21일 오후 1시에 끝납니다.
+    const todo = deadline("2026-10-20", "", "2026-10-21T04:00:00+00:00")
+    expect(deadlineDate(todo, "America/New_York")).toBe("2026-10-20")
+    expect(deadlineDate(todo, "Asia/Seoul")).toBe("2026-10-21")
+    expect(deadlineDate(deadline("", ""), "Asia/Seoul")).toBe("")
+  })
+})
+
+describe("isOverdue", () => {
+  // 서울에서 2026-10-20 09:00 마감으로 만든 할일을 뉴욕에서 봅니다.
+  const shared = deadline("2026-10-20", "09:00", "2026-10-20T00:00:00+00:00")
+
+  it("compares the real deadline in the viewer's zone", () => {
+    const before = zonedDateTime("America/New_York", new Date("2026-10-19T23:59:00Z"))
+    const after = zonedDateTime("America/New_York", new Date("2026-10-20T00:01:00Z"))
+    expect(before.date).toBe("2026-10-19")
+    expect(isOverdue(shared, before)).toBe(false)
+    expect(isOverdue(shared, after)).toBe(true)
+  })
+
+  it("never marks completed todos or todos without a deadline", () => {
+    const now = zonedDateTime("Asia/Seoul", new Date("2026-12-01T00:00:00Z"))
+    expect(isOverdue({ ...shared, completed: true }, now)).toBe(false)
+    expect(isOverdue(deadline("", ""), now)).toBe(false)
+  })
+
+  it("treats a date-only deadline as due when the day ends", () => {
+    const todo = deadline("2026-10-20", "")
+    expect(isOverdue(todo, { date: "2026-10-20", time: "23:59", timeZone: "Asia/Seoul" })).toBe(
+      false
+    )
+    expect(isOverdue(todo, { date: "2026-10-21", time: "00:01", timeZone: "Asia/Seoul" })).toBe(
+      true
+    )
+  })
+})
+
+describe("formatTodoDeadline", () => {
+  it("shows timed deadlines in the viewer's zone", () => {
+    const todo = deadline("2026-10-20", "09:00", "2026-10-20T00:00:00+00:00")
+    expect(formatTodoDeadline(todo, "America/New_York")).toMatch(/2026.*10.*19.* 20:00$/)
+    expect(formatTodoDeadline(todo, "Asia/Seoul")).toMatch(/2026.*10.*20.* 09:00$/)
+  })
+
+  it("keeps date-only deadlines on the same date", () => {
+    const todo = deadline("2026-10-20", "", "2026-10-20T15:00:00+00:00")
+    expect(formatTodoDeadline(todo, "America/New_York")).toMatch(/2026.*10.*20/)
+  })
+})
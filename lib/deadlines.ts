@@ -0,0 +1,81 @@
+import {
+  addDays,
+  parseIsoDate,
+  zonedDateTime,
+  zonedInstant,
+  type ZonedDateTime,
+} from "@/lib/dates"
+import type { Todo } from "@/lib/types"
+
+/** 시간대를 저장하지 않은 사용자의 기준. DB 의 todo_due_at 과 같습니다. */
+export const DEFAULT_TIME_ZONE = "Asia/Seoul"
+
+type Deadline = Pick<Todo, "dueDate" | "dueTime">
+
+/**
+ * 실제 마감 시각(epoch ms). 서버가 센 dueAt 이 있으면 그것을, 없으면 dueDate/dueTime 을
+ * timeZone 으로 읽습니다. 시각이 없는 할일은 그날이 끝날 때(다음 날 0시)가 마감입니다.
+ */
+export const deadlineInstant = (todo: Deadline & Pick<Todo, "dueAt">, timeZone: string) => {
+  if (!todo.dueDate) return null
+  if (todo.dueAt) return Date.parse(todo.dueAt)
+  return todo.dueTime
+    ? zonedInstant(todo.dueDate, todo.dueTime, timeZone)
+    : zonedInstant(addDays(todo.dueDate, 1), "00:00", timeZone)
+}
+
+/**
+ * now 는 보는 사람 시간대의 지금입니다. 다른 시간대 사람이 만든 공유 할일도 dueAt 으로
+ * 같은 순간에 지난 것으로 봅니다.
+ */
+export const isOverdue = (
+  todo: Deadline & Pick<Todo, "dueAt" | "completed">,
+  now: ZonedDateTime
+) => {
+  if (todo.completed) return false
+  const deadline = deadlineInstant(todo, now.timeZone)
+  return deadline !== null && deadline < zonedInstant(now.date, now.time, now.timeZone)
+}
+
+/**
+ * 보는 사람 시간대에서 마감이 속한 날짜. isOverdue 와 같은 마감 시각을 timeZone 으로 옮깁니다.
+ * 날짜만 있는 마감은 다음 날 0시가 마감이므로 그 직전이 속한 날짜입니다. 마감이 없으면 "" 입니다.
+ */
+export const deadlineDate = (todo: Deadline & Pick<Todo, "dueAt">, timeZone: string) => {
+  const deadline = deadlineInstant(todo, timeZone)
+  if (deadline === null) return ""
+  return zonedDateTime(timeZone, new Date(todo.dueTime ? deadline : deadline - 1)).date
+}
+
+/** 마감이 빠른 순. 같은 날이면 시각이 있는 할일이 하루 종일인 할일보다 먼저입니다. */
+export const compareDeadlines = (a: Deadline, b: Deadline) => {
+  if (!a.dueDate && !b.dueDate) return 0
+  if (!a.dueDate) return 1
+  if (!b.dueDate) return -1
+  if (a.dueDate !== b.dueDate) return a.dueDate < b.dueDate ? -1 : 1
+  return (a.dueTime || "24:00").localeCompare(b.dueTime || "24:00")
+}
+
+/** 저장된 날짜를 시간대 변환 없이 그대로 보여줍니다. */
+export const formatDeadline = (dueDate: string, dueTime = "") => {
+  if (!dueDate) return "기한 없음"
+  const date = parseIsoDate(dueDate)
+  if (Number.isNaN(date.getTime())) return "기한 없음"
+  const formatted = new Intl.DateTimeFormat("ko-KR", { dateStyle: "medium", timeZone: "UTC" }).format(
+    date
+  )
+  return dueTime ? `${formatted} ${dueTime}` : formatted
+}
+
+/**
+ * 할일의 마감을 보는 사람의 시간대로 보여줍니다. 시각이 있는 마감만 dueAt 을 옮기고,
+ * 날짜만 있는 마감은 어느 시간대에서든 같은 날짜로 보여줍니다.
+ */
+export const formatTodoDeadline = (
+  todo: Deadline & Pick<Todo, "dueAt">,
+  timeZone: string
+) => {
+  if (!todo.dueTime || !todo.dueAt) return formatDeadline(todo.dueDate, todo.dueTime)
+  const local = zonedDateTime(timeZone, new Date(todo.dueAt))
+  return formatDeadline(local.date, local.time)
+}
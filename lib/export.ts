@@ -0,0 +1,243 @@
+import { addDays, todayIsoDate, zonedInstant } from "@/lib/dates"
+import { describeRecurrence } from "@/lib/recurrence"
+import type { Priority, Todo } from "@/lib/types"
+
+export type ExportFormat = "json" | "csv" | "markdown" | "ics-event" | "ics-todo"
+
+export const exportFormatOptions: {
+  value: ExportFormat
+  label: string
+  description: string
+}[] = [
+  { value: "json", label: "JSON", description: "모든 필드를 그대로 담아 다시 가져올 수 있습니다" },
+  { value: "csv", label: "CSV", description: "엑셀, 구글 시트에서 열 수 있습니다" },
+  { value: "markdown", label: "Markdown", description: "체크박스 목록으로 붙여넣을 수 있습니다" },
+  { value: "ics-event", label: "iCalendar (일정)", description: "마감일을 종일 일정으로 캘린더에 넣습니다" },
+  { value: "ics-todo", label: "iCalendar (할일)", description: "VTODO 를 지원하는 앱에 할일로 넣습니다" },
+]
+
+/** JSON 내보내기 형식. 가져오기에서 version 으로 형식을 확인합니다. */
+export interface TodoExport {
+  app: "todo-vibe"
+  version: 1
+  exportedAt: string
+  todos: Todo[]
+}
+
+export const toJson = (todos: Todo[], now = new Date()) =>
+  JSON.stringify(
+    { app: "todo-vibe", version: 1, exportedAt: now.toISOString(), todos } satisfies TodoExport,
+    null,
+    2
+  )
+
+export const CSV_COLUMNS = [
+  "id",
+  "text",
+  "category",
+  "priority",
+  "due_date",
+  "due_time",
+  "completed",
+  "subtasks",
+  "recurrence",
+  "created_at",
+  "completed_at",
+  "archived_at",
+] as const
+
+// 스프레드시트가 수식으로 읽지 않도록 =, +, -, @ 로 시작하는 값 앞에 ' 를 붙입니다.
+const escapeCsvCell = (value: string) => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/** 체크리스트는 한 칸에 줄마다 "[x] 항목" 으로 적습니다. */
+export const formatSubtasksCell = (todo: Todo) =>
+  todo.subtasks
+    .map((subtask) => `[${subtask.completed ? "x" : " "}] ${subtask.text}`)
+    .join("\n")
+
+/** 엑셀이 한글을 UTF-8 로 읽도록 BOM 을 붙이고 줄바꿈은 CRLF 를 씁니다. */
+export const toCsv = (todos: Todo[]) => {
+  const rows = todos.map((todo) => [
+    todo.id,
+    todo.text,
+    todo.category,
+    todo.priority,
+    todo.dueDate,
+    todo.dueTime,
+    todo.completed ? "true" : "false",
+    formatSubtasksCell(todo),
+    todo.recurrence ? describeRecurrence(todo.recurrence) : "",
+    todo.createdAt,
+    todo.completedAt ?? "",
+    todo.archivedAt ?? "",
+  ])
+  return `\uFEFF${[[...CSV_COLUMNS], ...rows]
+    .map((row) => row.map(escapeCsvCell).join(","))
+    .join("\r\n")}\r\n`
+}
+
+const PRIORITY_BANGS: Record<Priority, string> = { high: "!!!", medium: "!!", low: "!" }
+
+/**
+ * 빠른 추가와 같은 문법(#카테고리, !우선순위, 날짜)으로 적어서
+ * 다시 가져오거나 입력창에 붙여넣어도 같은 할일이 됩니다.
+ */
+export const toMarkdown = (todos: Todo[]) => {
+  const lines = todos.flatMap((todo) => {
+    const tokens = [
+      todo.text,
+      `#${todo.category.replace(/\s+/g, "_")}`,
+      PRIORITY_BANGS[todo.priority],
+      todo.dueDate,
+    ].filter(Boolean)
+    return [
+      `- [${todo.completed ? "x" : " "}] ${tokens.join(" ")}`,
+      ...todo.subtasks.map(
+        (subtask) => `  - [${subtask.completed ? "x" : " "}] ${subtask.text}`
+      ),
+    ]
+  })
+  return `# 할일 (${todayIsoDate()})\n\n${lines.join("\n")}\n`
+}
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+
+const encoder = new TextEncoder()
+
+// RFC 5545: 한 줄은 75 옥텟을 넘지 않게 접고, 이어지는 줄은 공백으로 시작합니다.
+const foldIcsLine = (line: string) => {
+  const parts: string[] = []
+  let current = ""
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74
+    if (size + charSize > limit) {
+      parts.push(current)
+      current = ""
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+const toIcsDate = (value: string) => value.replace(/-/g, "")
+
+const toIcsTimestamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+
+const ICS_PRIORITY: Record<Priority, number> = { high: 1, medium: 5, low: 9 }
+
+/**
+ * 마감일이 있는 할일만 담습니다. event 는 마감일 하루짜리 종일 일정(VEVENT),
+ * todo 는 마감일을 DUE 로 가진 VTODO 입니다. UID 가 할일 id 라서 다시 가져오면 갱신됩니다.
+ * 마감 시각이 있으면 timeZone 으로 읽은 UTC 시각을 넣습니다.
+ */
+export const toIcs = (
+  todos: Todo[],
+  component: "event" | "todo",
+  timeZone: string,
+  now = new Date()
+) => {
+  const stamp = toIcsTimestamp(now)
+  const items = todos
+    .filter((todo) => todo.dueDate)
+    .flatMap((todo) => {
+      const common = [
+        `UID:${todo.id}@todo-vibe`,
+        `DTSTAMP:${stamp}`,
+        `SUMMARY:${escapeIcsText(todo.text)}`,
+        `CATEGORIES:${escapeIcsText(todo.category)}`,
+        `PRIORITY:${ICS_PRIORITY[todo.priority]}`,
+      ]
+      const description = [
+        todo.subtasks.length > 0 ? formatSubtasksCell(todo) : "",
+        todo.recurrence ? `반복: ${describeRecurrence(todo.recurrence)}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+      if (description) common.push(`DESCRIPTION:${escapeIcsText(description)}`)
+      const dueAt = todo.dueTime
+        ? toIcsTimestamp(new Date(zonedInstant(todo.dueDate, todo.dueTime, timeZone)))
+        : null
+
+      return component === "event"
+        ? [
+            "BEGIN:VEVENT",
+            ...common,
+            ...(dueAt
+              ? [`DTSTART:${dueAt}`]
+              : [
+                  `DTSTART;VALUE=DATE:${toIcsDate(todo.dueDate)}`,
+                  `DTEND;VALUE=DATE:${toIcsDate(addDays(todo.dueDate, 1))}`,
+                ]),
+            "TRANSP:TRANSPARENT",
+            "END:VEVENT",
+          ]
+        : [
+            "BEGIN:VTODO",
+            ...common,
+            dueAt ? `DUE:${dueAt}` : `DUE;VALUE=DATE:${toIcsDate(todo.dueDate)}`,
+            `STATUS:${todo.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+            ...(todo.completed && todo.completedAt
+              ? [`COMPLETED:${toIcsTimestamp(new Date(todo.completedAt))}`]
+              : []),
+            "END:VTODO",
+          ]
+    })
+  return `${[
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//todo-vibe//Todo Export//KO",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...items,
+    "END:VCALENDAR",
+  ]
+    .map(foldIcsLine)
+    .join("\r\n")}\r\n`
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mime: string }> = {
+  json: { extension: "json", mime: "application/json" },
+  csv: { extension: "csv", mime: "text/csv;charset=utf-8" },
+  markdown: { extension: "md", mime: "text/markdown;charset=utf-8" },
+  "ics-event": { extension: "ics", mime: "text/calendar;charset=utf-8" },
+  "ics-todo": { extension: "ics", mime: "text/calendar;charset=utf-8" },
+}
+
+export const serializeTodos = (todos: Todo[], format: ExportFormat, timeZone: string) => {
+  switch (format) {
+    case "json":
+      return toJson(todos)
+    case "csv":
+      return toCsv(todos)
+    case "markdown":
+      return toMarkdown(todos)
+    case "ics-event":
+      return toIcs(todos, "event", timeZone)
+    case "ics-todo":
+      return toIcs(todos, "todo", timeZone)
+  }
+}
+
+/** 브라우저에서 파일로 내려받습니다. */
+export const downloadTodos = (todos: Todo[], format: ExportFormat, timeZone: string) => {
+  const { extension, mime } = FILE_TYPES[format]
+  const blob = new Blob([serializeTodos(todos, format, timeZone)], { type: mime })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `todo-vibe-${todayIsoDate()}.${extension}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import {
+  compareOrderKeys,
+  generateKeyBetween,
+  generateKeysBetween,
+} from "@/lib/fractionalIndex"
+
+const expectBetween = (key: string, a: string | null, b: string | null) => {
+  if (a !== null) expect(key > a).toBe(true)
+  if (b !== null) expect(key < b).toBe(true)
+  expect(key.endsWith("0")).toBe(false)
+}
+
+describe("generateKeyBetween", () => {
+  it("starts from the middle of the digit range", () => {
+    expect(generateKeyBetween(null, null)).toBe("V")
+  })
+
+  it("makes keys before the first and after the last key", () => {
+    expectBetween(generateKeyBetween(null, "V"), null, "V")
+    expectBetween(generateKeyBetween("V", null), "V", null)
+    // 맨 앞 자리에 더 작은 숫자가 없어도 자릿수를 늘려 앞에 넣습니다.
+    expectBetween(generateKeyBetween(null, "01"), null, "01")
+    expectBetween(generateKeyBetween("z", null), "z", null)
+  })
+
+  it("adds a digit between adjacent keys", () => {
+    expect(generateKeyBetween("a", "b")).toBe("aV")
+    expectBetween(generateKeyBetween("a", "a1"), "a", "a1")
+    expectBetween(generateKeyBetween("az", "b"), "az", "b")
+  })
+
+  it("keeps finding room when inserting at the same spot repeatedly", () => {
+    let upper = "b"
+    for (let i = 0; i < 50; i++) {
+      const key = generateKeyBetween("a", upper)
+      expectBetween(key, "a", upper)
+      upper = key
+    }
+  })
+
+  it("rejects malformed or out-of-order keys", () => {
+    expect(() => generateKeyBetween("", null)).toThrow("Invalid order key")
+    expect(() => generateKeyBetween("a0", null)).toThrow("Invalid order key")
+    expect(() => generateKeyBetween(null, "a-b")).toThrow("Invalid order key")
+    expect(() => generateKeyBetween("b", "a")).toThrow("is not before")
+    expect(() => generateKeyBetween("a", "a")).toThrow("is not before")
+  })
+})
+
+describe("generateKeysBetween", () => {
+  it("returns n ascending keys inside the bounds", () => {
+    const keys = generateKeysBetween("a", "b", 5)
+    expect(keys).toHaveLength(5)
+    expect([...keys].sort()).toEqual(keys)
+    expect(new Set(keys).size).toBe(5)
+    for (const key of keys) expectBetween(key, "a", "b")
+    expect(generateKeysBetween(null, null, 0)).toEqual([])
+  })
+})
+
+describe("compareOrderKeys", () => {
+  it("sorts by byte order and puts todos without a key last", () => {
+    expect(["b", null, "B", "a"].sort(compareOrderKeys)).toEqual(["B", "a", "b", null])
+    expect(compareOrderKeys(null, null)).toBe(0)
+  })
+})
@@ -0,0 +1,66 @@
+// 순서를 문자열 키로 표현합니다. 두 키 사이에는 언제나 새 키를 만들 수 있으므로
+// 항목 하나를 옮길 때 그 행의 키만 바꾸면 됩니다. 키는 바이트 순서로 비교해야 하며
+// (Postgres 에서는 collate "C"), 끝자리에 0 이 오지 않습니다.
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+
+const isValidKey = (key: string) =>
+  key.length > 0 &&
+  !key.endsWith(DIGITS[0]) &&
+  Array.from(key).every((char) => DIGITS.includes(char))
+
+/** a 와 b 사이의 키. a 는 빈 문자열(맨 앞), b 는 null(맨 뒤)일 수 있습니다. */
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let shared = 0
+    while ((a[shared] ?? DIGITS[0]) === b[shared]) shared++
+    if (shared > 0) {
+      return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared))
+    }
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)]
+  }
+  if (b !== null && b.length > 1) return b.slice(0, 1)
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+/**
+ * a 와 b 사이에 오는 키를 만듭니다. a 가 null 이면 b 앞, b 가 null 이면 a 뒤입니다.
+ * a < b 가 아니거나 키 형식이 잘못되었으면 예외를 던집니다.
+ */
+export const generateKeyBetween = (a: string | null, b: string | null) => {
+  if (a !== null && !isValidKey(a)) throw new Error(`Invalid order key: ${a}`)
+  if (b !== null && !isValidKey(b)) throw new Error(`Invalid order key: ${b}`)
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Order key ${a} is not before ${b}`)
+  }
+  return midpoint(a ?? "", b)
+}
+
+/** a 와 b 사이에 고르게 퍼진 키 n 개를 만듭니다. */
+export const generateKeysBetween = (
+  a: string | null,
+  b: string | null,
+  n: number
+): string[] => {
+  if (n <= 0) return []
+  if (n === 1) return [generateKeyBetween(a, b)]
+  const middle = generateKeyBetween(a, b)
+  const half = Math.floor(n / 2)
+  return [
+    ...generateKeysBetween(a, middle, half),
+    middle,
+    ...generateKeysBetween(middle, b, n - half - 1),
+  ]
+}
+
+/** 키 순서 비교. 위치가 없는 항목은 맨 뒤로 보냅니다. */
+export const compareOrderKeys = (a: string | null, b: string | null) => {
+  if (a === b) return 0
+  if (a === null) return 1
+  if (b === null) return -1
+  return a < b ? -1 : 1
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import {
+  combineEntries,
+  createdEntry,
+  deletedEntry,
+  EMPTY_HISTORY,
+  pushHistory,
+  takeRedo,
+  takeUndo,
+  updatedEntry,
+  type HistoryEntry,
+} from "@/lib/history"
+import type { Todo } from "@/lib/types"
+
+const todo: Todo = {
+  id: "todo-1",
+  text: "보고서",
+  category: "업무",
+  priority: "medium",
+  dueDate: "2026-10-20",
+  dueTime: "",
+  dueAt: null,
+  completed: false,
+  subtasks: [],
+  recurrence: null,
+  position: null,
+  createdAt: "2026-10-01T00:00:00.000Z",
+  completedAt: null,
+  archivedAt: null,
+  deletedAt: null,
+  reminders: [],
+  listId: null,
+  assigneeId: null,
+  createdBy: null,
+}
+
+const entry = (label: string): HistoryEntry => ({ label, undo: [], redo: [] })
+
+describe("history stacks", () => {
+  it("moves entries between undo and redo", () => {
+    const history = pushHistory(pushHistory(EMPTY_HISTORY, entry("a")), entry("b"))
+    const undone = takeUndo(history)
+    expect(undone?.entry.label).toBe("b")
+    expect(undone?.history).toEqual({ past: [entry("a")], future: [entry("b")] })
+
+    const redone = takeRedo(undone!.history)
+    expect(redone?.entry.label).toBe("b")
+    expect(redone?.history).toEqual(history)
+  })
+
+  it("returns null when there is nothing to undo or redo", () => {
+    expect(takeUndo(EMPTY_HISTORY)).toBeNull()
+    expect(takeRedo(EMPTY_HISTORY)).toBeNull()
+  })
+
+  it("drops the redo stack when a new entry is pushed", () => {
+    const undone = takeUndo(pushHistory(EMPTY_HISTORY, entry("a")))!.history
+    expect(pushHistory(undone, entry("b")).future).toEqual([])
+  })
+
+  it("keeps only the latest 50 entries", () => {
+    let history = EMPTY_HISTORY
+    for (let i = 0; i < 55; i++) history = pushHistory(history, entry(`${i}`))
+    expect(history.past).toHaveLength(50)
+    expect(history.past[0].label).toBe("5")
+    expect(history.past[49].label).toBe("54")
+  })
+})
+
+describe("entries", () => {
+  it("undoes an update with the fields' previous values", () => {
+    const { undo, redo } = updatedEntry("완료", [todo], { completed: true, text: "수정" })
+    expect(undo).toEqual([
+      { type: "update", id: "todo-1", patch: { completed: false, text: "보고서" } },
+    ])
+    expect(redo).toEqual([
+      { type: "update", id: "todo-1", patch: { completed: true, text: "수정" } },
+    ])
+  })
+
+  it("pairs creating and deleting with restore and remove", () => {
+    expect(createdEntry("추가", [todo]).undo).toEqual([{ type: "remove", id: "todo-1" }])
+    expect(deletedEntry("삭제", [todo]).undo).toEqual([{ type: "restore", todo }])
+  })
+
+  it("undoes combined entries in reverse order", () => {
+    const first = createdEntry("추가", [todo])
+    const second = updatedEntry("완료", [todo], { completed: true })
+    const combined = combineEntries(first, second)
+    expect(combined.label).toBe("추가")
+    expect(combined.undo).toEqual([...second.undo, ...first.undo])
+    expect(combined.redo).toEqual([...first.redo, ...second.redo])
+  })
+})
@@ -0,0 +1,76 @@
+import type { Todo, TodoPatch } from "@/lib/types"
+
+/** 되돌리기/다시 실행할 때 저장소에 적용하는 단위 작업 */
+export type TodoOperation =
+  | { type: "update"; id: string; patch: TodoPatch }
+  | { type: "remove"; id: string }
+  | { type: "restore"; todo: Todo }
+
+export interface HistoryEntry {
+  /** "할일을 삭제" 처럼 뒤에 "했습니다" 를 붙여 읽는 문구 */
+  label: string
+  /** 적힌 순서대로 적용합니다. */
+  undo: TodoOperation[]
+  redo: TodoOperation[]
+}
+
+export interface TodoHistory {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+export const EMPTY_HISTORY: TodoHistory = { past: [], future: [] }
+
+const HISTORY_LIMIT = 50
+
+/** 새 작업을 쌓으면 다시 실행할 수 있던 작업은 버립니다. */
+export const pushHistory = (history: TodoHistory, entry: HistoryEntry): TodoHistory => ({
+  past: [...history.past, entry].slice(-HISTORY_LIMIT),
+  future: [],
+})
+
+export const takeUndo = (history: TodoHistory) => {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return null
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+  }
+}
+
+export const takeRedo = (history: TodoHistory) => {
+  const [entry, ...future] = history.future
+  if (!entry) return null
+  return { entry, history: { past: [...history.past, entry], future } }
+}
+
+/** patch 가 바꾸는 필드의 지금 값. 되돌리기용 patch 가 됩니다. */
+export const previousValues = (todo: Todo, patch: TodoPatch): TodoPatch =>
+  Object.fromEntries(
+    (Object.keys(patch) as (keyof TodoPatch)[]).map((key) => [key, todo[key]])
+  ) as TodoPatch
+
+export const createdEntry = (label: string, todos: Todo[]): HistoryEntry => ({
+  label,
+  undo: todos.map((todo) => ({ type: "remove", id: todo.id })),
+  redo: todos.map((todo) => ({ type: "restore", todo })),
+})
+
+export const deletedEntry = (label: string, todos: Todo[]): HistoryEntry => ({
+  label,
+  undo: todos.map((todo) => ({ type: "restore", todo })),
+  redo: todos.map((todo) => ({ type: "remove", id: todo.id })),
+})
+
+export const updatedEntry = (label: string, todos: Todo[], patch: TodoPatch): HistoryEntry => ({
+  label,
+  undo: todos.map((todo) => ({ type: "update", id: todo.id, patch: previousValues(todo, patch) })),
+  redo: todos.map((todo) => ({ type: "update", id: todo.id, patch })),
+})
+
+/** 두 작업을 하나로 묶습니다. 되돌릴 때는 나중 작업부터 되돌립니다. */
+export const combineEntries = (first: HistoryEntry, second: HistoryEntry): HistoryEntry => ({
+  label: first.label,
+  undo: [...second.undo, ...first.undo],
+  redo: [...first.redo, ...second.redo],
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { recordsFromJson, validateImportRecords } from "@/lib/import"
+
+const context = { categories: ["업무"], existingTodos: [], createMissingCategories: false }
+
+const importJson = (todos: unknown[]) =>
+  validateImportRecords(recordsFromJson(JSON.stringify({ todos })), context)
+
+describe("JSON import recurrence", () => {
+  it("starts a new series from an exported rule", () => {
+    const [row] = importJson([
+      {
+        text: "월간 보고",
+        dueDate: "2026-10-31",
+        recurrence: {
+          frequency: "monthly",
+          interval: 1,
+          monthlyMode: "lastDay",
+          seriesId: "old",
+          occurrence: 4,
+        },
+      },
+    ])
+    expect(row.errors).toEqual([])
+    expect(row.draft.recurrence).toMatchObject({
+      frequency: "monthly",
+      monthlyMode: "lastDay",
+      occurrence: 1,
+    })
+    expect(row.draft.recurrence?.seriesId).not.toBe("old")
+  })
+
+  it("reports rules the API would reject", () => {
+    const rows = importJson([
+      { text: "a", recurrence: { frequency: "monthly", monthDay: 40 } },
+      { text: "b", recurrence: { frequency: "weekly", weekdays: [7] } },
+      { text: "c", recurrence: "weekly" },
+    ])
+    expect(rows.map((row) => row.errors.length)).toEqual([1, 1, 1])
+    expect(rows[0].errors[0]).toContain("recurrence.monthDay")
+  })
+})
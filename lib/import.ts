@@ -0,0 +1,457 @@
+import { parseRecurrence } from "@/lib/api/todoInput"
+import { isValidTime, todayIsoDate } from "@/lib/dates"
+import { parseQuickAdd } from "@/lib/quickAdd"
+import { generateId } from "@/lib/ids"
+import { toTodoRecurrence } from "@/lib/recurrence"
+import type { Priority, Subtask, Todo, TodoDraft } from "@/lib/types"
+
+export type ImportFormat = "csv" | "todoist" | "json" | "markdown"
+
+export const importFormatOptions: { value: ImportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "todoist", label: "Todoist CSV" },
+  { value: "json", label: "JSON" },
+  { value: "markdown", label: "Markdown 체크리스트" },
+]
+
+/** 파일에서 읽은 그대로의 값. 검증 전이므로 모두 문자열입니다. */
+export interface ImportRecord {
+  /** 원본 위치. CSV/Markdown 은 줄 번호, JSON 은 1부터 세는 순번 */
+  line: number
+  text: string
+  category: string
+  priority: string
+  dueDate: string
+  dueTime: string
+  completed: string
+  subtasks: Subtask[]
+  /** 검증 전의 반복 규칙. 없으면 null 입니다. */
+  recurrence: unknown
+}
+
+export type ImportField =
+  | "text"
+  | "category"
+  | "priority"
+  | "dueDate"
+  | "dueTime"
+  | "completed"
+  | "subtasks"
+
+export const importFieldOptions: { value: ImportField; label: string; required?: boolean }[] = [
+  { value: "text", label: "내용", required: true },
+  { value: "category", label: "카테고리" },
+  { value: "priority", label: "우선순위" },
+  { value: "dueDate", label: "마감일" },
+  { value: "dueTime", label: "마감 시각" },
+  { value: "completed", label: "완료 여부" },
+  { value: "subtasks", label: "체크리스트" },
+]
+
+/** 필드마다 CSV 의 몇 번째 열을 쓸지. 없으면 비워 둡니다. */
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export interface ImportRow {
+  line: number
+  draft: TodoDraft
+  /** 있으면 가져오지 않습니다. */
+  errors: string[]
+  /** 목록이나 같은 파일 안에 내용과 마감일이 같은 할일이 이미 있습니다. */
+  duplicate: boolean
+  /** 아직 없는 카테고리라서 새로 만들어야 합니다. */
+  newCategory: boolean
+}
+
+export interface ImportValidationContext {
+  categories: string[]
+  existingTodos: Todo[]
+  /** false 이면 없는 카테고리를 오류로 봅니다. */
+  createMissingCategories: boolean
+  today?: string
+}
+
+const EMPTY_RECORD: Omit<ImportRecord, "line"> = {
+  text: "",
+  category: "",
+  priority: "",
+  dueDate: "",
+  dueTime: "",
+  completed: "",
+  subtasks: [],
+  recurrence: null,
+}
+
+// ---------------------------------------------------------------------------
+// 형식 판별
+
+export const detectImportFormat = (fileName: string, content: string): ImportFormat => {
+  const lowered = fileName.toLowerCase()
+  const trimmed = content.replace(/^﻿/, "").trimStart()
+  if (lowered.endsWith(".json") || trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return "json"
+  }
+  if (lowered.endsWith(".md") || /^\s*[-*]\s+\[[ xX]\]/m.test(trimmed)) return "markdown"
+  const header = trimmed.split(/\r?\n/, 1)[0].toUpperCase()
+  if (/(^|,)"?TYPE"?(,|$)/.test(header) && /(^|,)"?CONTENT"?(,|$)/.test(header)) return "todoist"
+  return "csv"
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+/** RFC 4180 CSV. 따옴표 안의 쉼표와 줄바꿈을 지원하고 BOM 은 버립니다. */
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+  const text = content.replace(/^﻿/, "")
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""))
+}
+
+// 내보내기에서 수식 방지로 붙인 ' 를 되돌립니다.
+const unguardCell = (value: string) => (/^'[=+\-@]/.test(value) ? value.slice(1) : value)
+
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  text: ["text", "content", "title", "task", "name", "내용", "할일", "제목"],
+  category: ["category", "project", "list", "section", "카테고리", "분류"],
+  priority: ["priority", "우선순위", "중요도"],
+  dueDate: ["due_date", "duedate", "due", "date", "deadline", "마감일", "마감", "기한"],
+  dueTime: ["due_time", "duetime", "time", "마감 시각", "시각", "시간"],
+  completed: ["completed", "done", "status", "완료", "완료 여부", "상태"],
+  subtasks: ["subtasks", "checklist", "체크리스트"],
+}
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase())
+  const mapping: ColumnMapping = {}
+  ;(Object.keys(COLUMN_ALIASES) as ImportField[]).forEach((field) => {
+    const index = normalized.findIndex((header) => COLUMN_ALIASES[field].includes(header))
+    if (index >= 0) mapping[field] = index
+  })
+  return mapping
+}
+
+/** 내보내기의 체크리스트 칸("[x] 항목" 줄 목록)을 읽습니다. */
+const parseSubtasksCell = (value: string): Subtask[] =>
+  value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = /^\[([ xX])\]\s*(.*)$/.exec(line)
+      return {
+        id: generateId(),
+        text: match ? match[2] : line,
+        completed: match ? match[1].toLowerCase() === "x" : false,
+      }
+    })
+
+export const recordsFromCsv = (table: string[][], mapping: ColumnMapping): ImportRecord[] =>
+  table.slice(1).map((cells, index) => {
+    const read = (field: ImportField) => {
+      const column = mapping[field]
+      return column === undefined ? "" : unguardCell(cells[column] ?? "").trim()
+    }
+    return {
+      ...EMPTY_RECORD,
+      line: index + 2,
+      text: read("text"),
+      category: read("category"),
+      priority: read("priority"),
+      dueDate: read("dueDate"),
+      dueTime: read("dueTime"),
+      completed: read("completed"),
+      subtasks: parseSubtasksCell(read("subtasks")),
+    }
+  })
+
+// ---------------------------------------------------------------------------
+// Todoist
+
+// Todoist 는 PRIORITY 4 가 가장 높은 p1 입니다.
+const TODOIST_PRIORITIES: Record<string, Priority> = {
+  "4": "high",
+  "3": "medium",
+  "2": "low",
+  "1": "low",
+}
+
+/**
+ * Todoist 프로젝트 CSV 내보내기. section 행은 이후 할일의 카테고리가 되고,
+ * INDENT 가 2 이상인 할일은 바로 위 할일의 체크리스트 항목이 됩니다.
+ * DATE 열의 자연어("every monday", "Oct 20")는 빠른 추가 규칙으로 읽습니다.
+ */
+export const recordsFromTodoist = (table: string[][], today = todayIsoDate()): ImportRecord[] => {
+  const headers = table[0].map((header) => header.trim().toUpperCase())
+  const column = (name: string) => headers.indexOf(name)
+  const typeColumn = column("TYPE")
+  const contentColumn = column("CONTENT")
+  const priorityColumn = column("PRIORITY")
+  const indentColumn = column("INDENT")
+  const dateColumn = column("DATE")
+  const deadlineColumn = column("DEADLINE")
+
+  const records: ImportRecord[] = []
+  let section = ""
+  table.slice(1).forEach((cells, index) => {
+    const read = (at: number) => (at >= 0 ? (cells[at] ?? "").trim() : "")
+    const type = read(typeColumn).toLowerCase()
+    const content = read(contentColumn)
+    if (type === "section") {
+      section = content
+      return
+    }
+    if (type !== "task" || content === "") return
+
+    const indent = Number(read(indentColumn)) || 1
+    const parent = records[records.length - 1]
+    if (indent > 1 && parent) {
+      parent.subtasks.push({ id: generateId(), text: content, completed: false })
+      return
+    }
+
+    const schedule = parseQuickAdd(read(dateColumn), { categories: [], today })
+    const deadline = read(deadlineColumn)
+    records.push({
+      ...EMPTY_RECORD,
+      subtasks: [],
+      line: index + 2,
+      text: content,
+      category: section,
+      priority: TODOIST_PRIORITIES[read(priorityColumn)] ?? "",
+      dueDate: deadline || schedule.dueDate || read(dateColumn),
+      recurrence: schedule.recurrence ?? null,
+    })
+  })
+  return records
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+
+const readString = (value: unknown) =>
+  typeof value === "string" ? value : typeof value === "number" || typeof value === "boolean" ? String(value) : ""
+
+/** 내보내기 JSON({ todos: [...] }) 또는 할일 객체 배열을 읽습니다. */
+export const recordsFromJson = (content: string): ImportRecord[] => {
+  const parsed: unknown = JSON.parse(content.replace(/^﻿/, ""))
+  const items = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { todos?: unknown }).todos)
+      ? (parsed as { todos: unknown[] }).todos
+      : null
+  if (!items) throw new Error("할일 배열이나 todos 배열을 가진 JSON 이 아닙니다.")
+
+  return items.map((item, index) => {
+    const value = (item && typeof item === "object" ? item : {}) as Record<string, unknown>
+    const subtasks = Array.isArray(value.subtasks)
+      ? value.subtasks
+          .filter((subtask): subtask is Record<string, unknown> => Boolean(subtask) && typeof subtask === "object")
+          .map((subtask) => ({
+            id: generateId(),
+            text: readString(subtask.text),
+            completed: subtask.completed === true,
+          }))
+          .filter((subtask) => subtask.text !== "")
+      : []
+    return {
+      line: index + 1,
+      text: readString(value.text ?? value.title ?? value.content).trim(),
+      category: readString(value.category).trim(),
+      priority: readString(value.priority).trim(),
+      dueDate: readString(value.dueDate ?? value.due_date ?? value.due).trim(),
+      dueTime: readString(value.dueTime ?? value.due_time).trim(),
+      completed: readString(value.completed ?? value.done),
+      subtasks,
+      // API 와 같은 규칙으로 validateImportRecords 에서 검증합니다.
+      recurrence: value.recurrence ?? null,
+    }
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+const TASK_LINE = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/
+
+/**
+ * "- [ ] 할일" 목록을 읽습니다. 들여쓴 항목은 위 할일의 체크리스트가 되고,
+ * 제목(## 업무)은 아래 할일의 카테고리가 됩니다. 내용은 빠른 추가 문법으로 읽으므로
+ * #카테고리 !우선순위 날짜 토큰을 쓸 수 있습니다.
+ */
+export const recordsFromMarkdown = (
+  content: string,
+  categories: string[],
+  today = todayIsoDate()
+): ImportRecord[] => {
+  const records: ImportRecord[] = []
+  let heading = ""
+  content.split(/\r?\n/).forEach((line, index) => {
+    const headingMatch = /^#{2,6}\s+(.+)$/.exec(line.trim())
+    if (headingMatch) {
+      heading = headingMatch[1].trim()
+      return
+    }
+    const match = TASK_LINE.exec(line)
+    if (!match) return
+    const [, indent, mark, body] = match
+    const completed = mark.toLowerCase() === "x"
+    const parent = records[records.length - 1]
+    if (indent.length >= 2 && parent) {
+      parent.subtasks.push({ id: generateId(), text: body.trim(), completed })
+      return
+    }
+
+    // 아직 없는 #카테고리도 토큰으로 읽어서 검증 단계에서 알려줍니다.
+    const tags = Array.from(body.matchAll(/(?:^|\s)[#@](\S+)/g), (tag) => tag[1])
+    const parsed = parseQuickAdd(body, { categories: [...categories, ...tags], today })
+    records.push({
+      line: index + 1,
+      text: parsed.text,
+      category: parsed.category ?? heading,
+      priority: parsed.priority ?? "",
+      dueDate: parsed.dueDate ?? "",
+      dueTime: "",
+      completed: completed ? "true" : "false",
+      subtasks: [],
+      recurrence: parsed.recurrence ?? null,
+    })
+  })
+  return records
+}
+
+// ---------------------------------------------------------------------------
+// 검증
+
+const PRIORITY_VALUES: Record<string, Priority> = {
+  high: "high", 높음: "high", 긴급: "high", p1: "high", "!!!": "high", "3": "high",
+  medium: "medium", 보통: "medium", p2: "medium", "!!": "medium", "2": "medium",
+  low: "low", 낮음: "low", p3: "low", "!": "low", "1": "low",
+}
+
+const TRUE_VALUES = ["true", "1", "yes", "y", "x", "done", "completed", "완료", "예"]
+const FALSE_VALUES = ["", "false", "0", "no", "n", "open", "pending", "미완료", "아니오"]
+
+const normalizeDate = (value: string) => {
+  const match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(value)
+  if (!match) return null
+  const [, year, month, day] = match.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+export const duplicateKey = (text: string, dueDate: string) =>
+  `${text.trim().replace(/\s+/g, " ").toLowerCase()}|${dueDate}`
+
+/** 값을 Todo 필드로 맞추고 행마다 오류와 중복 여부를 붙입니다. */
+export const validateImportRecords = (
+  records: ImportRecord[],
+  { categories, existingTodos, createMissingCategories, today = todayIsoDate() }: ImportValidationContext
+): ImportRow[] => {
+  const seen = new Set(
+    existingTodos
+      .filter((todo) => !todo.deletedAt)
+      .map((todo) => duplicateKey(todo.text, todo.dueDate))
+  )
+  const fallbackCategory = categories[0] ?? ""
+
+  return records.map((record) => {
+    const errors: string[] = []
+    if (record.text === "") errors.push("내용이 비어 있습니다.")
+
+    // 공백이 _ 로 바뀐 내보내기 태그도 같은 카테고리로 봅니다.
+    const category =
+      record.category === ""
+        ? fallbackCategory
+        : categories.find(
+            (name) => name === record.category || name.replace(/\s+/g, "_") === record.category
+          ) ?? record.category
+    const newCategory = !categories.includes(category)
+    if (newCategory && !createMissingCategories) {
+      errors.push(`없는 카테고리입니다: ${category}`)
+    }
+
+    const priority =
+      record.priority === "" ? "medium" : PRIORITY_VALUES[record.priority.toLowerCase()]
+    if (!priority) errors.push(`알 수 없는 우선순위입니다: ${record.priority}`)
+
+    const dueDate = record.dueDate === "" ? "" : normalizeDate(record.dueDate)
+    if (dueDate === null) errors.push(`날짜 형식이 아닙니다: ${record.dueDate}`)
+
+    // 9:30 처럼 한 자리 시도 받습니다. 마감일이 없으면 시각은 버립니다.
+    const dueTime = record.dueTime === "" ? "" : record.dueTime.padStart(5, "0")
+    if (dueTime !== "" && !isValidTime(dueTime)) {
+      errors.push(`시각 형식이 아닙니다: ${record.dueTime}`)
+    }
+
+    const recurrence = parseRecurrence(record.recurrence, errors)
+
+    const completedValue = record.completed.trim().toLowerCase()
+    const completed = TRUE_VALUES.includes(completedValue)
+    if (!completed && !FALSE_VALUES.includes(completedValue)) {
+      errors.push(`완료 여부를 알 수 없습니다: ${record.completed}`)
+    }
+
+    const key = duplicateKey(record.text, dueDate ?? "")
+    const duplicate = errors.length === 0 && seen.has(key)
+    if (errors.length === 0) seen.add(key)
+
+    return {
+      line: record.line,
+      draft: {
+        text: record.text,
+        category,
+        priority: priority ?? "medium",
+        dueDate: dueDate ?? "",
+        dueTime: dueDate ? dueTime : "",
+        completed,
+        subtasks: record.subtasks,
+        recurrence: recurrence ? toTodoRecurrence(recurrence, null) : null,
+      },
+      errors,
+      duplicate,
+      newCategory,
+    }
+  })
+}
+
+/** 일정 크기로 나눠 차례로 넣을 수 있게 합니다. */
+export const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size)
+  )
+
+export const IMPORT_BATCH_SIZE = 50
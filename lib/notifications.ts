@@ -0,0 +1,51 @@
+import type { ScheduledReminder } from "@/lib/reminders"
+
+const WORKER_URL = "/sw.js"
+const PERIODIC_SYNC_TAG = "todo-reminders"
+// 주기적 백그라운드 동기화를 허락받으면 브라우저가 이 간격 근처로 서비스 워커를 깨웁니다.
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000
+
+export type NotificationSupport = "unsupported" | NotificationPermission
+
+export const notificationSupport = (): NotificationSupport =>
+  typeof window === "undefined" ||
+  !("Notification" in window) ||
+  !("serviceWorker" in navigator)
+    ? "unsupported"
+    : Notification.permission
+
+export const requestNotificationPermission = async (): Promise<NotificationSupport> => {
+  if (notificationSupport() === "unsupported") return "unsupported"
+  return Notification.requestPermission()
+}
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> }
+}
+
+/** 서비스 워커를 등록하고, 지원하는 브라우저에서는 탭이 닫혀 있어도 깨어나도록 요청합니다. */
+export const registerReminderWorker = async () => {
+  if (notificationSupport() === "unsupported") return null
+  await navigator.serviceWorker.register(WORKER_URL)
+  const registration = (await navigator.serviceWorker.ready) as PeriodicSyncRegistration
+  try {
+    await registration.periodicSync?.register(PERIODIC_SYNC_TAG, {
+      minInterval: PERIODIC_SYNC_INTERVAL_MS,
+    })
+  } catch {
+    // 설치하지 않은 앱이거나 권한이 없으면 열린 탭에서만 확인합니다.
+  }
+  return registration
+}
+
+/**
+ * 다가올 알림 목록을 서비스 워커에 넘깁니다. 서비스 워커는 받자마자 시각이 된 알림을 보여줍니다.
+ * 끌 때는 이미 등록된 서비스 워커에만 알리고 새로 등록하지 않습니다.
+ */
+export const sendReminderSchedule = async (enabled: boolean, reminders: ScheduledReminder[]) => {
+  if (notificationSupport() === "unsupported") return
+  const registration = enabled
+    ? await registerReminderWorker()
+    : await navigator.serviceWorker.getRegistration(WORKER_URL)
+  registration?.active?.postMessage({ type: "reminders:schedule", enabled, reminders })
+}
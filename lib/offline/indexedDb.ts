@@ -0,0 +1,131 @@
+// 사용자마다 따로 여는 데이터베이스. 한 브라우저를 여러 계정이 써도 캐시와 변경 큐가 섞이지 않습니다.
+const DB_NAME_PREFIX = "todo-vibe:"
+const DB_VERSION = 1
+// 사용자별로 나누기 전에 모든 계정이 함께 쓰던 데이터베이스. 누구의 것인지 알 수 없어 지웁니다.
+const LEGACY_DB_NAME = "todo-vibe"
+
+export const TODO_STORE = "todos"
+export const MUTATION_STORE = "mutations"
+
+/** 한 사용자의 IndexedDB 캐시와 변경 큐 */
+export interface OfflineDatabase {
+  getAll<T>(storeName: string): Promise<T[]>
+  get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined>
+  put<T>(storeName: string, value: T): Promise<IDBValidKey>
+  /** 여러 값을 한 트랜잭션에서 순서대로 넣습니다. */
+  putAll<T>(storeName: string, values: T[]): Promise<void>
+  remove(storeName: string, key: IDBValidKey): Promise<void>
+  /** 스토어 내용을 values 로 통째로 교체합니다. */
+  replaceAll<T>(storeName: string, values: T[]): Promise<void>
+}
+
+const databases = new Map<string, OfflineDatabase>()
+let hasDroppedLegacy = false
+
+export const isIndexedDbAvailable = () =>
+  typeof window !== "undefined" && typeof window.indexedDB !== "undefined"
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const completeTransaction = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+const dropLegacyDatabase = () => {
+  if (hasDroppedLegacy) return
+  hasDroppedLegacy = true
+  window.indexedDB.deleteDatabase(LEGACY_DB_NAME)
+}
+
+const openDb = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(name, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(TODO_STORE)) {
+        db.createObjectStore(TODO_STORE, { keyPath: "id" })
+      }
+      if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+        db.createObjectStore(MUTATION_STORE, {
+          keyPath: "seq",
+          autoIncrement: true,
+        })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const createOfflineDatabase = (name: string): OfflineDatabase => {
+  let dbPromise: Promise<IDBDatabase> | null = null
+  const connect = () => {
+    if (!dbPromise) {
+      dbPromise = openDb(name).catch((error) => {
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  return {
+    async getAll<T>(storeName: string) {
+      const db = await connect()
+      const store = db.transaction(storeName, "readonly").objectStore(storeName)
+      return promisifyRequest(store.getAll() as IDBRequest<T[]>)
+    },
+
+    async get<T>(storeName: string, key: IDBValidKey) {
+      const db = await connect()
+      const store = db.transaction(storeName, "readonly").objectStore(storeName)
+      return promisifyRequest(store.get(key) as IDBRequest<T | undefined>)
+    },
+
+    async put<T>(storeName: string, value: T) {
+      const db = await connect()
+      const store = db.transaction(storeName, "readwrite").objectStore(storeName)
+      return promisifyRequest(store.put(value))
+    },
+
+    async putAll<T>(storeName: string, values: T[]) {
+      const db = await connect()
+      const tx = db.transaction(storeName, "readwrite")
+      const store = tx.objectStore(storeName)
+      values.forEach((value) => store.put(value))
+      await completeTransaction(tx)
+    },
+
+    async remove(storeName: string, key: IDBValidKey) {
+      const db = await connect()
+      const store = db.transaction(storeName, "readwrite").objectStore(storeName)
+      await promisifyRequest(store.delete(key))
+    },
+
+    async replaceAll<T>(storeName: string, values: T[]) {
+      const db = await connect()
+      const tx = db.transaction(storeName, "readwrite")
+      const store = tx.objectStore(storeName)
+      store.clear()
+      values.forEach((value) => store.put(value))
+      await completeTransaction(tx)
+    },
+  }
+}
+
+/** userId 의 데이터베이스. 처음 부를 때 예전 공용 데이터베이스를 지웁니다. */
+export const offlineDatabaseFor = (userId: string): OfflineDatabase => {
+  dropLegacyDatabase()
+  let database = databases.get(userId)
+  if (!database) {
+    database = createOfflineDatabase(`${DB_NAME_PREFIX}${userId}`)
+    databases.set(userId, database)
+  }
+  return database
+}
@@ -0,0 +1,39 @@
+import { readStoredJson, writeStoredJson } from "@/lib/repositories/browserStorage"
+
+/**
+ * 진행률 계산 방식
+ * - todos: 할일 하나를 1개로 셉니다. 체크리스트는 반영하지 않습니다.
+ * - weighted: 할일 하나를 1개로 세되, 체크리스트가 있으면 완료 비율만큼 반영합니다.
+ * - items: 체크리스트 항목을 각각 1개로 셉니다. 체크리스트가 없는 할일은 1개입니다.
+ */
+export type ProgressMode = "todos" | "weighted" | "items"
+
+export interface TodoPreferences {
+  progressMode: ProgressMode
+  /** 체크리스트를 모두 끝내면 할일도 완료 처리합니다. */
+  autoCompleteParent: boolean
+  /** 보관한 할일도 진행률과 카테고리 현황에 셉니다. */
+  includeArchivedInStats: boolean
+}
+
+export const progressModeOptions: { value: ProgressMode; label: string }[] = [
+  { value: "todos", label: "할일 기준" },
+  { value: "weighted", label: "체크리스트 비율 반영" },
+  { value: "items", label: "체크리스트 항목 기준" },
+]
+
+const STORAGE_KEY = "todo-vibe:preferences"
+
+export const DEFAULT_PREFERENCES: TodoPreferences = {
+  progressMode: "todos",
+  autoCompleteParent: true,
+  includeArchivedInStats: false,
+}
+
+export const loadPreferences = (): TodoPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...readStoredJson<Partial<TodoPreferences>>(STORAGE_KEY),
+})
+
+export const savePreferences = (preferences: TodoPreferences) =>
+  writeStoredJson(STORAGE_KEY, preferences)
@@ -0,0 +1,42 @@
+import type { ProgressMode } from "@/lib/preferences"
+import type { Todo } from "@/lib/types"
+
+export interface ProgressCount {
+  completed: number
+  total: number
+}
+
+/** 할일 하나가 진행률에 기여하는 완료/전체 수를 계산합니다. */
+export const todoProgress = (todo: Todo, mode: ProgressMode): ProgressCount => {
+  const subtasks = todo.subtasks
+  if (mode === "todos" || subtasks.length === 0) {
+    return { completed: todo.completed ? 1 : 0, total: 1 }
+  }
+  const done = subtasks.filter((subtask) => subtask.completed).length
+  if (mode === "weighted") {
+    return { completed: todo.completed ? 1 : done / subtasks.length, total: 1 }
+  }
+  return {
+    completed: todo.completed ? subtasks.length : done,
+    total: subtasks.length,
+  }
+}
+
+export const sumProgress = (todos: Todo[], mode: ProgressMode): ProgressCount =>
+  todos.reduce<ProgressCount>(
+    (sum, todo) => {
+      const count = todoProgress(todo, mode)
+      return {
+        completed: sum.completed + count.completed,
+        total: sum.total + count.total,
+      }
+    },
+    { completed: 0, total: 0 }
+  )
+
+export const toPercentage = ({ completed, total }: ProgressCount) =>
+  total > 0 ? Math.round((completed / total) * 100) : 0
+
+/** weighted 모드에서는 소수가 나오므로 한 자리까지만 표시합니다. */
+export const formatCount = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1)
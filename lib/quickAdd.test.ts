@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { parseQuickAdd } from "@/lib/quickAdd"
+
+// 2026-10-20 은 화요일입니다.
+const context = { categories: ["업무", "개인", "학습", "기타"], today: "2026-10-20" }
+
+const parse = (input: string) => parseQuickAdd(input, context)
+
+describe("parseQuickAdd", () => {
+  it("extracts category, priority and due date tokens from the text", () => {
+    expect(parse("보고서 제출 #업무 !high 내일")).toMatchObject({
+      text: "보고서 제출",
+      category: "업무",
+      priority: "high",
+      dueDate: "2026-10-21",
+    })
+  })
+
+  it("maps english category aliases and leaves unknown categories in the text", () => {
+    expect(parse("read @study")).toMatchObject({ text: "read", category: "학습" })
+    expect(parse("read #novel")).toEqual({ text: "read #novel", tokens: [] })
+  })
+
+  it("resolves relative and absolute dates", () => {
+    expect(parse("a next friday").dueDate).toBe("2026-10-30")
+    expect(parse("a friday").dueDate).toBe("2026-10-23")
+    expect(parse("a in 2 weeks").dueDate).toBe("2026-11-03")
+    expect(parse("a 3일 후").dueDate).toBe("2026-10-23")
+    expect(parse("a 11/1").dueDate).toBe("2026-11-01")
+    expect(parse("a 1/5").dueDate).toBe("2027-01-05")
+    expect(parse("a 2026-12-24").dueDate).toBe("2026-12-24")
+    expect(parse("a 2026-02-30").dueDate).toBeUndefined()
+  })
+
+  it("keeps fractions as text", () => {
+    expect(parse("flour 1/2 cup")).toEqual({ text: "flour 1/2 cup", tokens: [] })
+    expect(parse("sugar 1 1/2")).toEqual({ text: "sugar 1 1/2", tokens: [] })
+    expect(parse("설탕 1/3 컵")).toEqual({ text: "설탕 1/3 컵", tokens: [] })
+  })
+
+  it("reads priority from repeated exclamation marks but not a lone one", () => {
+    expect(parse("fix it !!!").priority).toBe("high")
+    expect(parse("fix it !!").priority).toBe("medium")
+    expect(parse("fix it !")).toEqual({ text: "fix it !", tokens: [] })
+    expect(parse("fix it !low").priority).toBe("low")
+    expect(parse("fix it p3").priority).toBe("low")
+  })
+
+  it("only applies the first token of each kind", () => {
+    expect(parse("a 내일 모레")).toMatchObject({ text: "a 모레", dueDate: "2026-10-21" })
+  })
+
+  describe("recurrence", () => {
+    it("parses weekly, monthly and interval rules", () => {
+      expect(parse("standup every weekday").recurrence).toEqual({
+        frequency: "weekly",
+        interval: 1,
+        weekdays: [1, 2, 3, 4, 5],
+      })
+      expect(parse("rent 매월 25일").recurrence).toEqual({
+        frequency: "monthly",
+        interval: 1,
+        monthDay: 25,
+      })
+      expect(parse("backup every 3 days").recurrence).toEqual({ frequency: "daily", interval: 3 })
+    })
+
+    it("uses the nearest matching day from today as the first due date", () => {
+      expect(parse("gym every monday").dueDate).toBe("2026-10-26")
+      expect(parse("gym every tuesday").dueDate).toBe("2026-10-20")
+      expect(parse("rent every 1st").dueDate).toBe("2026-11-01")
+      expect(parse("report every last day").dueDate).toBe("2026-10-31")
+    })
+
+    it("does not skip the first occurrence when the interval is larger than one", () => {
+      expect(parse("1:1 every other monday")).toMatchObject({
+        text: "1:1",
+        dueDate: "2026-10-26",
+        recurrence: { frequency: "weekly", interval: 2, weekdays: [1] },
+      })
+      expect(parse("water plants every 3 days").dueDate).toBe("2026-10-20")
+      expect(parse("review every 2 months").dueDate).toBe("2026-10-20")
+      expect(parse("clean weekly").dueDate).toBe("2026-10-20")
+    })
+
+    it("keeps an explicit due date", () => {
+      expect(parse("gym every monday 11/2").dueDate).toBe("2026-11-02")
+    })
+  })
+})
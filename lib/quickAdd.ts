@@ -0,0 +1,334 @@
+import { addDays, daysInMonth, formatIsoDate, parseIsoDate } from "@/lib/dates"
+import { nextOccurrence } from "@/lib/recurrence"
+import type { Priority, RecurrenceRule } from "@/lib/types"
+
+export type QuickAddTokenKind = "category" | "priority" | "dueDate" | "recurrence"
+
+export interface QuickAddToken {
+  kind: QuickAddTokenKind
+  /** 입력에 적힌 원래 문자열 */
+  raw: string
+}
+
+export interface QuickAddResult {
+  /** 인식한 토큰을 뺀 할일 내용 */
+  text: string
+  category?: string
+  priority?: Priority
+  /** YYYY-MM-DD */
+  dueDate?: string
+  recurrence?: RecurrenceRule
+  tokens: QuickAddToken[]
+}
+
+export interface QuickAddContext {
+  /** 선택 가능한 카테고리 이름 */
+  categories: string[]
+  /** 상대 날짜의 기준일, YYYY-MM-DD */
+  today: string
+}
+
+type Parsed = Partial<Omit<QuickAddResult, "text" | "tokens">>
+
+interface QuickAddRule {
+  kind: QuickAddTokenKind
+  pattern: string
+  parse: (groups: string[], context: QuickAddContext) => Parsed | null
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0, 일요일: 0,
+  mon: 1, monday: 1, 월요일: 1,
+  tue: 2, tues: 2, tuesday: 2, 화요일: 2,
+  wed: 3, wednesday: 3, 수요일: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, 목요일: 4,
+  fri: 5, friday: 5, 금요일: 5,
+  sat: 6, saturday: 6, 토요일: 6,
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+}
+
+const PRIORITIES: Record<string, Priority> = {
+  high: "high", h: "high", 높음: "high", 긴급: "high", p1: "high",
+  medium: "medium", med: "medium", m: "medium", 보통: "medium", p2: "medium",
+  low: "low", l: "low", 낮음: "low", p3: "low",
+}
+
+/** 기본 카테고리의 영어 별칭 */
+const CATEGORY_ALIASES: Record<string, string> = {
+  work: "업무",
+  personal: "개인",
+  study: "학습",
+  learning: "학습",
+  etc: "기타",
+  other: "기타",
+}
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS)
+  .sort((a, b) => b.length - a.length)
+  .join("|")
+// 앞에 every/next 가 없을 때는 sun, sat 같은 일반 단어와 겹치지 않도록 전체 이름만 받습니다.
+const BARE_WEEKDAY_PATTERN = Object.keys(WEEKDAYS)
+  .filter((name) => name.endsWith("day") || name.endsWith("요일"))
+  .sort((a, b) => b.length - a.length)
+  .join("|")
+const MONTH_PATTERN = "(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*"
+const ORDINAL = "(\\d{1,2})(?:st|nd|rd|th)"
+
+const isValidDate = (year: number, monthIndex: number, day: number) =>
+  monthIndex >= 0 &&
+  monthIndex < 12 &&
+  day >= 1 &&
+  day <= daysInMonth(year, monthIndex)
+
+const toIso = (year: number, monthIndex: number, day: number) =>
+  formatIsoDate(new Date(Date.UTC(year, monthIndex, day)))
+
+/** 연도가 없는 날짜는 오늘 이후 가장 가까운 날짜로 해석합니다. */
+const upcomingMonthDay = (monthIndex: number, day: number, today: string) => {
+  const year = parseIsoDate(today).getUTCFullYear()
+  for (const candidateYear of [year, year + 1]) {
+    if (!isValidDate(candidateYear, monthIndex, day)) continue
+    const candidate = toIso(candidateYear, monthIndex, day)
+    if (candidate >= today) return candidate
+  }
+  return null
+}
+
+const weekdayOf = (date: string) => parseIsoDate(date).getUTCDay()
+
+/** 오늘을 포함해 다가오는 해당 요일 */
+const upcomingWeekday = (weekday: number, today: string) =>
+  addDays(today, (weekday - weekdayOf(today) + 7) % 7)
+
+/** 다음 주(월요일 시작) 안의 해당 요일 */
+const weekdayNextWeek = (weekday: number, today: string) => {
+  const mondayOffset = (weekdayOf(today) + 6) % 7
+  const nextMonday = addDays(today, 7 - mondayOffset)
+  return addDays(nextMonday, (weekday + 6) % 7)
+}
+
+const relativeDays = (amount: string, unit: string, today: string) => {
+  const value = Number(amount)
+  const days = /^(주|w)/i.test(unit) ? value * 7 : value
+  return { dueDate: addDays(today, days) }
+}
+
+/**
+ * 오늘을 포함해 규칙에 맞는 첫 날짜. interval 은 첫 회차 다음부터 건너뛰는 간격이므로 보지 않고,
+ * 요일이나 일자 기준이 없으면 오늘이 첫 회차입니다.
+ */
+const firstOccurrence = (rule: RecurrenceRule, today: string) => {
+  const anchored = Boolean(rule.weekdays?.length || rule.monthDay || rule.monthlyMode)
+  if (!anchored) return today
+  return nextOccurrence({ ...rule, interval: 1 }, addDays(today, -1))
+}
+
+// 분수("1/2 cup", "1 1/2 cups")를 날짜로 읽지 않도록 뒤따르는 단위를 확인합니다.
+const FRACTION_UNITS =
+  "cups?|tsp|tbsp|teaspoons?|tablespoons?|oz|ounces?|lbs?|pounds?|kg|ml|liters?|litres?|" +
+  "inch(?:es)?|ft|feet|miles?|km|hours?|hrs?|of|컵|큰술|작은술|스푼|인분|개|시간|리터|킬로"
+
+// 앞에 있는 규칙이 먼저 적용됩니다. "every monday" 가 "monday" 보다 먼저 잡히도록
+// 반복 → 여러 단어 날짜 → 한 단어 날짜 → 카테고리/우선순위 순으로 둡니다.
+const RULES: QuickAddRule[] = [
+  {
+    kind: "recurrence",
+    pattern: "every\\s+weekday|평일마다|매\\s*평일",
+    parse: () => ({
+      recurrence: { frequency: "weekly", interval: 1, weekdays: [1, 2, 3, 4, 5] },
+    }),
+  },
+  {
+    kind: "recurrence",
+    pattern: `every\\s+(other\\s+)?(${WEEKDAY_PATTERN})|매주\\s*(${WEEKDAY_PATTERN})`,
+    parse: ([other, enDay, koDay]) => ({
+      recurrence: {
+        frequency: "weekly",
+        interval: other ? 2 : 1,
+        weekdays: [WEEKDAYS[(enDay ?? koDay).toLowerCase()]],
+      },
+    }),
+  },
+  {
+    kind: "recurrence",
+    pattern: `every\\s+${ORDINAL}|(?:매월|매달)\\s*(\\d{1,2})일`,
+    parse: ([enDay, koDay]) => {
+      const monthDay = Number(enDay ?? koDay)
+      if (monthDay < 1 || monthDay > 31) return null
+      return { recurrence: { frequency: "monthly", interval: 1, monthDay } }
+    },
+  },
+  {
+    kind: "recurrence",
+    pattern: "every\\s+last\\s+business\\s+day|(?:매월|매달)\\s*마지막\\s*영업일",
+    parse: () => ({
+      recurrence: { frequency: "monthly", interval: 1, monthlyMode: "lastBusinessDay" },
+    }),
+  },
+  {
+    kind: "recurrence",
+    pattern: "every\\s+last\\s+day|(?:매월|매달)\\s*(?:말일|마지막\\s*날)",
+    parse: () => ({
+      recurrence: { frequency: "monthly", interval: 1, monthlyMode: "lastDay" },
+    }),
+  },
+  {
+    kind: "recurrence",
+    pattern:
+      "every\\s+(\\d+\\s+)?(day|week|month|year)s?|(daily|weekly|monthly|yearly)|(매일|매주|매월|매달|매년)",
+    parse: ([count, enUnit, adverb, koUnit]) => {
+      const unit = (enUnit ?? adverb ?? koUnit).toLowerCase()
+      const frequency: RecurrenceRule["frequency"] =
+        unit.startsWith("day") || unit === "daily" || unit === "매일"
+          ? "daily"
+          : unit.startsWith("week") || unit === "매주"
+            ? "weekly"
+            : unit.startsWith("month") || unit === "매월" || unit === "매달"
+              ? "monthly"
+              : "yearly"
+      return {
+        recurrence: { frequency, interval: count ? Math.max(1, Number(count)) : 1 },
+      }
+    },
+  },
+  {
+    kind: "dueDate",
+    pattern: `next\\s+(${WEEKDAY_PATTERN})|(?:다음\\s*주|담주)\\s*(${WEEKDAY_PATTERN})`,
+    parse: ([enDay, koDay], { today }) => ({
+      dueDate: weekdayNextWeek(WEEKDAYS[(enDay ?? koDay).toLowerCase()], today),
+    }),
+  },
+  {
+    kind: "dueDate",
+    pattern: `(?:this\\s+(${WEEKDAY_PATTERN})|(?:이번\\s*주\\s*)?(${BARE_WEEKDAY_PATTERN}))`,
+    parse: ([thisDay, bareDay], { today }) => ({
+      dueDate: upcomingWeekday(WEEKDAYS[(thisDay ?? bareDay).toLowerCase()], today),
+    }),
+  },
+  {
+    kind: "dueDate",
+    pattern: "in\\s+(\\d+)\\s+(days?|weeks?)|(\\d+)\\s*(일|주)\\s*(?:후|뒤)",
+    parse: ([enAmount, enUnit, koAmount, koUnit], { today }) =>
+      relativeDays(enAmount ?? koAmount, enUnit ?? koUnit, today),
+  },
+  {
+    kind: "dueDate",
+    pattern: "(오늘|today|tod|내일|tomorrow|tmrw?|모레|글피)",
+    parse: ([word], { today }) => {
+      const offsets: Record<string, number> = {
+        오늘: 0, today: 0, tod: 0,
+        내일: 1, tomorrow: 1, tmr: 1, tmrw: 1,
+        모레: 2, 글피: 3,
+      }
+      return { dueDate: addDays(today, offsets[word.toLowerCase()]) }
+    },
+  },
+  {
+    kind: "dueDate",
+    pattern: "(\\d{4})[-/.](\\d{1,2})[-/.](\\d{1,2})",
+    parse: ([year, month, day]) => {
+      const [y, m, d] = [Number(year), Number(month) - 1, Number(day)]
+      return isValidDate(y, m, d) ? { dueDate: toIso(y, m, d) } : null
+    },
+  },
+  {
+    kind: "dueDate",
+    pattern: `(?<!\\d\\s)(\\d{1,2})/(\\d{1,2})(?!\\s*(?:${FRACTION_UNITS})(?=\\s|$))|(\\d{1,2})월\\s*(\\d{1,2})일`,
+    parse: ([slashMonth, slashDay, koMonth, koDay], { today }) => {
+      const dueDate = upcomingMonthDay(
+        Number(slashMonth ?? koMonth) - 1,
+        Number(slashDay ?? koDay),
+        today
+      )
+      return dueDate ? { dueDate } : null
+    },
+  },
+  {
+    kind: "dueDate",
+    pattern: `${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?`,
+    parse: ([month, day], { today }) => {
+      const dueDate = upcomingMonthDay(MONTHS[month.toLowerCase()], Number(day), today)
+      return dueDate ? { dueDate } : null
+    },
+  },
+  {
+    kind: "category",
+    pattern: "[#@](\\S+)",
+    parse: ([name], { categories }) => {
+      const lowered = name.toLowerCase()
+      const match =
+        categories.find((category) => category.toLowerCase() === lowered) ??
+        categories.find((category) => category === CATEGORY_ALIASES[lowered])
+      return match ? { category: match } : null
+    },
+  },
+  {
+    kind: "priority",
+    pattern: "!(\\S*)|(p[123])",
+    parse: ([bang, p]) => {
+      // 느낌표만 적으면 개수로 정합니다: !!! 높음, !! 보통.
+      // 느낌표 하나는 문장 부호일 수 있어 우선순위로 보지 않습니다.
+      if (bang !== undefined && /^!*$/.test(bang)) {
+        const levels: Priority[] = ["medium", "high"]
+        const priority = levels[bang.length - 1]
+        return priority ? { priority } : null
+      }
+      const priority = PRIORITIES[(p ?? bang).toLowerCase()]
+      return priority ? { priority } : null
+    },
+  },
+]
+
+const COMPILED_RULES = RULES.map((rule) => ({
+  ...rule,
+  regex: new RegExp(`(^|\\s)(?:${rule.pattern})(?=\\s|$)`, "giu"),
+}))
+
+/**
+ * 새 할일 입력에서 카테고리(#업무, @personal), 우선순위(!high, !높음),
+ * 마감일(내일, next friday, 11/1)과 반복(every monday, 매월 1일) 토큰을 읽어냅니다.
+ * 같은 종류의 토큰이 여러 번 나오면 처음 것만 적용하고 나머지는 내용에 남깁니다.
+ */
+export const parseQuickAdd = (
+  input: string,
+  context: QuickAddContext
+): QuickAddResult => {
+  let working = input
+  const parsed: Parsed = {}
+  const tokens: QuickAddToken[] = []
+
+  for (const rule of COMPILED_RULES) {
+    rule.regex.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = rule.regex.exec(working))) {
+      const [whole, leading, ...groups] = match
+      const raw = whole.slice(leading.length)
+      const start = match.index + leading.length
+      const field = rule.kind
+      if (parsed[field] !== undefined) continue
+      const result = rule.parse(groups, context)
+      if (!result) continue
+      Object.assign(parsed, result)
+      tokens.push({ kind: rule.kind, raw })
+      // 위치가 밀리지 않도록 인식한 토큰을 같은 길이의 공백으로 지웁니다.
+      working =
+        working.slice(0, start) + " ".repeat(raw.length) + working.slice(start + raw.length)
+    }
+  }
+
+  // 반복만 있고 날짜가 없으면 오늘부터 가장 가까운 회차를 마감일로 씁니다.
+  if (parsed.recurrence && !parsed.dueDate) {
+    const first = firstOccurrence(parsed.recurrence, context.today)
+    if (first) parsed.dueDate = first
+  }
+
+  return {
+    ...parsed,
+    text: working.replace(/\s+/g, " ").trim(),
+    tokens,
+  }
+}
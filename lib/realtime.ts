@@ -0,0 +1,93 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js"
+import { mapRowToTodo } from "@/lib/repositories/supabaseTodoRepository"
+import { supabase } from "@/lib/supabaseClient"
+import type { Todo } from "@/lib/types"
+
+export type TodoChange =
+  | { type: "upsert"; todo: Todo }
+  | { type: "delete"; id: string }
+
+export type RealtimeStatus = "connecting" | "live" | "unavailable"
+
+const BROADCAST_CHANNEL_NAME = "todo-vibe:todos"
+
+/**
+ * 변경 사항을 목록에 병합합니다. 이미 있는 id 는 교체하므로 같은 변경을
+ * 여러 번(직접 응답, realtime, 다른 탭) 받아도 행이 중복되지 않습니다.
+ */
+export const applyTodoChange = (todos: Todo[], change: TodoChange): Todo[] => {
+  if (change.type === "delete") {
+    return todos.filter((todo) => todo.id !== change.id)
+  }
+  const exists = todos.some((todo) => todo.id === change.todo.id)
+  return exists
+    ? todos.map((todo) => (todo.id === change.todo.id ? change.todo : todo))
+    : [change.todo, ...todos]
+}
+
+const toTodoChange = (
+  payload: RealtimePostgresChangesPayload<Record<string, unknown>>
+): TodoChange | null => {
+  if (payload.eventType === "DELETE") {
+    const id = payload.old?.id
+    return typeof id === "string" ? { type: "delete", id } : null
+  }
+  return { type: "upsert", todo: mapRowToTodo(payload.new) }
+}
+
+/**
+ * 로그인한 사용자가 볼 수 있는 todos 테이블 변경을 구독합니다. 반환값은 구독 해제 함수입니다.
+ */
+export const subscribeToTodoChanges = ({
+  userId,
+  onChange,
+  onStatusChange,
+}: {
+  userId: string
+  onChange: (change: TodoChange) => void
+  onStatusChange?: (status: RealtimeStatus) => void
+}) => {
+  const handle = (
+    payload: RealtimePostgresChangesPayload<Record<string, unknown>>
+  ) => {
+    const change = toTodoChange(payload)
+    if (change) onChange(change)
+  }
+
+  onStatusChange?.("connecting")
+  const channel = supabase
+    .channel(`todos:${userId}`)
+    // 공유 목록의 할일은 다른 사람이 만든 행이므로 user_id 로 거르지 않습니다.
+    // RLS 로 볼 수 있는 행(내 할일과 내가 속한 목록의 할일)의 변경만 전달됩니다.
+    .on("postgres_changes", { event: "*", schema: "public", table: "todos" }, handle)
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") onStatusChange?.("live")
+      if (
+        status === "CHANNEL_ERROR" ||
+        status === "TIMED_OUT" ||
+        status === "CLOSED"
+      ) {
+        onStatusChange?.("unavailable")
+      }
+    })
+
+  return () => {
+    void supabase.removeChannel(channel)
+  }
+}
+
+/**
+ * 같은 브라우저의 다른 탭과 변경 사항을 주고받습니다. realtime 을 쓸 수 없을 때
+ * (로컬 백엔드, 연결 실패) 탭 사이의 목록을 맞추는 용도입니다.
+ */
+export const createTodoBroadcast = (onChange: (change: TodoChange) => void) => {
+  if (typeof BroadcastChannel === "undefined") {
+    return { post: (_change: TodoChange) => {}, close: () => {} }
+  }
+  const channel = new BroadcastChannel(BROADCAST_CHANNEL_NAME)
+  channel.onmessage = (event: MessageEvent<TodoChange>) => onChange(event.data)
+  return {
+    post: (change: TodoChange) => channel.postMessage(change),
+    close: () => channel.close(),
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest"
+import {
+  anchorRecurrence,
+  describeRecurrence,
+  nextOccurrence,
+  nextOccurrenceDraft,
+  toTodoRecurrence,
+} from "@/lib/recurrence"
+import type { RecurrenceRule, Todo, TodoRecurrence } from "@/lib/types"
+
+// 2026-10-20 은 화요일입니다.
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: "daily",
+  interval: 1,
+  ...overrides,
+})
+
+const series = (overrides: Partial<TodoRecurrence>): TodoRecurrence => ({
+  ...rule({}),
+  seriesId: "series",
+  occurrence: 1,
+  ...overrides,
+})
+
+const todo = (overrides: Partial<Todo>): Todo => ({
+  id: "todo-1",
+  text: "운동",
+  category: "건강",
+  priority: "medium",
+  dueDate: "2026-10-20",
+  dueTime: "07:00",
+  dueAt: null,
+  completed: true,
+  subtasks: [{ id: "s1", text: "스트레칭", completed: true }],
+  recurrence: series({}),
+  position: null,
+  createdAt: "2026-10-01T00:00:00.000Z",
+  completedAt: "2026-10-20T00:00:00.000Z",
+  archivedAt: null,
+  deletedAt: null,
+  reminders: [60],
+  listId: null,
+  assigneeId: null,
+  createdBy: null,
+  ...overrides,
+})
+
+describe("nextOccurrence", () => {
+  it("adds the interval for daily rules", () => {
+    expect(nextOccurrence(rule({ interval: 3 }), "2026-10-20")).toBe("2026-10-23")
+  })
+
+  it("moves to the next chosen weekday and skips weeks by the interval", () => {
+    const weekdays = [5, 1, 3]
+    expect(nextOccurrence(rule({ frequency: "weekly", weekdays }), "2026-10-20")).toBe(
+      "2026-10-21"
+    )
+    expect(nextOccurrence(rule({ frequency: "weekly", weekdays }), "2026-10-23")).toBe(
+      "2026-10-26"
+    )
+    expect(
+      nextOccurrence(rule({ frequency: "weekly", interval: 2, weekdays }), "2026-10-23")
+    ).toBe("2026-11-02")
+    expect(nextOccurrence(rule({ frequency: "weekly" }), "2026-10-20")).toBe("2026-10-27")
+  })
+
+  it("clamps the anchored day to short months and returns to it afterwards", () => {
+    const monthly = rule({ frequency: "monthly", monthDay: 31 })
+    expect(nextOccurrence(monthly, "2027-01-31")).toBe("2027-02-28")
+    expect(nextOccurrence(monthly, "2027-02-28")).toBe("2027-03-31")
+    expect(nextOccurrence(rule({ frequency: "monthly" }), "2026-12-15")).toBe("2027-01-15")
+  })
+
+  it("finds the last day and the last business day of the month", () => {
+    expect(nextOccurrence(rule({ frequency: "monthly", monthlyMode: "lastDay" }), "2026-10-31"))
+      .toBe("2026-11-30")
+    const business = rule({ frequency: "monthly", monthlyMode: "lastBusinessDay" })
+    // 2026-10-31 은 토요일이므로 금요일로 당깁니다.
+    expect(nextOccurrence(business, "2026-10-20")).toBe("2026-10-30")
+    expect(nextOccurrence(business, "2026-10-30")).toBe("2026-11-30")
+  })
+
+  it("keeps leap days on the last day of February", () => {
+    expect(nextOccurrence(rule({ frequency: "yearly" }), "2024-02-29")).toBe("2025-02-28")
+  })
+
+  it("stops after the end date", () => {
+    expect(nextOccurrence(rule({ until: "2026-10-21" }), "2026-10-20")).toBe("2026-10-21")
+    expect(nextOccurrence(rule({ interval: 2, until: "2026-10-21" }), "2026-10-20")).toBeNull()
+  })
+})
+
+describe("anchorRecurrence", () => {
+  it("pins monthly and yearly rules to the first due date's day", () => {
+    expect(anchorRecurrence(series({ frequency: "monthly" }), "2027-01-31").monthDay).toBe(31)
+    expect(anchorRecurrence(series({ frequency: "weekly" }), "2027-01-31").monthDay).toBe(
+      undefined
+    )
+    expect(
+      anchorRecurrence(series({ frequency: "monthly", monthDay: 15 }), "2027-01-31").monthDay
+    ).toBe(15)
+  })
+})
+
+describe("nextOccurrenceDraft", () => {
+  it("copies the todo to the next date with unchecked subtasks", () => {
+    expect(nextOccurrenceDraft(todo({}), [])).toEqual({
+      text: "운동",
+      category: "건강",
+      priority: "medium",
+      dueDate: "2026-10-21",
+      dueTime: "07:00",
+      recurrence: series({ occurrence: 2 }),
+      subtasks: [{ id: "s1", text: "스트레칭", completed: false }],
+      reminders: [60],
+      listId: null,
+      assigneeId: null,
+    })
+  })
+
+  it("counts from today when the todo has no due date", () => {
+    expect(nextOccurrenceDraft(todo({ dueDate: "" }), [], "2026-11-01")?.dueDate).toBe(
+      "2026-11-02"
+    )
+  })
+
+  it("stops when the count is used up or the next one already exists", () => {
+    expect(nextOccurrenceDraft(todo({ recurrence: series({ count: 1 }) }), [])).toBeNull()
+    const spawned = todo({ id: "todo-2", recurrence: series({ occurrence: 2 }) })
+    expect(nextOccurrenceDraft(todo({}), [spawned])).toBeNull()
+  })
+})
+
+describe("toTodoRecurrence", () => {
+  it("keeps the series of the previous rule", () => {
+    const previous = series({ seriesId: "kept", occurrence: 4 })
+    expect(toTodoRecurrence(rule({ interval: 2 }), previous)).toMatchObject({
+      interval: 2,
+      seriesId: "kept",
+      occurrence: 4,
+    })
+    expect(toTodoRecurrence(null, previous)).toBeNull()
+    expect(toTodoRecurrence(rule({}), null)?.occurrence).toBe(1)
+  })
+})
+
+describe("describeRecurrence", () => {
+  it("summarises the interval, days and end", () => {
+    expect(describeRecurrence(rule({ frequency: "weekly", interval: 2, weekdays: [5, 1] })))
+      .toBe("2주마다 월·금")
+    expect(describeRecurrence(rule({ frequency: "monthly", monthlyMode: "lastDay", count: 3 })))
+      .toBe("매월 마지막 날 3회")
+    expect(describeRecurrence(rule({ until: "2026-12-31" }))).toBe("매일 2026-12-31까지")
+  })
+})
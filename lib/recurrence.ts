@@ -0,0 +1,203 @@
+import { generateId } from "@/lib/ids"
+import { addDays, daysInMonth, formatIsoDate, parseIsoDate, todayIsoDate } from "@/lib/dates"
+import type { RecurrenceRule, Todo, TodoDraft, TodoRecurrence } from "@/lib/types"
+
+export const recurrenceFrequencyOptions: {
+  value: RecurrenceRule["frequency"]
+  label: string
+  unit: string
+}[] = [
+  { value: "daily", label: "매일", unit: "일" },
+  { value: "weekly", label: "매주", unit: "주" },
+  { value: "monthly", label: "매월", unit: "개월" },
+  { value: "yearly", label: "매년", unit: "년" },
+]
+
+export const weekdayLabels = ["일", "월", "화", "수", "목", "금", "토"]
+
+export const monthlyModeOptions: {
+  value: NonNullable<RecurrenceRule["monthlyMode"]>
+  label: string
+}[] = [
+  { value: "dayOfMonth", label: "같은 날짜" },
+  { value: "lastDay", label: "마지막 날" },
+  { value: "lastBusinessDay", label: "마지막 영업일" },
+]
+
+const monthCandidate = (
+  year: number,
+  monthIndex: number,
+  rule: RecurrenceRule,
+  anchorDay: number
+) => {
+  const lastDay = daysInMonth(year, monthIndex)
+  const mode = rule.monthlyMode ?? "dayOfMonth"
+  if (mode === "dayOfMonth") {
+    return new Date(Date.UTC(year, monthIndex, Math.min(anchorDay, lastDay)))
+  }
+  const date = new Date(Date.UTC(year, monthIndex, lastDay))
+  if (mode === "lastBusinessDay") {
+    // 토요일(6), 일요일(0)이면 금요일로 당깁니다.
+    while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+      date.setUTCDate(date.getUTCDate() - 1)
+    }
+  }
+  return date
+}
+
+const nextWeekly = (rule: RecurrenceRule, from: string) => {
+  const base = parseIsoDate(from)
+  const weekdays =
+    rule.weekdays && rule.weekdays.length > 0
+      ? [...rule.weekdays].sort((a, b) => a - b)
+      : [base.getUTCDay()]
+  const laterThisWeek = weekdays.find((day) => day > base.getUTCDay())
+  if (laterThisWeek !== undefined) {
+    return addDays(from, laterThisWeek - base.getUTCDay())
+  }
+  // 이번 주에 남은 요일이 없으면 interval 주 뒤 첫 요일로 넘어갑니다.
+  const weekStart = addDays(from, -base.getUTCDay())
+  return addDays(weekStart, rule.interval * 7 + weekdays[0])
+}
+
+const nextMonthly = (rule: RecurrenceRule, from: string) => {
+  const base = parseIsoDate(from)
+  const anchorDay = rule.monthDay ?? base.getUTCDate()
+  // 이번 달 후보가 이미 지났으면 interval 개월 뒤 후보가 다음 날짜입니다.
+  for (let step = 0; step <= 1; step++) {
+    const monthOffset = base.getUTCMonth() + step * rule.interval
+    const candidate = monthCandidate(
+      base.getUTCFullYear() + Math.floor(monthOffset / 12),
+      monthOffset % 12,
+      rule,
+      anchorDay
+    )
+    if (candidate.getTime() > base.getTime()) return formatIsoDate(candidate)
+  }
+  return null
+}
+
+const nextYearly = (rule: RecurrenceRule, from: string) => {
+  const base = parseIsoDate(from)
+  const year = base.getUTCFullYear() + rule.interval
+  const month = base.getUTCMonth()
+  const day = Math.min(rule.monthDay ?? base.getUTCDate(), daysInMonth(year, month))
+  return formatIsoDate(new Date(Date.UTC(year, month, day)))
+}
+
+/**
+ * from(YYYY-MM-DD) 이후 규칙에 맞는 첫 날짜를 돌려줍니다. 종료일을 넘으면 null 입니다.
+ * 횟수 제한(count)은 회차를 아는 호출 쪽에서 확인합니다.
+ */
+export const nextOccurrence = (rule: RecurrenceRule, from: string) => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1))
+  const normalized = { ...rule, interval }
+  const next =
+    rule.frequency === "daily"
+      ? addDays(from, interval)
+      : rule.frequency === "weekly"
+        ? nextWeekly(normalized, from)
+        : rule.frequency === "monthly"
+          ? nextMonthly(normalized, from)
+          : nextYearly(normalized, from)
+  if (!next) return null
+  if (rule.until && next > rule.until) return null
+  return next
+}
+
+/**
+ * 31일처럼 달마다 없는 날짜가 짧은 달에서 당겨진 뒤 계속 밀리지 않도록,
+ * 첫 마감일의 일자를 규칙에 고정합니다.
+ */
+export const anchorRecurrence = (
+  recurrence: TodoRecurrence,
+  dueDate: string
+): TodoRecurrence => {
+  if (recurrence.monthDay != null || !dueDate) return recurrence
+  if (recurrence.frequency !== "monthly" && recurrence.frequency !== "yearly") {
+    return recurrence
+  }
+  return { ...recurrence, monthDay: parseIsoDate(dueDate).getUTCDate() }
+}
+
+export const hasRemainingOccurrences = (recurrence: TodoRecurrence) =>
+  !recurrence.count || recurrence.occurrence < recurrence.count
+
+/**
+ * 반복 할일을 완료했을 때 만들 다음 회차. 횟수가 끝났거나 종료일을 넘었거나,
+ * todos 에 이미 뒤 회차가 있으면 null 입니다. 체크리스트는 모두 미완료로 되돌립니다.
+ */
+export const nextOccurrenceDraft = (
+  todo: Todo,
+  todos: Todo[],
+  today = todayIsoDate()
+): TodoDraft | null => {
+  if (!todo.recurrence || !hasRemainingOccurrences(todo.recurrence)) return null
+  const recurrence = anchorRecurrence(todo.recurrence, todo.dueDate)
+  const alreadySpawned = todos.some(
+    (item) =>
+      item.recurrence?.seriesId === recurrence.seriesId &&
+      item.recurrence.occurrence > recurrence.occurrence
+  )
+  if (alreadySpawned) return null
+
+  const nextDueDate = nextOccurrence(recurrence, todo.dueDate || today)
+  if (!nextDueDate) return null
+
+  return {
+    text: todo.text,
+    category: todo.category,
+    priority: todo.priority,
+    dueDate: nextDueDate,
+    dueTime: todo.dueTime,
+    recurrence: { ...recurrence, occurrence: recurrence.occurrence + 1 },
+    subtasks: todo.subtasks.map((subtask) => ({ ...subtask, completed: false })),
+    reminders: todo.reminders,
+    listId: todo.listId,
+    assigneeId: todo.assigneeId,
+  }
+}
+
+/** 폼에서 편집한 규칙에 시리즈 정보를 붙입니다. 기존 시리즈가 있으면 유지합니다. */
+export const toTodoRecurrence = (
+  rule: RecurrenceRule | null,
+  previous: TodoRecurrence | null
+): TodoRecurrence | null => {
+  if (!rule) return null
+  const { seriesId, occurrence } = previous ?? {
+    seriesId: generateId(),
+    occurrence: 1,
+  }
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    weekdays: rule.weekdays,
+    monthlyMode: rule.monthlyMode,
+    monthDay: rule.monthDay,
+    until: rule.until,
+    count: rule.count,
+    seriesId,
+    occurrence,
+  }
+}
+
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  const option = recurrenceFrequencyOptions.find((o) => o.value === rule.frequency)
+  const base =
+    rule.interval > 1 ? `${rule.interval}${option?.unit ?? ""}마다` : option?.label ?? ""
+  const detail =
+    rule.frequency === "weekly" && rule.weekdays && rule.weekdays.length > 0
+      ? [...rule.weekdays]
+          .sort((a, b) => a - b)
+          .map((day) => weekdayLabels[day])
+          .join("·")
+      : rule.frequency === "monthly" && rule.monthlyMode && rule.monthlyMode !== "dayOfMonth"
+        ? monthlyModeOptions.find((o) => o.value === rule.monthlyMode)?.label
+        : null
+  const end = rule.until
+    ? `${rule.until}까지`
+    : rule.count
+      ? `${rule.count}회`
+      : null
+  return [base, detail, end].filter(Boolean).join(" ")
+}
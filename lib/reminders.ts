@@ -0,0 +1,82 @@
+import { zonedDateTime, zonedInstant } from "@/lib/dates"
+import { deadlineInstant, formatTodoDeadline } from "@/lib/deadlines"
+import type { Todo } from "@/lib/types"
+
+/** 마감 몇 분 전에 알릴지. 할일마다 여러 개를 고를 수 있습니다. */
+export const reminderOffsetOptions: { value: number; label: string }[] = [
+  { value: 0, label: "마감 시각" },
+  { value: 60, label: "1시간 전" },
+  { value: 1440, label: "1일 전" },
+]
+
+/** 마감 시각이 없는 할일은 마감일의 이 시각을 기준으로 알립니다. 자정에 알리지 않기 위해서입니다. */
+export const DEFAULT_REMINDER_TIME = "09:00"
+
+/** 서비스 워커가 보여줄 알림 하나. key 가 같으면 한 번만 보여줍니다. */
+export interface ScheduledReminder {
+  key: string
+  /** 알림을 보여줄 시각 (epoch ms) */
+  fireAt: number
+  title: string
+  body: string
+  /** 알림을 누르면 열 주소 */
+  url: string
+}
+
+const MINUTE_MS = 60 * 1000
+
+export const describeReminderOffset = (offset: number) =>
+  reminderOffsetOptions.find((option) => option.value === offset)?.label ?? `${offset}분 전`
+
+/**
+ * 알림 시점을 셀 기준 시각 (epoch ms). 마감일이 없으면 null 입니다.
+ * 시각이 있는 마감은 다른 시간대 사람이 만든 공유 할일도 같은 순간에 알리도록 dueAt 을 씁니다.
+ */
+const reminderBase = (todo: Todo, timeZone: string) => {
+  if (!todo.dueDate) return null
+  if (todo.dueTime) return deadlineInstant(todo, timeZone)
+  return zonedInstant(todo.dueDate, DEFAULT_REMINDER_TIME, timeZone)
+}
+
+/**
+ * 아직 끝나지 않은 할일의 마감 알림. 이미 지난 알림도 포함하므로 보여줄지는 받는 쪽이 정합니다.
+ * timeZone 은 마감일과 시각을 읽을 사용자 시간대입니다.
+ */
+export const collectTodoReminders = (todos: Todo[], timeZone: string): ScheduledReminder[] =>
+  todos.flatMap((todo) => {
+    const due = reminderBase(todo, timeZone)
+    if (due === null || todo.completed || todo.archivedAt || todo.deletedAt) return []
+    return todo.reminders.map((offset) => ({
+      key: `todo:${todo.id}:${offset}:${todo.dueDate}T${todo.dueTime}`,
+      fireAt: due - offset * MINUTE_MS,
+      title: offset === 0 ? `마감: ${todo.text}` : `${describeReminderOffset(offset)} 마감: ${todo.text}`,
+      body: `${todo.category} · ${formatTodoDeadline(todo, timeZone)}`,
+      url: "/",
+    }))
+  })
+
+/**
+ * 사용자 시간대의 summaryTime(HH:MM) 에 보여줄 "오늘 마감" 요약. 오늘 마감인 할일이 없으면 null 입니다.
+ * 할일이 바뀌면 내용도 바뀌지만 key 는 날짜 단위라 하루에 한 번만 보여줍니다.
+ */
+export const dailySummaryReminder = (
+  todos: Todo[],
+  summaryTime: string,
+  timeZone: string,
+  now = new Date()
+): ScheduledReminder | null => {
+  const today = zonedDateTime(timeZone, now).date
+  const dueToday = todos.filter(
+    (todo) => todo.dueDate === today && !todo.completed && !todo.archivedAt && !todo.deletedAt
+  )
+  if (dueToday.length === 0) return null
+  const shown = dueToday.slice(0, 3).map((todo) => `· ${todo.text}`)
+  if (dueToday.length > shown.length) shown.push(`외 ${dueToday.length - shown.length}개`)
+  return {
+    key: `summary:${today}`,
+    fireAt: zonedInstant(today, summaryTime, timeZone),
+    title: `오늘 마감 ${dueToday.length}개`,
+    body: shown.join("\n"),
+    url: "/",
+  }
+}
@@ -0,0 +1,13 @@
+const canUseStorage = () =>
+  typeof window !== "undefined" && typeof window.localStorage !== "undefined"
+
+export const readStoredJson = <T>(key: string): T | null => {
+  if (!canUseStorage()) return null
+  const raw = window.localStorage.getItem(key)
+  return raw ? (JSON.parse(raw) as T) : null
+}
+
+export const writeStoredJson = (key: string, value: unknown) => {
+  if (!canUseStorage()) return
+  window.localStorage.setItem(key, JSON.stringify(value))
+}
@@ -0,0 +1,58 @@
+import type { AccessTokenRepository } from "@/lib/accessTokenRepository"
+import type { CategoryRepository } from "@/lib/categoryRepository"
+import { todoBackend } from "@/lib/config"
+import { supabase } from "@/lib/supabaseClient"
+import type { SavedViewRepository } from "@/lib/savedViewRepository"
+import type { SharedListRepository } from "@/lib/sharedListRepository"
+import type { TodoActivityRepository } from "@/lib/todoActivityRepository"
+import type { TodoRepository } from "@/lib/todoRepository"
+import type { UserSettingsRepository } from "@/lib/userSettingsRepository"
+import { createLocalCategoryRepository } from "./localCategoryRepository"
+import { createLocalSavedViewRepository } from "./localSavedViewRepository"
+import { createLocalTodoActivityRepository } from "./localTodoActivityRepository"
+import { createLocalTodoRepository } from "./localTodoRepository"
+import { createLocalUserSettingsRepository } from "./localUserSettingsRepository"
+import { createOfflineTodoRepository } from "./offlineTodoRepository"
+import { createSupabaseAccessTokenRepository } from "./supabaseAccessTokenRepository"
+import { createSupabaseCategoryRepository } from "./supabaseCategoryRepository"
+import { createSupabaseSavedViewRepository } from "./supabaseSavedViewRepository"
+import { createSupabaseSharedListRepository } from "./supabaseSharedListRepository"
+import { createSupabaseTodoActivityRepository } from "./supabaseTodoActivityRepository"
+import { createSupabaseTodoRepository } from "./supabaseTodoRepository"
+import { createSupabaseUserSettingsRepository } from "./supabaseUserSettingsRepository"
+
+export const todoRepository: TodoRepository =
+  todoBackend === "local"
+    ? createLocalTodoRepository()
+    : createOfflineTodoRepository(createSupabaseTodoRepository(), {
+        currentUserId: async () =>
+          (await supabase.auth.getSession()).data.session?.user.id ?? null,
+      })
+
+export const categoryRepository: CategoryRepository =
+  todoBackend === "local"
+    ? createLocalCategoryRepository()
+    : createSupabaseCategoryRepository()
+
+export const savedViewRepository: SavedViewRepository =
+  todoBackend === "local"
+    ? createLocalSavedViewRepository()
+    : createSupabaseSavedViewRepository()
+
+export const todoActivityRepository: TodoActivityRepository =
+  todoBackend === "local"
+    ? createLocalTodoActivityRepository()
+    : createSupabaseTodoActivityRepository()
+
+export const userSettingsRepository: UserSettingsRepository =
+  todoBackend === "local"
+    ? createLocalUserSettingsRepository()
+    : createSupabaseUserSettingsRepository()
+
+// API 는 Supabase 에서만 동작하므로 로컬 백엔드에는 토큰 저장소가 없습니다.
+export const accessTokenRepository: AccessTokenRepository | null =
+  todoBackend === "local" ? null : createSupabaseAccessTokenRepository()
+
+// 로컬 백엔드는 한 사람만 쓰므로 공유 목록이 없습니다.
+export const sharedListRepository: SharedListRepository | null =
+  todoBackend === "local" ? null : createSupabaseSharedListRepository()
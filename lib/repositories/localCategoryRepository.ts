@@ -0,0 +1,63 @@
+import type { CategoryRepository } from "@/lib/categoryRepository"
+import { generateId } from "@/lib/ids"
+import { fail, ok } from "@/lib/todoRepository"
+import type { Category, CategoryDraft, CategoryPatch } from "@/lib/types"
+import { readStoredJson, writeStoredJson } from "./browserStorage"
+
+const STORAGE_KEY = "todo-vibe:categories"
+
+export const createLocalCategoryRepository = (): CategoryRepository => {
+  let rows: Category[] | null = null
+
+  const load = () => {
+    if (!rows) rows = readStoredJson<Category[]>(STORAGE_KEY) ?? []
+    return rows
+  }
+
+  const save = (next: Category[]) => {
+    rows = next
+    writeStoredJson(STORAGE_KEY, next)
+  }
+
+  return {
+    async list() {
+      try {
+        return ok([...load()].sort((a, b) => a.sortOrder - b.sortOrder))
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async create(draft: CategoryDraft) {
+      try {
+        const current = load()
+        if (current.some((row) => row.name === draft.name)) {
+          return fail(new Error(`Category ${draft.name} already exists`))
+        }
+        const category: Category = { ...draft, id: generateId() }
+        save([...current, category])
+        return ok(category)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async update(id: string, patch: CategoryPatch) {
+      try {
+        save(load().map((row) => (row.id === id ? { ...row, ...patch } : row)))
+        return ok(null)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async remove(id: string) {
+      try {
+        save(load().filter((row) => row.id !== id))
+        return ok(null)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import { generateId } from "@/lib/ids"
+import type { SavedViewRepository } from "@/lib/savedViewRepository"
+import { fail, ok } from "@/lib/todoRepository"
+import type { SavedView } from "@/lib/types"
+import { normalizeViewState } from "@/lib/viewState"
+import { readStoredJson, writeStoredJson } from "./browserStorage"
+
+const STORAGE_KEY = "todo-vibe:saved-views"
+
+export const createLocalSavedViewRepository = (): SavedViewRepository => {
+  const load = () =>
+    (readStoredJson<SavedView[]>(STORAGE_KEY) ?? []).map((view) => ({
+      ...view,
+      state: normalizeViewState(view.state),
+    }))
+
+  return {
+    async list() {
+      try {
+        return ok(load().sort((a, b) => a.name.localeCompare(b.name)))
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async create(view: Omit<SavedView, "id">) {
+      try {
+        const saved: SavedView = { ...view, id: generateId() }
+        writeStoredJson(STORAGE_KEY, [...load(), saved])
+        return ok(saved)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async remove(id: string) {
+      try {
+        writeStoredJson(
+          STORAGE_KEY,
+          load().filter((view) => view.id !== id)
+        )
+        return ok(null)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import { diffTodoActivity } from "@/lib/activity"
+import { generateId } from "@/lib/ids"
+import type { TodoActivityRepository } from "@/lib/todoActivityRepository"
+import { fail, ok } from "@/lib/todoRepository"
+import type { Todo, TodoActivity } from "@/lib/types"
+import { readStoredJson, writeStoredJson } from "./browserStorage"
+
+const STORAGE_KEY = "todo-vibe:todo-activity"
+
+const load = () => readStoredJson<TodoActivity[]>(STORAGE_KEY) ?? []
+
+/**
+ * 로컬 할일 저장소가 할일을 바꿀 때 부릅니다. Supabase 의 log_todo_activity 트리거와 같은 기록을 남깁니다.
+ * before 가 null 이면 새로 만든 할일입니다.
+ */
+export const recordLocalActivity = (changes: { before: Todo | null; after: Todo }[]) => {
+  const changedAt = new Date().toISOString()
+  const entries = changes.flatMap(({ before, after }) =>
+    diffTodoActivity(before, after, changedAt).map((entry) => ({ ...entry, id: generateId() }))
+  )
+  if (entries.length > 0) writeStoredJson(STORAGE_KEY, [...load(), ...entries])
+}
+
+/** 할일을 완전히 지우면 기록도 함께 지웁니다 (on delete cascade 와 같습니다). */
+export const removeLocalActivity = (todoIds: string[]) => {
+  const targets = new Set(todoIds)
+  writeStoredJson(
+    STORAGE_KEY,
+    load().filter((entry) => !targets.has(entry.todoId))
+  )
+}
+
+export const createLocalTodoActivityRepository = (): TodoActivityRepository => ({
+  async list(todoId: string) {
+    try {
+      return ok(
+        load()
+          .filter((entry) => entry.todoId === todoId)
+          .sort((a, b) => b.changedAt.localeCompare(a.changedAt))
+      )
+    } catch (error) {
+      return fail(error)
+    }
+  },
+})
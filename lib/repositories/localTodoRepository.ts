@@ -0,0 +1,217 @@
+import { generateId } from "@/lib/ids"
+import { localTimeZone, zonedDateTime } from "@/lib/dates"
+import { matchesTodoQuery } from "@/lib/todoQuery"
+import {
+  applyTodoPatch,
+  fail,
+  ok,
+  toBulkResult,
+  TodoNotFoundError,
+  type TodoListOptions,
+  type TodoRepository,
+} from "@/lib/todoRepository"
+import type { Todo, TodoDraft, TodoPatch } from "@/lib/types"
+import { readStoredJson, writeStoredJson } from "./browserStorage"
+import { recordLocalActivity, removeLocalActivity } from "./localTodoActivityRepository"
+
+const STORAGE_KEY = "todo-vibe:todos"
+
+const draftToRow = (draft: TodoDraft): Todo => {
+  const now = new Date().toISOString()
+  return {
+    ...draft,
+    id: generateId(),
+    completed: draft.completed ?? false,
+    subtasks: draft.subtasks ?? [],
+    position: draft.position ?? null,
+    completedAt: draft.completed ? (draft.completedAt ?? now) : null,
+    archivedAt: null,
+    deletedAt: null,
+    reminders: draft.reminders ?? [],
+    dueTime: draft.dueTime ?? "",
+    // 로컬 저장소는 시간대를 모르므로 보는 사람의 시간대로 셉니다.
+    dueAt: null,
+    createdAt: now,
+    // 로컬 저장소는 한 사람만 쓰므로 공유 목록과 담당자가 없습니다.
+    listId: null,
+    assigneeId: null,
+    createdBy: null,
+  }
+}
+
+/**
+ * Supabase 없이 동작하는 저장소입니다. 브라우저에서는 localStorage 에 저장하고,
+ * 그 외 환경(테스트, SSR)에서는 메모리에만 보관합니다.
+ */
+export const createLocalTodoRepository = (
+  seed: Todo[] = []
+): TodoRepository => {
+  let rows: Todo[] = seed
+
+  // 다른 탭이 쓴 내용을 오래된 rows 로 덮어쓰지 않도록 작업할 때마다 저장된 값을 다시 읽습니다.
+  // localStorage 가 없거나 비어 있으면 메모리의 rows 를 그대로 씁니다.
+  const load = () => {
+    const stored = readStoredJson<Todo[]>(STORAGE_KEY)
+    if (!stored) return
+    // 체크리스트가 생기기 전에 저장된 행도 읽을 수 있도록 기본값을 채웁니다.
+    rows = stored.map((row) => ({
+      ...row,
+      subtasks: row.subtasks ?? [],
+      recurrence: row.recurrence ?? null,
+      position: row.position ?? null,
+      completedAt: row.completedAt ?? null,
+      archivedAt: row.archivedAt ?? null,
+      deletedAt: row.deletedAt ?? null,
+      reminders: row.reminders ?? [],
+      dueTime: row.dueTime ?? "",
+      dueAt: row.dueAt ?? null,
+      listId: row.listId ?? null,
+      assigneeId: row.assigneeId ?? null,
+      createdBy: row.createdBy ?? null,
+    }))
+  }
+
+  const persist = () => writeStoredJson(STORAGE_KEY, rows)
+
+  return {
+    requiresAuth: false,
+
+    async list(options?: TodoListOptions) {
+      try {
+        load()
+        const sorted = [...rows].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        const query = options?.query
+        if (!query) return ok(sorted)
+        const context = { now: options?.now ?? zonedDateTime(localTimeZone()) }
+        return ok(sorted.filter((todo) => matchesTodoQuery(todo, query, context)))
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async create(draft: TodoDraft) {
+      try {
+        load()
+        const row = draftToRow(draft)
+        rows = [...rows, row]
+        persist()
+        recordLocalActivity([{ before: null, after: row }])
+        return ok(row)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async createMany(drafts: TodoDraft[]) {
+      try {
+        load()
+        const created = drafts.map(draftToRow)
+        rows = [...rows, ...created]
+        persist()
+        recordLocalActivity(created.map((row) => ({ before: null, after: row })))
+        return ok(created)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async restore(todo: Todo) {
+      try {
+        load()
+        if (rows.some((row) => row.id === todo.id)) {
+          return fail(new Error(`Todo ${todo.id} already exists`))
+        }
+        rows = [...rows, todo]
+        persist()
+        recordLocalActivity([{ before: null, after: todo }])
+        return ok(todo)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async update(id: string, patch: TodoPatch) {
+      try {
+        load()
+        if (!rows.some((row) => row.id === id)) {
+          return fail(new TodoNotFoundError(id))
+        }
+        const changes: { before: Todo; after: Todo }[] = []
+        rows = rows.map((row) => {
+          if (row.id !== id) return row
+          const next = applyTodoPatch(row, patch)
+          changes.push({ before: row, after: next })
+          return next
+        })
+        persist()
+        recordLocalActivity(changes)
+        return ok(null)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async updateMany(ids: string[], patch: TodoPatch) {
+      try {
+        load()
+        const targets = new Set(ids)
+        const changes: { before: Todo; after: Todo }[] = []
+        rows = rows.map((row) => {
+          if (!targets.has(row.id)) return row
+          const next = applyTodoPatch(row, patch)
+          changes.push({ before: row, after: next })
+          return next
+        })
+        persist()
+        recordLocalActivity(changes)
+        return ok(toBulkResult(ids, changes.map(({ after }) => after.id)))
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async removeMany(ids: string[]) {
+      try {
+        load()
+        const targets = new Set(ids)
+        const processed = rows.filter((row) => targets.has(row.id)).map((row) => row.id)
+        rows = rows.filter((row) => !targets.has(row.id))
+        persist()
+        removeLocalActivity(processed)
+        return ok(toBulkResult(ids, processed))
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async reassignCategory(from: string, to: string) {
+      try {
+        load()
+        const changes: { before: Todo; after: Todo }[] = []
+        rows = rows.map((row) => {
+          if (row.category !== from) return row
+          const next = { ...row, category: to }
+          changes.push({ before: row, after: next })
+          return next
+        })
+        persist()
+        recordLocalActivity(changes)
+        return ok(null)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+
+    async remove(id: string) {
+      try {
+        load()
+        rows = rows.filter((row) => row.id !== id)
+        persist()
+        removeLocalActivity([id])
+        return ok(null)
+      } catch (error) {
+        return fail(error)
+      }
+    },
+  }
+}
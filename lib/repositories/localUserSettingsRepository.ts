@@ -0,0 +1,32 @@
+import { fail, ok } from "@/lib/todoRepository"
+import type { UserSettings } from "@/lib/types"
+import { DEFAULT_USER_SETTINGS, type UserSettingsRepository } from "@/lib/userSettingsRepository"
+import { readStoredJson, writeStoredJson } from "./browserStorage"
+
+const STORAGE_KEY = "todo-vibe:user-settings"
+
+// 예전에 저장한 설정에는 나중에 생긴 필드가 없으므로 기본값으로 채웁니다.
+const readSettings = () => {
+  const stored = readStoredJson<Partial<UserSettings>>(STORAGE_KEY)
+  return stored ? { ...DEFAULT_USER_SETTINGS, ...stored } : null
+}
+
+export const createLocalUserSettingsRepository = (): UserSettingsRepository => ({
+  async get() {
+    try {
+      return ok(readSettings())
+    } catch (error) {
+      return fail(error)
+    }
+  },
+
+  async save(patch: Partial<UserSettings>) {
+    try {
+      const settings = { ...(readSettings() ?? DEFAULT_USER_SETTINGS), ...patch }
+      writeStoredJson(STORAGE_KEY, settings)
+      return ok(settings)
+    } catch (error) {
+      return fail(error)
+    }
+  },
+})
@@ -0,0 +1,501 @@
+import { generateId } from "@/lib/ids"
+import {
+  MUTATION_STORE,
+  TODO_STORE,
+  isIndexedDbAvailable,
+  offlineDatabaseFor,
+  type OfflineDatabase,
+} from "@/lib/offline/indexedDb"
+import { localTimeZone, zonedDateTime } from "@/lib/dates"
+import { matchesTodoQuery } from "@/lib/todoQuery"
+import {
+  applyTodoPatch,
+  isOwnTodo,
+  ok,
+  type RepositoryResult,
+  type TodoListOptions,
+  type TodoRepository,
+  type TodoSyncState,
+} from "@/lib/todoRepository"
+import type { Todo, TodoDraft, TodoPatch } from "@/lib/types"
+
+/**
+ * 오프라인 중 쌓인 변경 사항입니다. seq 는 IndexedDB 가 발급하며 재생 순서를 결정합니다.
+ */
+export type QueuedMutation = { seq?: number; queuedAt: string } & (
+  | { type: "create"; id: string; draft: TodoDraft }
+  | { type: "update"; id: string; patch: TodoPatch }
+  | { type: "remove"; id: string }
+  | { type: "restore"; id: string; todo: Todo }
+)
+
+type CachedTodo = Todo & { sortKey: number }
+
+const LOCAL_ID_PREFIX = "local-"
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX)
+
+const createLocalId = () => `${LOCAL_ID_PREFIX}${generateId()}`
+
+const isBrowserOnline = () =>
+  typeof navigator === "undefined" ? true : navigator.onLine
+
+export const isNetworkError = (error: Error) =>
+  !isBrowserOnline() || /failed to fetch|network|fetch failed|load failed/i.test(error.message)
+
+const stripSortKey = ({ sortKey: _sortKey, ...todo }: CachedTodo): Todo => ({
+  ...todo,
+  subtasks: todo.subtasks ?? [],
+  recurrence: todo.recurrence ?? null,
+  position: todo.position ?? null,
+  // 만든 시각을 모으기 전에 캐시된 행은 서버 목록을 다시 받을 때까지 비워 둡니다.
+  createdAt: todo.createdAt ?? "",
+  completedAt: todo.completedAt ?? null,
+  archivedAt: todo.archivedAt ?? null,
+  deletedAt: todo.deletedAt ?? null,
+  reminders: todo.reminders ?? [],
+  dueTime: todo.dueTime ?? "",
+  dueAt: todo.dueAt ?? null,
+  listId: todo.listId ?? null,
+  assigneeId: todo.assigneeId ?? null,
+  createdBy: todo.createdBy ?? null,
+})
+
+// 서버 응답 없이 만든 할일. 서버에 반영되면 응답으로 덮어씁니다.
+const draftToTodo = (id: string, draft: TodoDraft): Todo => ({
+  ...draft,
+  id,
+  completed: draft.completed ?? false,
+  subtasks: draft.subtasks ?? [],
+  position: draft.position ?? null,
+  createdAt: new Date().toISOString(),
+  completedAt: draft.completed ? (draft.completedAt ?? new Date().toISOString()) : null,
+  archivedAt: null,
+  deletedAt: null,
+  reminders: draft.reminders ?? [],
+  dueTime: draft.dueTime ?? "",
+  dueAt: null,
+  listId: draft.listId ?? null,
+  assigneeId: draft.assigneeId ?? null,
+  createdBy: null,
+})
+
+/** 아직 서버에 없는 할일을 다시 만들 draft. 서버가 정하는 값(만든 사람, 만든 시각 등)은 넘기지 않습니다. */
+const todoToDraft = (todo: Todo): TodoDraft => ({
+  text: todo.text,
+  category: todo.category,
+  priority: todo.priority,
+  dueDate: todo.dueDate,
+  dueTime: todo.dueTime,
+  recurrence: todo.recurrence,
+  completed: todo.completed,
+  completedAt: todo.completedAt,
+  subtasks: todo.subtasks,
+  position: todo.position,
+  reminders: todo.reminders,
+  listId: todo.listId,
+  assigneeId: todo.assigneeId,
+})
+
+const sortCached = (rows: CachedTodo[]) =>
+  [...rows].sort((a, b) => a.sortKey - b.sortKey).map(stripSortKey)
+
+export interface OfflineTodoRepositoryOptions {
+  /** 캐시와 변경 큐를 나눌 로그인 사용자. null 이면 캐시 없이 remote 를 그대로 씁니다. */
+  currentUserId: () => Promise<string | null>
+}
+
+/**
+ * remote 저장소 앞에 IndexedDB 캐시와 변경 큐를 두는 오프라인 우선 저장소입니다.
+ *
+ * 충돌 규칙: 큐에 쌓인 변경은 연결이 돌아오면 쌓인 순서대로 서버에 다시 적용되며,
+ * 변경한 필드만 덮어쓰므로 같은 필드는 마지막으로 재생된 쓰기가 이기고 나머지 필드는
+ * 서버 값이 유지됩니다. 서버에서 이미 삭제된 할일에 대한 변경과 서버가 거부한 변경은
+ * 버리고 lastError 로 알립니다.
+ *
+ * 캐시와 큐는 사용자마다 따로 두므로 다른 계정으로 로그인하면 그 계정의 것만 보이고 재생됩니다.
+ */
+export const createOfflineTodoRepository = (
+  remote: TodoRepository,
+  { currentUserId }: OfflineTodoRepositoryOptions
+): TodoRepository => {
+  let state: TodoSyncState = {
+    isOnline: isBrowserOnline(),
+    isSyncing: false,
+    pendingIds: [],
+    lastSyncedAt: null,
+    lastError: null,
+  }
+  const listeners = new Set<(state: TodoSyncState) => void>()
+  let flushing: Promise<void> | null = null
+  let listening = false
+
+  const setState = (patch: Partial<TodoSyncState>) => {
+    state = { ...state, ...patch }
+    listeners.forEach((listener) => listener(state))
+  }
+
+  const openDatabase = async (): Promise<OfflineDatabase | null> => {
+    if (!isIndexedDbAvailable()) return null
+    const userId = await currentUserId()
+    return userId ? offlineDatabaseFor(userId) : null
+  }
+
+  const refreshPending = async (db: OfflineDatabase | null) => {
+    const queue = db ? await db.getAll<QueuedMutation>(MUTATION_STORE) : []
+    setState({ pendingIds: Array.from(new Set(queue.map((m) => m.id))) })
+    return queue
+  }
+
+  // 가져오기처럼 여러 개를 만들 때도 캐시를 한 번만 읽고 한 트랜잭션으로 씁니다.
+  // 나중에 만든 할일이 목록 위로 오도록 앞에 둡니다.
+  const cacheCreated = async (db: OfflineDatabase, ...todos: Todo[]) => {
+    if (todos.length === 0) return
+    const cached = await db.getAll<CachedTodo>(TODO_STORE)
+    const first = cached.reduce((min, row) => Math.min(min, row.sortKey), 0)
+    await db.putAll<CachedTodo>(
+      TODO_STORE,
+      todos.map((todo, index) => ({ ...todo, sortKey: first - 1 - index }))
+    )
+  }
+
+  const cacheUpdated = async (db: OfflineDatabase, id: string, patch: TodoPatch) => {
+    const current = await db.get<CachedTodo>(TODO_STORE, id)
+    if (current) await db.put<CachedTodo>(TODO_STORE, applyTodoPatch(current, patch))
+  }
+
+  // 다른 구성원이 만든 공유 목록의 할일은 서버처럼 그대로 둡니다.
+  const reassignableTodos = async (db: OfflineDatabase, from: string) => {
+    const [cached, userId] = await Promise.all([
+      db.getAll<CachedTodo>(TODO_STORE),
+      currentUserId(),
+    ])
+    return cached.filter((row) => row.category === from && isOwnTodo(row, userId))
+  }
+
+  const cacheReassigned = async (db: OfflineDatabase, from: string, to: string) => {
+    for (const todo of await reassignableTodos(db, from)) {
+      await db.put<CachedTodo>(TODO_STORE, { ...todo, category: to })
+    }
+  }
+
+  const enqueue = async (db: OfflineDatabase, mutation: QueuedMutation) => {
+    await db.put(MUTATION_STORE, mutation)
+    if (mutation.type === "create") {
+      await cacheCreated(db, draftToTodo(mutation.id, mutation.draft))
+    } else if (mutation.type === "restore") {
+      await cacheCreated(db, mutation.todo)
+    } else if (mutation.type === "update") {
+      await cacheUpdated(db, mutation.id, mutation.patch)
+    } else {
+      await db.remove(TODO_STORE, mutation.id)
+    }
+    await refreshPending(db)
+  }
+
+  // 서버에서 발급된 id 로 임시 id 를 가진 후속 변경과 캐시를 옮깁니다.
+  const remapId = async (db: OfflineDatabase, localId: string, todo: Todo) => {
+    const cached = await db.get<CachedTodo>(TODO_STORE, localId)
+    await db.remove(TODO_STORE, localId)
+    if (cached) await db.put<CachedTodo>(TODO_STORE, { ...cached, ...todo })
+    const queue = await db.getAll<QueuedMutation>(MUTATION_STORE)
+    for (const mutation of queue) {
+      if (mutation.id === localId) {
+        await db.put(MUTATION_STORE, { ...mutation, id: todo.id })
+      }
+    }
+  }
+
+  const replay = async (db: OfflineDatabase, mutation: QueuedMutation) => {
+    if (mutation.type === "create") {
+      const result = await remote.create(mutation.draft)
+      if (!result.error) await remapId(db, mutation.id, result.data)
+      return result.error
+    }
+    if (mutation.type === "restore") {
+      return (await remote.restore(mutation.todo)).error
+    }
+    if (isLocalId(mutation.id)) {
+      // 생성이 거부되어 서버에 존재하지 않는 할일입니다.
+      return new Error(`Todo ${mutation.id} was never created on the server`)
+    }
+    const result =
+      mutation.type === "update"
+        ? await remote.update(mutation.id, mutation.patch)
+        : await remote.remove(mutation.id)
+    return result.error
+  }
+
+  const flush = () => {
+    if (!isIndexedDbAvailable()) return Promise.resolve()
+    if (flushing) return flushing
+    flushing = (async () => {
+      const userId = await currentUserId()
+      const db = userId ? offlineDatabaseFor(userId) : null
+      setState({ isSyncing: true })
+      let processed = 0
+      try {
+        for (;;) {
+          if (!db) break
+          const [next] = await db.getAll<QueuedMutation>(MUTATION_STORE)
+          if (!next) break
+          // 재생 도중 다른 계정으로 바뀌면 그 계정의 세션으로 재생하지 않도록 멈춥니다.
+          if ((await currentUserId()) !== userId) break
+          const error = await replay(db, next)
+          if (error && isNetworkError(error)) break
+          if (error) setState({ lastError: error })
+          await db.remove(MUTATION_STORE, next.seq!)
+          processed++
+        }
+      } finally {
+        await refreshPending(db)
+        setState({
+          isSyncing: false,
+          lastSyncedAt: processed > 0 ? Date.now() : state.lastSyncedAt,
+        })
+        flushing = null
+      }
+    })()
+    return flushing
+  }
+
+  const listen = () => {
+    if (listening || typeof window === "undefined") return
+    listening = true
+    window.addEventListener("online", () => {
+      setState({ isOnline: true })
+      void flush()
+    })
+    window.addEventListener("offline", () => setState({ isOnline: false }))
+  }
+
+  // 큐가 비어 있고 온라인이면 바로 서버에 쓰고, 그 외에는 큐에 넣어 순서를 지킵니다.
+  const mutate = async <T>(
+    db: OfflineDatabase | null,
+    mutation: QueuedMutation,
+    attempt: () => Promise<RepositoryResult<T>>,
+    offlineData: T
+  ): Promise<RepositoryResult<T>> => {
+    if (!db) return attempt()
+    listen()
+    const queue = await db.getAll<QueuedMutation>(MUTATION_STORE)
+    if (state.isOnline && queue.length === 0) {
+      const result = await attempt()
+      if (!result.error || !isNetworkError(result.error)) return result
+    }
+    await enqueue(db, mutation)
+    return ok(offlineData)
+  }
+
+  return {
+    requiresAuth: remote.requiresAuth,
+
+    sync: {
+      getState: () => state,
+      subscribe(listener) {
+        listeners.add(listener)
+        if (isIndexedDbAvailable()) {
+          listen()
+          void openDatabase()
+            .then(refreshPending)
+            .then((queue) => {
+              if (queue.length > 0 && state.isOnline) void flush()
+            })
+        }
+        return () => {
+          listeners.delete(listener)
+        }
+      },
+      flush,
+    },
+
+    async list(options?: TodoListOptions) {
+      const db = await openDatabase()
+      if (!db) return remote.list(options)
+      listen()
+      const query = options?.query
+      if (state.isOnline) {
+        await flush()
+        const queue = await db.getAll<QueuedMutation>(MUTATION_STORE)
+        if (queue.length === 0) {
+          const result = await remote.list(options)
+          // 조건으로 거른 결과는 일부이므로 캐시를 덮어쓰지 않습니다.
+          if (!result.error && query) return result
+          if (!result.error) {
+            await db.replaceAll<CachedTodo>(
+              TODO_STORE,
+              result.data.map((todo, index) => ({ ...todo, sortKey: index }))
+            )
+            return result
+          }
+          if (!isNetworkError(result.error)) return result
+        }
+      }
+      const cached = sortCached(await db.getAll<CachedTodo>(TODO_STORE))
+      if (!query) return ok(cached)
+      const context = { now: options?.now ?? zonedDateTime(localTimeZone()) }
+      return ok(cached.filter((todo) => matchesTodoQuery(todo, query, context)))
+    },
+
+    async create(draft: TodoDraft) {
+      const db = await openDatabase()
+      const id = createLocalId()
+      const result = await mutate(
+        db,
+        { type: "create", id, draft, queuedAt: new Date().toISOString() },
+        () => remote.create(draft),
+        draftToTodo(id, draft)
+      )
+      if (!result.error && !isLocalId(result.data.id) && db) {
+        await cacheCreated(db, result.data)
+      }
+      return result
+    },
+
+    // 오프라인이거나 큐가 밀려 있으면 임시 id 로 한 건씩 큐에 넣습니다.
+    async createMany(drafts: TodoDraft[]) {
+      const db = await openDatabase()
+      if (!db) return remote.createMany(drafts)
+      listen()
+      const queue = await db.getAll<QueuedMutation>(MUTATION_STORE)
+      if (state.isOnline && queue.length === 0) {
+        const result = await remote.createMany(drafts)
+        if (!result.error || !isNetworkError(result.error)) {
+          if (!result.error) {
+            await cacheCreated(db, ...result.data)
+          }
+          return result
+        }
+      }
+      const queuedAt = new Date().toISOString()
+      const created = drafts.map((draft) => draftToTodo(createLocalId(), draft))
+      const mutations = created.map(
+        (todo, index): QueuedMutation => ({
+          type: "create",
+          id: todo.id,
+          draft: drafts[index],
+          queuedAt,
+        })
+      )
+      await db.putAll(MUTATION_STORE, mutations)
+      await cacheCreated(db, ...created)
+      await refreshPending(db)
+      return ok(created)
+    },
+
+    // 서버에 만들어진 적 없는 임시 id 의 할일은 새로 만드는 것으로 대신합니다.
+    async restore(todo: Todo) {
+      const db = await openDatabase()
+      if (isLocalId(todo.id)) {
+        const draft = todoToDraft(todo)
+        const result = await mutate(
+          db,
+          { type: "create", id: todo.id, draft, queuedAt: new Date().toISOString() },
+          () => remote.create(draft),
+          todo
+        )
+        if (!result.error && !isLocalId(result.data.id) && db) {
+          await cacheCreated(db, result.data)
+        }
+        return result
+      }
+      const result = await mutate(
+        db,
+        { type: "restore", id: todo.id, todo, queuedAt: new Date().toISOString() },
+        () => remote.restore(todo),
+        todo
+      )
+      if (!result.error && db) await cacheCreated(db, result.data)
+      return result
+    },
+
+    async update(id: string, patch: TodoPatch) {
+      const db = await openDatabase()
+      const result = await mutate(
+        db,
+        { type: "update", id, patch, queuedAt: new Date().toISOString() },
+        () => remote.update(id, patch),
+        null
+      )
+      if (!result.error && db) await cacheUpdated(db, id, patch)
+      return result
+    },
+
+    // 오프라인이거나 큐가 밀려 있으면 한 건씩 큐에 넣고 모두 성공으로 돌려줍니다.
+    async updateMany(ids: string[], patch: TodoPatch) {
+      const db = await openDatabase()
+      if (!db) return remote.updateMany(ids, patch)
+      listen()
+      const queue = await db.getAll<QueuedMutation>(MUTATION_STORE)
+      if (state.isOnline && queue.length === 0) {
+        const result = await remote.updateMany(ids, patch)
+        if (!result.error || !isNetworkError(result.error)) {
+          if (!result.error) {
+            for (const id of result.data.succeeded) await cacheUpdated(db, id, patch)
+          }
+          return result
+        }
+      }
+      for (const id of ids) {
+        await enqueue(db, { type: "update", id, patch, queuedAt: new Date().toISOString() })
+      }
+      return ok({ succeeded: ids, failed: [] })
+    },
+
+    async removeMany(ids: string[]) {
+      const db = await openDatabase()
+      if (!db) return remote.removeMany(ids)
+      listen()
+      const queue = await db.getAll<QueuedMutation>(MUTATION_STORE)
+      if (state.isOnline && queue.length === 0) {
+        const result = await remote.removeMany(ids)
+        if (!result.error || !isNetworkError(result.error)) {
+          if (!result.error) {
+            for (const id of result.data.succeeded) await db.remove(TODO_STORE, id)
+          }
+          return result
+        }
+      }
+      for (const id of ids) {
+        await enqueue(db, { type: "remove", id, queuedAt: new Date().toISOString() })
+      }
+      return ok({ succeeded: ids, failed: [] })
+    },
+
+    // 오프라인이면 캐시에서 해당 카테고리의 할일을 찾아 한 건씩 큐에 넣습니다.
+    async reassignCategory(from: string, to: string) {
+      const db = await openDatabase()
+      if (!db) return remote.reassignCategory(from, to)
+      listen()
+      const queue = await db.getAll<QueuedMutation>(MUTATION_STORE)
+      if (state.isOnline && queue.length === 0) {
+        const result = await remote.reassignCategory(from, to)
+        if (!result.error || !isNetworkError(result.error)) {
+          if (!result.error) await cacheReassigned(db, from, to)
+          return result
+        }
+      }
+      for (const todo of await reassignableTodos(db, from)) {
+        await enqueue(db, {
+          type: "update",
+          id: todo.id,
+          patch: { category: to },
+          queuedAt: new Date().toISOString(),
+        })
+      }
+      return ok(null)
+    },
+
+    async remove(id: string) {
+      const db = await openDatabase()
+      const result = await mutate(
+        db,
+        { type: "remove", id, queuedAt: new Date().toISOString() },
+        () => remote.remove(id),
+        null
+      )
+      if (!result.error && db) await db.remove(TODO_STORE, id)
+      return result
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import type { AccessTokenRepository } from "@/lib/accessTokenRepository"
+import {
+  accessTokenDisplayPrefix,
+  generateAccessToken,
+  hashAccessToken,
+} from "@/lib/accessTokens"
+import { supabase } from "@/lib/supabaseClient"
+import { fail, ok } from "@/lib/todoRepository"
+import type { AccessToken } from "@/lib/types"
+
+export const mapRowToAccessToken = (row: any): AccessToken => {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.token_prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at ?? null,
+    revokedAt: row.revoked_at ?? null,
+  }
+}
+
+// 해시와 원문은 클라이언트에서 만들고, 서버에는 해시만 보냅니다.
+export const createSupabaseAccessTokenRepository = (): AccessTokenRepository => ({
+  async list() {
+    const { data, error } = await supabase
+      .from("personal_access_tokens")
+      .select("id, name, token_prefix, created_at, last_used_at, revoked_at")
+      .order("created_at", { ascending: false })
+    if (error) return fail(error)
+    return ok((data ?? []).map(mapRowToAccessToken))
+  },
+
+  async create(name: string) {
+    try {
+      const secret = generateAccessToken()
+      const { data, error } = await supabase
+        .from("personal_access_tokens")
+        .insert({
+          name,
+          token_hash: await hashAccessToken(secret),
+          token_prefix: accessTokenDisplayPrefix(secret),
+        })
+        .select("id, name, token_prefix, created_at, last_used_at, revoked_at")
+        .single()
+      if (error) return fail(error)
+      return ok({ token: mapRowToAccessToken(data), secret })
+    } catch (error) {
+      return fail(error)
+    }
+  },
+
+  async revoke(id: string) {
+    const { error } = await supabase
+      .from("personal_access_tokens")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", id)
+    if (error) return fail(error)
+    return ok(null)
+  },
+})
@@ -0,0 +1,57 @@
+import type { CategoryRepository } from "@/lib/categoryRepository"
+import { supabase } from "@/lib/supabaseClient"
+import { fail, ok } from "@/lib/todoRepository"
+import type { Category, CategoryDraft, CategoryPatch } from "@/lib/types"
+
+export const mapRowToCategory = (row: any): Category => {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    sortOrder: row.sort_order,
+  }
+}
+
+const mapCategoryPatchToRow = (patch: CategoryPatch) => {
+  const row: Record<string, unknown> = {}
+  if (patch.name !== undefined) row.name = patch.name
+  if (patch.color !== undefined) row.color = patch.color
+  if (patch.sortOrder !== undefined) row.sort_order = patch.sortOrder
+  return row
+}
+
+export const createSupabaseCategoryRepository = (): CategoryRepository => ({
+  async list() {
+    const { data, error } = await supabase
+      .from("categories")
+      .select("*")
+      .order("sort_order", { ascending: true })
+    if (error) return fail(error)
+    return ok((data ?? []).map(mapRowToCategory))
+  },
+
+  async create(draft: CategoryDraft) {
+    const { data, error } = await supabase
+      .from("categories")
+      .insert(mapCategoryPatchToRow(draft))
+      .select("*")
+      .single()
+    if (error) return fail(error)
+    return ok(mapRowToCategory(data))
+  },
+
+  async update(id: string, patch: CategoryPatch) {
+    const { error } = await supabase
+      .from("categories")
+      .update(mapCategoryPatchToRow(patch))
+      .eq("id", id)
+    if (error) return fail(error)
+    return ok(null)
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase.from("categories").delete().eq("id", id)
+    if (error) return fail(error)
+    return ok(null)
+  },
+})
@@ -0,0 +1,40 @@
+import type { SavedViewRepository } from "@/lib/savedViewRepository"
+import { supabase } from "@/lib/supabaseClient"
+import { fail, ok } from "@/lib/todoRepository"
+import type { SavedView } from "@/lib/types"
+import { normalizeViewState } from "@/lib/viewState"
+
+export const mapRowToSavedView = (row: any): SavedView => {
+  return {
+    id: row.id,
+    name: row.name,
+    state: normalizeViewState(row.state ?? {}),
+  }
+}
+
+export const createSupabaseSavedViewRepository = (): SavedViewRepository => ({
+  async list() {
+    const { data, error } = await supabase
+      .from("saved_views")
+      .select("*")
+      .order("name", { ascending: true })
+    if (error) return fail(error)
+    return ok((data ?? []).map(mapRowToSavedView))
+  },
+
+  async create(view: Omit<SavedView, "id">) {
+    const { data, error } = await supabase
+      .from("saved_views")
+      .insert({ name: view.name, state: view.state })
+      .select("*")
+      .single()
+    if (error) return fail(error)
+    return ok(mapRowToSavedView(data))
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase.from("saved_views").delete().eq("id", id)
+    if (error) return fail(error)
+    return ok(null)
+  },
+})
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabaseClient"
+import type { SharedListRepository } from "@/lib/sharedListRepository"
+import { fail, ok } from "@/lib/todoRepository"
+import type { ListInvitation, ListMember, ListRole, SharedList } from "@/lib/types"
+
+const ROLE_ORDER: Record<ListRole, number> = { owner: 0, editor: 1, viewer: 2 }
+
+export const mapRowToListInvitation = (row: any): ListInvitation => ({
+  id: row.id,
+  listId: row.list_id,
+  listName: row.list_name ?? "",
+  email: row.email,
+  role: row.role,
+  createdAt: row.created_at,
+})
+
+const mapRowToListMember = (row: any): ListMember => ({
+  userId: row.user_id,
+  email: row.email,
+  role: row.role as ListRole,
+})
+
+const mapRowToSharedList = (row: any, userId: string | null): SharedList => {
+  const members = ((row.list_members ?? []) as any[])
+    .map(mapRowToListMember)
+    .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.email.localeCompare(b.email))
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    role: members.find((member) => member.userId === userId)?.role ?? "viewer",
+    members,
+    invitations: ((row.list_invitations ?? []) as any[]).map(mapRowToListInvitation),
+  }
+}
+
+const LIST_COLUMNS =
+  "id, name, owner_id, list_members(user_id, email, role), list_invitations(id, list_id, list_name, email, role, created_at)"
+
+/** 목록과 구성원은 create_list, accept_list_invitation 함수로만 만들어집니다. */
+export const createSupabaseSharedListRepository = (
+  client: SupabaseClient = supabase
+): SharedListRepository => {
+  const currentUser = async () => (await client.auth.getSession()).data.session?.user ?? null
+
+  return {
+    async list() {
+      const { data, error } = await client.from("lists").select(LIST_COLUMNS).order("name")
+      if (error) return fail(error)
+      const user = await currentUser()
+      return ok((data ?? []).map((row) => mapRowToSharedList(row, user?.id ?? null)))
+    },
+
+    async create(name: string) {
+      const created = await client.rpc("create_list", { p_name: name })
+      if (created.error) return fail(created.error)
+      const { data, error } = await client
+        .from("lists")
+        .select(LIST_COLUMNS)
+        .eq("id", created.data.id)
+        .single()
+      if (error) return fail(error)
+      const user = await currentUser()
+      return ok(mapRowToSharedList(data, user?.id ?? null))
+    },
+
+    async remove(id: string) {
+      const { error } = await client.from("lists").delete().eq("id", id)
+      if (error) return fail(error)
+      return ok(null)
+    },
+
+    async invite(listId, email, role) {
+      const { data, error } = await client
+        .from("list_invitations")
+        .insert({ list_id: listId, email: email.trim().toLowerCase(), role })
+        .select("*")
+        .single()
+      if (error) return fail(error)
+      return ok(mapRowToListInvitation(data))
+    },
+
+    async cancelInvitation(id: string) {
+      const { error } = await client.from("list_invitations").delete().eq("id", id)
+      if (error) return fail(error)
+      return ok(null)
+    },
+
+    async changeRole(listId, userId, role) {
+      const { error } = await client
+        .from("list_members")
+        .update({ role })
+        .eq("list_id", listId)
+        .eq("user_id", userId)
+      if (error) return fail(error)
+      return ok(null)
+    },
+
+    async removeMember(listId: string, userId: string) {
+      const { error } = await client
+        .from("list_members")
+        .delete()
+        .eq("list_id", listId)
+        .eq("user_id", userId)
+      if (error) return fail(error)
+      return ok(null)
+    },
+
+    // 목록 주인에게는 보낸 초대도 보이므로 내 이메일로 온 것만 고릅니다.
+    async receivedInvitations() {
+      const email = (await currentUser())?.email?.toLowerCase()
+      if (!email) return ok([])
+      const { data, error } = await client
+        .from("list_invitations")
+        .select("*")
+        .eq("email", email)
+        .order("created_at", { ascending: false })
+      if (error) return fail(error)
+      return ok((data ?? []).map(mapRowToListInvitation))
+    },
+
+    async acceptInvitation(id: string) {
+      const { error } = await client.rpc("accept_list_invitation", { p_invitation_id: id })
+      if (error) return fail(error)
+      return ok(null)
+    },
+
+    async declineInvitation(id: string) {
+      const { error } = await client.from("list_invitations").delete().eq("id", id)
+      if (error) return fail(error)
+      return ok(null)
+    },
+  }
+}
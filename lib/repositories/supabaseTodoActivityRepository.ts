@@ -0,0 +1,38 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabaseClient"
+import type { TodoActivityRepository } from "@/lib/todoActivityRepository"
+import { fail, ok } from "@/lib/todoRepository"
+import type { TodoActivity, TodoActivityField } from "@/lib/types"
+
+const FIELD_FROM_COLUMN: Record<string, TodoActivityField> = {
+  text: "text",
+  category: "category",
+  priority: "priority",
+  due_date: "dueDate",
+  due_time: "dueTime",
+}
+
+export const mapRowToTodoActivity = (row: any): TodoActivity => ({
+  id: row.id,
+  todoId: row.todo_id,
+  kind: row.kind,
+  field: row.field ? FIELD_FROM_COLUMN[row.field] ?? null : null,
+  oldValue: row.old_value ?? null,
+  newValue: row.new_value ?? null,
+  changedAt: row.changed_at,
+})
+
+/** 기록은 todos 의 트리거가 남기므로 읽기만 합니다. */
+export const createSupabaseTodoActivityRepository = (
+  client: SupabaseClient = supabase
+): TodoActivityRepository => ({
+  async list(todoId: string) {
+    const { data, error } = await client
+      .from("todo_activity")
+      .select("*")
+      .eq("todo_id", todoId)
+      .order("changed_at", { ascending: false })
+    if (error) return fail(error)
+    return ok((data ?? []).map(mapRowToTodoActivity))
+  },
+})
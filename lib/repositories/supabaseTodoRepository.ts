@@ -0,0 +1,239 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabaseClient"
+import { localTimeZone, zonedDateTime } from "@/lib/dates"
+import {
+  fail,
+  ok,
+  toBulkResult,
+  TodoNotFoundError,
+  type TodoListOptions,
+  type TodoRepository,
+} from "@/lib/todoRepository"
+import type { PostgrestOrder } from "@/lib/todoList"
+import {
+  matchesTodoQuery,
+  toPostgrestFilters,
+  type PostgrestFilter,
+} from "@/lib/todoQuery"
+import type { Priority, Todo, TodoDraft, TodoPatch } from "@/lib/types"
+
+export const mapRowToTodo = (row: any): Todo => {
+  return {
+    id: row.id,
+    text: row.text,
+    category: row.category,
+    priority: row.priority as Priority,
+    dueDate: row.due_date ?? "",
+    // time 컬럼은 HH:MM:SS 로 옵니다.
+    dueTime: row.due_time ? String(row.due_time).slice(0, 5) : "",
+    dueAt: row.due_at ?? null,
+    completed: row.completed,
+    subtasks: row.subtasks ?? [],
+    recurrence: row.recurrence ?? null,
+    position: row.position ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+    archivedAt: row.archived_at ?? null,
+    deletedAt: row.deleted_at ?? null,
+    reminders: row.reminder_offsets ?? [],
+    listId: row.list_id ?? null,
+    assigneeId: row.assignee_id ?? null,
+    createdBy: row.user_id ?? null,
+  }
+}
+
+export const mapPatchToRow = (patch: TodoPatch) => {
+  const row: Record<string, unknown> = {}
+  if (patch.text !== undefined) row.text = patch.text
+  if (patch.category !== undefined) row.category = patch.category
+  if (patch.priority !== undefined) row.priority = patch.priority
+  if (patch.dueDate !== undefined) row.due_date = patch.dueDate || null
+  if (patch.dueTime !== undefined) row.due_time = patch.dueTime || null
+  if (patch.completed !== undefined) row.completed = patch.completed
+  if (patch.subtasks !== undefined) row.subtasks = patch.subtasks
+  if (patch.recurrence !== undefined) row.recurrence = patch.recurrence
+  if (patch.position !== undefined) row.position = patch.position
+  if (patch.createdAt !== undefined) row.created_at = patch.createdAt
+  if (patch.completedAt !== undefined) row.completed_at = patch.completedAt
+  if (patch.archivedAt !== undefined) row.archived_at = patch.archivedAt
+  if (patch.deletedAt !== undefined) row.deleted_at = patch.deletedAt
+  if (patch.reminders !== undefined) row.reminder_offsets = patch.reminders
+  if (patch.listId !== undefined) row.list_id = patch.listId
+  if (patch.assigneeId !== undefined) row.assignee_id = patch.assigneeId
+  return row
+}
+
+const toPostgrestList = (values: unknown) =>
+  `(${(values as string[]).map((value) => `"${value.replace(/"/g, '\\"')}"`).join(",")})`
+
+type TodoSelectBuilder = ReturnType<ReturnType<typeof supabase.from>["select"]>
+
+const applyPostgrestFilter = (
+  request: TodoSelectBuilder,
+  { method, column, value }: PostgrestFilter
+): TodoSelectBuilder => {
+  switch (method) {
+    case "eq":
+      return request.eq(column, value)
+    case "neq":
+      return request.neq(column, value)
+    case "in":
+      return request.in(column, value as unknown[])
+    case "notIn":
+      return request.not(column, "in", toPostgrestList(value))
+    case "lt":
+      return request.lt(column, value)
+    case "lte":
+      return request.lte(column, value)
+    case "gt":
+      return request.gt(column, value)
+    case "gte":
+      return request.gte(column, value)
+    case "is":
+      return request.is(column, null)
+    case "isNot":
+      return request.not(column, "is", null)
+    case "ilike":
+      return request.ilike(column, value as string)
+    case "notIlike":
+      return request.not(column, "ilike", value)
+  }
+}
+
+/** id 로 할일 하나를 읽습니다. 없거나 볼 권한이 없으면 null 입니다. API 에서 씁니다. */
+export const getSupabaseTodo = async (client: SupabaseClient, id: string) => {
+  const { data, error } = await client.from("todos").select("*").eq("id", id).maybeSingle()
+  if (error) return fail<Todo | null>(error)
+  return ok(data ? mapRowToTodo(data) : null)
+}
+
+/**
+ * filters 에 맞는 할일을 읽습니다. API 에서 씁니다. page 를 주면 그 순서로 정렬해 offset 부터
+ * limit 개만 받아오고, total 은 filters 에 맞는 전체 개수입니다. 주지 않으면 list() 처럼
+ * 최근에 만든 순서로 모두 받아옵니다.
+ */
+export const listSupabaseTodos = async (
+  client: SupabaseClient,
+  filters: PostgrestFilter[],
+  page?: { order: PostgrestOrder[]; offset: number; limit: number }
+) => {
+  let request = client.from("todos").select("*", { count: "exact" })
+  for (const filter of filters) request = applyPostgrestFilter(request, filter)
+  const orders: PostgrestOrder[] = page?.order ?? [{ column: "created_at", ascending: false }]
+  for (const { column, ascending, nullsFirst } of orders) {
+    request = request.order(column, { ascending, nullsFirst })
+  }
+  const { data, error, count } = await (page
+    ? request.range(page.offset, page.offset + page.limit - 1)
+    : request)
+  if (error) return fail<{ todos: Todo[]; total: number }>(error)
+  const todos = (data ?? []).map(mapRowToTodo)
+  return ok({ todos, total: count ?? todos.length })
+}
+
+/** client 를 주면 그 세션으로 요청합니다. API 는 요청한 사용자의 클라이언트를 넘깁니다. */
+export const createSupabaseTodoRepository = (
+  client: SupabaseClient = supabase
+): TodoRepository => ({
+  requiresAuth: true,
+
+  async list(options?: TodoListOptions) {
+    let request = client.from("todos").select("*")
+    const query = options?.query
+    const context = { now: options?.now ?? zonedDateTime(localTimeZone()) }
+    if (query) {
+      for (const filter of toPostgrestFilters(query, context)) {
+        request = applyPostgrestFilter(request, filter)
+      }
+    }
+    const { data, error } = await request.order("created_at", { ascending: false })
+    if (error) return fail(error)
+    const todos = (data ?? []).map(mapRowToTodo)
+    return ok(query ? todos.filter((todo) => matchesTodoQuery(todo, query, context)) : todos)
+  },
+
+  async create(draft: TodoDraft) {
+    const { data, error } = await client
+      .from("todos")
+      .insert({ ...mapPatchToRow(draft), completed: draft.completed ?? false })
+      .select("*")
+      .single()
+    if (error) return fail(error)
+    return ok(mapRowToTodo(data))
+  },
+
+  async createMany(drafts: TodoDraft[]) {
+    const { data, error } = await client
+      .from("todos")
+      .insert(
+        drafts.map((draft) => ({ ...mapPatchToRow(draft), completed: draft.completed ?? false }))
+      )
+      .select("*")
+    if (error) return fail(error)
+    return ok((data ?? []).map(mapRowToTodo))
+  },
+
+  // 만든 사람과 만든 시각도 그대로 넣어, 다른 구성원의 할일을 되살려도 주인이 바뀌지 않게 합니다.
+  async restore({ id, createdBy, ...todo }: Todo) {
+    const { data, error } = await client
+      .from("todos")
+      .insert({ ...mapPatchToRow(todo), id, ...(createdBy ? { user_id: createdBy } : {}) })
+      .select("*")
+      .single()
+    if (error) return fail(error)
+    return ok(mapRowToTodo(data))
+  },
+
+  // updateMany 처럼 바뀐 행을 돌려받아, RLS 에 막혀 아무 행도 바뀌지 않았으면 실패로 보고합니다.
+  async update(id: string, patch: TodoPatch) {
+    const { data, error } = await client
+      .from("todos")
+      .update(mapPatchToRow(patch))
+      .eq("id", id)
+      .select("id")
+    if (error) return fail(error)
+    if (!data || data.length === 0) return fail(new TodoNotFoundError(id))
+    return ok(null)
+  },
+
+  // RLS 에 막히거나 이미 지워진 행은 돌아오지 않으므로 그 id 를 실패로 보고합니다.
+  async updateMany(ids: string[], patch: TodoPatch) {
+    const { data, error } = await client
+      .from("todos")
+      .update(mapPatchToRow(patch))
+      .in("id", ids)
+      .select("id")
+    if (error) return fail(error)
+    return ok(toBulkResult(ids, (data ?? []).map((row) => row.id)))
+  },
+
+  async removeMany(ids: string[]) {
+    const { data, error } = await client
+      .from("todos")
+      .delete()
+      .in("id", ids)
+      .select("id")
+    if (error) return fail(error)
+    return ok(toBulkResult(ids, (data ?? []).map((row) => row.id)))
+  },
+
+  // 카테고리는 사용자마다 따로이므로, 편집할 수 있는 공유 목록에 있는 다른 구성원의 할일은 건드리지 않습니다.
+  async reassignCategory(from: string, to: string) {
+    const userId = (await client.auth.getSession()).data.session?.user.id
+    if (!userId) return fail(new Error("로그인 세션이 없습니다."))
+    const { error } = await client
+      .from("todos")
+      .update({ category: to })
+      .eq("category", from)
+      .eq("user_id", userId)
+    if (error) return fail(error)
+    return ok(null)
+  },
+
+  async remove(id: string) {
+    const { data, error } = await client.from("todos").delete().eq("id", id).select("id")
+    if (error) return fail(error)
+    if (!data || data.length === 0) return fail(new TodoNotFoundError(id))
+    return ok(null)
+  },
+})
@@ -0,0 +1,46 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabaseClient"
+import { fail, ok } from "@/lib/todoRepository"
+import type { UserSettings } from "@/lib/types"
+import type { UserSettingsRepository } from "@/lib/userSettingsRepository"
+
+export const mapRowToUserSettings = (row: any): UserSettings => ({
+  timeZone: row.time_zone,
+  remindersEnabled: row.reminders_enabled ?? false,
+  dailySummaryTime: row.daily_summary_time ? String(row.daily_summary_time).slice(0, 5) : null,
+  trashRetentionDays: row.trash_retention_days ?? 30,
+  autoArchiveDays: row.auto_archive_days ?? null,
+})
+
+const mapUserSettingsToRow = (patch: Partial<UserSettings>) => {
+  const row: Record<string, unknown> = {}
+  if (patch.timeZone !== undefined) row.time_zone = patch.timeZone
+  if (patch.remindersEnabled !== undefined) row.reminders_enabled = patch.remindersEnabled
+  if (patch.dailySummaryTime !== undefined) row.daily_summary_time = patch.dailySummaryTime
+  if (patch.trashRetentionDays !== undefined) row.trash_retention_days = patch.trashRetentionDays
+  if (patch.autoArchiveDays !== undefined) row.auto_archive_days = patch.autoArchiveDays
+  return row
+}
+
+/** client 를 주면 그 세션으로 요청합니다. API 는 요청한 사용자의 클라이언트를 넘깁니다. */
+export const createSupabaseUserSettingsRepository = (
+  client: SupabaseClient = supabase
+): UserSettingsRepository => ({
+  async get() {
+    const { data, error } = await client.from("user_settings").select("*").maybeSingle()
+    if (error) return fail(error)
+    return ok(data ? mapRowToUserSettings(data) : null)
+  },
+
+  // user_id 는 기본값 auth.uid() 로 채워지므로 행이 있으면 갱신, 없으면 새로 만듭니다.
+  // 주지 않은 열은 갱신할 때 그대로 두고 새로 만들 때 기본값을 씁니다.
+  async save(patch: Partial<UserSettings>) {
+    const { data, error } = await client
+      .from("user_settings")
+      .upsert(mapUserSettingsToRow(patch), { onConflict: "user_id" })
+      .select("*")
+      .single()
+    if (error) return fail(error)
+    return ok(mapRowToUserSettings(data))
+  },
+})
@@ -0,0 +1,23 @@
+import type { Todo } from "@/lib/types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const isOlderThan = (timestamp: string, days: number, now: number) =>
+  now - Date.parse(timestamp) >= days * DAY_MS
+
+/** 휴지통에 들어간 지 retentionDays 가 지나 완전히 지울 할일 */
+export const findExpiredTrash = (todos: Todo[], retentionDays: number, now = Date.now()) =>
+  todos.filter((todo) => todo.deletedAt && isOlderThan(todo.deletedAt, retentionDays, now))
+
+/** 완료한 지 archiveDays 가 지나 보관함으로 옮길 할일 */
+export const findArchivable = (todos: Todo[], archiveDays: number | null, now = Date.now()) =>
+  archiveDays === null
+    ? []
+    : todos.filter(
+        (todo) =>
+          todo.completed &&
+          !todo.archivedAt &&
+          !todo.deletedAt &&
+          todo.completedAt &&
+          isOlderThan(todo.completedAt, archiveDays, now)
+      )
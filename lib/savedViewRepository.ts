@@ -0,0 +1,9 @@
+import type { RepositoryResult } from "@/lib/todoRepository"
+import type { SavedView } from "@/lib/types"
+
+export interface SavedViewRepository {
+  /** 이름 순으로 반환합니다. */
+  list(): Promise<RepositoryResult<SavedView[]>>
+  create(view: Omit<SavedView, "id">): Promise<RepositoryResult<SavedView>>
+  remove(id: string): Promise<RepositoryResult<null>>
+}
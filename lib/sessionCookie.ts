@@ -0,0 +1,16 @@
+import type { Session } from "@supabase/supabase-js"
+
+/** /api 요청이 브라우저 로그인 세션으로 인증되도록 access token 을 담는 쿠키 */
+export const SESSION_COOKIE_NAME = "todo-vibe-access-token"
+
+/**
+ * supabase-js 는 세션을 localStorage 에만 두므로 세션이 바뀔 때마다 쿠키에도 적습니다.
+ * SameSite=Lax 라서 다른 사이트에서 보낸 변경 요청에는 실리지 않습니다.
+ */
+export const writeSessionCookie = (session: Session | null) => {
+  if (typeof document === "undefined") return
+  const secure = window.location.protocol === "https:" ? "; Secure" : ""
+  document.cookie = session
+    ? `${SESSION_COOKIE_NAME}=${session.access_token}; Path=/; Max-Age=${session.expires_in}; SameSite=Lax${secure}`
+    : `${SESSION_COOKIE_NAME}=; Path=/; Max-Age=0; SameSite=Lax${secure}`
+}
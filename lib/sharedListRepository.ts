@@ -0,0 +1,28 @@
+import type { RepositoryResult } from "@/lib/todoRepository"
+import type { ListInvitation, ListRole, SharedList } from "@/lib/types"
+
+export interface SharedListRepository {
+  /** 내가 속한 목록을 구성원과 함께 이름 순으로 반환합니다. */
+  list(): Promise<RepositoryResult<SharedList[]>>
+  /** 만든 사람이 owner 가 됩니다. */
+  create(name: string): Promise<RepositoryResult<SharedList>>
+  /** 목록의 할일도 함께 지워집니다. owner 만 할 수 있습니다. */
+  remove(id: string): Promise<RepositoryResult<null>>
+  invite(
+    listId: string,
+    email: string,
+    role: Exclude<ListRole, "owner">
+  ): Promise<RepositoryResult<ListInvitation>>
+  cancelInvitation(id: string): Promise<RepositoryResult<null>>
+  changeRole(
+    listId: string,
+    userId: string,
+    role: Exclude<ListRole, "owner">
+  ): Promise<RepositoryResult<null>>
+  /** owner 가 내보내거나, 자기 자신을 주면 목록에서 나갑니다. */
+  removeMember(listId: string, userId: string): Promise<RepositoryResult<null>>
+  /** 로그인한 이메일로 받은 초대 */
+  receivedInvitations(): Promise<RepositoryResult<ListInvitation[]>>
+  acceptInvitation(id: string): Promise<RepositoryResult<null>>
+  declineInvitation(id: string): Promise<RepositoryResult<null>>
+}
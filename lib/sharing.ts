@@ -0,0 +1,22 @@
+import type { ListRole, SharedList, Todo } from "@/lib/types"
+
+export const listRoleLabels: Record<ListRole, string> = {
+  owner: "주인",
+  editor: "편집자",
+  viewer: "보기 전용",
+}
+
+/** 개인 할일은 만든 사람만 보므로 owner 입니다. 아직 불러오지 못한 목록은 읽기만 허용합니다. */
+export const todoRole = (todo: Todo, lists: SharedList[]): ListRole => {
+  if (todo.listId === null) return "owner"
+  return lists.find((list) => list.id === todo.listId)?.role ?? "viewer"
+}
+
+/** RLS 의 todos update/delete 정책과 같은 규칙입니다. */
+export const canEditTodo = (todo: Todo, lists: SharedList[]) => todoRole(todo, lists) !== "viewer"
+
+export const memberEmail = (lists: SharedList[], listId: string | null, userId: string | null) => {
+  if (listId === null || userId === null) return null
+  const list = lists.find((candidate) => candidate.id === listId)
+  return list?.members.find((member) => member.userId === userId)?.email ?? null
+}
@@ -1,12 +1,17 @@
 import { createClient } from "@supabase/supabase-js"
+import { todoBackend } from "@/lib/config"
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (todoBackend === "supabase" && (!supabaseUrl || !supabaseAnonKey)) {
   throw new Error(
     "Missing Supabase environment variables. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY in .env.local."
   )
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
+// 로컬 백엔드에서는 클라이언트가 실제로 요청을 보내지 않으므로 자리표시 값으로 생성합니다.
+export const supabase = createClient(
+  supabaseUrl ?? "http://localhost:54321",
+  supabaseAnonKey ?? "local-anon-key"
+)
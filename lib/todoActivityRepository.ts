@@ -0,0 +1,7 @@
+import type { RepositoryResult } from "@/lib/todoRepository"
+import type { TodoActivity } from "@/lib/types"
+
+export interface TodoActivityRepository {
+  /** 최근 기록부터 반환합니다. 기록은 저장소가 할일을 바꿀 때 스스로 남깁니다. */
+  list(todoId: string): Promise<RepositoryResult<TodoActivity[]>>
+}
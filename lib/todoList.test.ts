@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest"
+import type { ZonedDateTime } from "@/lib/dates"
+import {
+  matchesFilter,
+  POSTGREST_SORT_ORDERS,
+  toPostgrestListFilters,
+  type TodoListCriteria,
+} from "@/lib/todoList"
+import { parseTodoQuery } from "@/lib/todoQuery"
+import type { Todo } from "@/lib/types"
+
+// 2026-10-21 은 수요일입니다.
+const now: ZonedDateTime = { date: "2026-10-21", time: "09:30", timeZone: "Asia/Seoul" }
+
+const criteria = (overrides: Partial<TodoListCriteria>): TodoListCriteria => ({
+  filter: "all",
+  categoryFilter: "all",
+  sortBy: "date",
+  ...overrides,
+})
+
+describe("matchesFilter", () => {
+  const todo = (dueDate: string, dueTime: string, dueAt: string | null): Todo => ({
+    id: "todo",
+    text: "보고서",
+    category: "업무",
+    priority: "medium",
+    dueDate,
+    dueTime,
+    dueAt,
+    completed: false,
+    subtasks: [],
+    recurrence: null,
+    position: null,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    reminders: [],
+    listId: null,
+    assigneeId: null,
+    createdBy: null,
+  })
+
+  it("puts a todo in today by its real deadline in the viewer's zone", () => {
+    // 뉴욕에서 10월 20일 20:00 마감으로 만든 할일은 서울 기준 10월 21일 09:00 마감입니다.
+    const shared = todo("2026-10-20", "20:00", "2026-10-21T00:00:00+00:00")
+    expect(matchesFilter(shared, "today", now)).toBe(true)
+    expect(matchesFilter(shared, "overdue", now)).toBe(true)
+    expect(matchesFilter(shared, "upcoming", now)).toBe(true)
+    const later = todo("2026-10-21", "20:00", "2026-10-22T00:00:00+00:00")
+    expect(matchesFilter(later, "today", now)).toBe(false)
+    expect(matchesFilter(later, "upcoming", now)).toBe(true)
+  })
+
+  it("keeps date-only todos on their date when no server deadline is known", () => {
+    expect(matchesFilter(todo("2026-10-21", "", null), "today", now)).toBe(true)
+    expect(matchesFilter(todo("2026-10-20", "", null), "today", now)).toBe(false)
+  })
+})
+
+describe("toPostgrestListFilters", () => {
+  it("translates smart lists in the user's time zone", () => {
+    expect(toPostgrestListFilters(criteria({ filter: "overdue" }), now, "me")).toEqual({
+      filters: [
+        { method: "eq", column: "completed", value: false },
+        { method: "lt", column: "due_at", value: "2026-10-21T00:30:00.000Z" },
+      ],
+      exact: true,
+    })
+    expect(toPostgrestListFilters(criteria({ filter: "completedThisWeek" }), now, "me")).toEqual({
+      filters: [
+        { method: "eq", column: "completed", value: true },
+        { method: "gte", column: "completed_at", value: "2026-10-17T15:00:00.000Z" },
+      ],
+      exact: true,
+    })
+  })
+
+  it("narrows today by due_at and leaves the day boundaries to the client", () => {
+    expect(toPostgrestListFilters(criteria({ filter: "today" }), now, "me")).toEqual({
+      filters: [
+        { method: "eq", column: "completed", value: false },
+        { method: "gte", column: "due_at", value: "2026-10-20T15:00:00.000Z" },
+        { method: "lte", column: "due_at", value: "2026-10-21T15:00:00.000Z" },
+      ],
+      exact: false,
+    })
+  })
+
+  it("adds category, list and assignee conditions", () => {
+    const { filters, exact } = toPostgrestListFilters(
+      criteria({ categoryFilter: "업무", listFilter: "personal", assigneeFilter: "me" }),
+      now,
+      "user-1"
+    )
+    expect(exact).toBe(true)
+    expect(filters).toEqual([
+      { method: "eq", column: "category", value: "업무" },
+      { method: "is", column: "list_id", value: null },
+      { method: "eq", column: "assignee_id", value: "user-1" },
+    ])
+  })
+
+  it("is inexact when the search needs the client", () => {
+    const fuzzy = criteria({ query: parseTodoQuery("보고서 is:open") })
+    expect(toPostgrestListFilters(fuzzy, now, "me").exact).toBe(false)
+    const exact = criteria({ query: parseTodoQuery("is:open priority:high") })
+    expect(toPostgrestListFilters(exact, now, "me").exact).toBe(true)
+  })
+
+  it("only offers server orders that match compareTodos", () => {
+    expect(Object.keys(POSTGREST_SORT_ORDERS).sort()).toEqual(["completedAt", "date"])
+  })
+})
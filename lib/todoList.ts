@@ -0,0 +1,260 @@
+import {
+  addDays,
+  localTimeZone,
+  startOfWeek,
+  zonedDateTime,
+  zonedInstant,
+  type ZonedDateTime,
+} from "@/lib/dates"
+import { compareDeadlines, deadlineDate, isOverdue } from "@/lib/deadlines"
+import { compareOrderKeys } from "@/lib/fractionalIndex"
+import {
+  isEmptyTodoQuery,
+  matchesTodoQuery,
+  translateTodoQuery,
+  type PostgrestFilter,
+  type PostgrestTranslation,
+  type TodoQuery,
+} from "@/lib/todoQuery"
+import type { Priority, Todo } from "@/lib/types"
+import {
+  smartListOptions,
+  type AssigneeFilterType,
+  type FilterType,
+  type SmartListType,
+  type SortType,
+} from "@/lib/viewState"
+
+/** 목록 화면, API, CLI 가 같은 규칙으로 할일을 고르고 정렬하도록 모아 둔 조건 */
+export interface TodoListCriteria {
+  filter: FilterType
+  /** "all" 이면 모든 카테고리 */
+  categoryFilter: string
+  /** "all", "personal" 또는 공유 목록 id. 없으면 "all" 입니다. */
+  listFilter?: string
+  assigneeFilter?: AssigneeFilterType
+  sortBy: SortType
+  query?: TodoQuery
+}
+
+const PRIORITY_ORDER: Record<Priority, number> = { high: 3, medium: 2, low: 1 }
+
+export const compareTodos = (sortBy: SortType) => (a: Todo, b: Todo) => {
+  switch (sortBy) {
+    case "priority":
+      return PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority]
+    case "category":
+      return a.category.localeCompare(b.category)
+    case "name":
+      return a.text.localeCompare(b.text)
+    case "manual":
+      return compareOrderKeys(a.position, b.position)
+    case "completedAt":
+      // 최근에 완료한 순서. 완료하지 않은 할일은 뒤로 보냅니다.
+      if (!a.completedAt && !b.completedAt) return 0
+      if (!a.completedAt) return 1
+      if (!b.completedAt) return -1
+      return b.completedAt.localeCompare(a.completedAt)
+    case "date":
+    default:
+      return compareDeadlines(a, b)
+  }
+}
+
+/**
+ * 다음 7일은 오늘을 포함합니다. 이번 주는 일요일부터 셉니다. now 는 사용자 시간대의 지금입니다.
+ * 오늘과 다음 7일은 마감 지남처럼 실제 마감 시각이 사용자 시간대로 어느 날인지로 셉니다.
+ */
+export const matchesFilter = (todo: Todo, filter: FilterType, now: ZonedDateTime) => {
+  switch (filter) {
+    case "all":
+      return true
+    case "completed":
+      return todo.completed
+    case "pending":
+      return !todo.completed
+    case "today":
+      return !todo.completed && deadlineDate(todo, now.timeZone) === now.date
+    case "overdue":
+      return isOverdue(todo, now)
+    case "upcoming": {
+      const date = deadlineDate(todo, now.timeZone)
+      return !todo.completed && date !== "" && date >= now.date && date < addDays(now.date, 7)
+    }
+    case "someday":
+      return !todo.completed && todo.dueDate === ""
+    case "completedThisWeek":
+      return (
+        todo.completed &&
+        todo.completedAt !== null &&
+        zonedDateTime(now.timeZone, new Date(todo.completedAt)).date >= startOfWeek(now.date)
+      )
+  }
+}
+
+/** 사이드바 배지에 쓰는 스마트 목록별 개수 */
+export const countSmartLists = (todos: Todo[], now: ZonedDateTime) =>
+  Object.fromEntries(
+    smartListOptions.map((option) => [
+      option.value,
+      todos.filter((todo) => matchesFilter(todo, option.value, now)).length,
+    ])
+  ) as Record<SmartListType, number>
+
+const matchesList = (todo: Todo, listFilter: string) => {
+  if (listFilter === "all") return true
+  if (listFilter === "personal") return todo.listId === null
+  return todo.listId === listFilter
+}
+
+/**
+ * 정렬은 안정적이므로 같은 값끼리는 들어온 순서를 유지합니다. now 는 사용자 시간대의 지금입니다.
+ * currentUserId 는 담당자 필터 "me" 에 씁니다. 없으면 "me" 에 맞는 할일도 없습니다.
+ */
+export const filterAndSortTodos = (
+  todos: Todo[],
+  {
+    filter,
+    categoryFilter,
+    listFilter = "all",
+    assigneeFilter = "all",
+    sortBy,
+    query,
+  }: TodoListCriteria,
+  now: ZonedDateTime = zonedDateTime(localTimeZone()),
+  currentUserId: string | null = null
+) => {
+  let filtered = todos.filter((todo) => matchesFilter(todo, filter, now))
+
+  if (categoryFilter !== "all") {
+    filtered = filtered.filter((todo) => todo.category === categoryFilter)
+  }
+
+  if (listFilter !== "all") {
+    filtered = filtered.filter((todo) => matchesList(todo, listFilter))
+  }
+
+  if (assigneeFilter === "me") {
+    filtered = filtered.filter(
+      (todo) => currentUserId !== null && todo.assigneeId === currentUserId
+    )
+  }
+
+  if (query && !isEmptyTodoQuery(query)) {
+    const context = { now }
+    filtered = filtered.filter((todo) => matchesTodoQuery(todo, query, context))
+  }
+
+  return filtered.sort(compareTodos(sortBy))
+}
+
+export interface PostgrestOrder {
+  column: string
+  ascending: boolean
+  nullsFirst?: boolean
+}
+
+/**
+ * compareTodos 와 같은 순서를 내는 PostgREST 정렬. 같은 값끼리는 list() 처럼 최근에 만든 순서입니다.
+ * 우선순위(값 순서가 글자 순서와 다름)와 글자 비교 정렬은 DB 정렬 규칙이 달라 없습니다.
+ */
+export const POSTGREST_SORT_ORDERS: Partial<Record<SortType, PostgrestOrder[]>> = {
+  date: [
+    { column: "due_date", ascending: true, nullsFirst: false },
+    { column: "due_time", ascending: true, nullsFirst: false },
+    { column: "created_at", ascending: false },
+    { column: "id", ascending: true },
+  ],
+  completedAt: [
+    { column: "completed_at", ascending: false, nullsFirst: false },
+    { column: "created_at", ascending: false },
+    { column: "id", ascending: true },
+  ],
+}
+
+const toIsoInstant = (date: string, time: string, timeZone: string) =>
+  new Date(zonedInstant(date, time, timeZone)).toISOString()
+
+// due_at 이 from 날짜의 0시부터 until 날짜의 0시까지인 할일. 시각이 있는 마감은 0시에 걸리면
+// 그날, 날짜만 있는 마감은 전날이므로 양 끝을 모두 넣고 나머지는 matchesFilter 로 다시 거릅니다.
+const deadlineBetween = (from: string, until: string, now: ZonedDateTime): PostgrestFilter[] => [
+  { method: "gte", column: "due_at", value: toIsoInstant(from, "00:00", now.timeZone) },
+  { method: "lte", column: "due_at", value: toIsoInstant(until, "00:00", now.timeZone) },
+]
+
+const filterToPostgrest = (filter: FilterType, now: ZonedDateTime): PostgrestTranslation => {
+  const open: PostgrestFilter = { method: "eq", column: "completed", value: false }
+  switch (filter) {
+    case "all":
+      return { filters: [], exact: true }
+    case "completed":
+      return { filters: [{ method: "eq", column: "completed", value: true }], exact: true }
+    case "pending":
+      return { filters: [open], exact: true }
+    case "today":
+      return {
+        filters: [open, ...deadlineBetween(now.date, addDays(now.date, 1), now)],
+        exact: false,
+      }
+    case "overdue":
+      return {
+        filters: [
+          open,
+          { method: "lt", column: "due_at", value: toIsoInstant(now.date, now.time, now.timeZone) },
+        ],
+        exact: true,
+      }
+    case "upcoming":
+      return {
+        filters: [open, ...deadlineBetween(now.date, addDays(now.date, 7), now)],
+        exact: false,
+      }
+    case "someday":
+      return { filters: [open, { method: "is", column: "due_date", value: null }], exact: true }
+    case "completedThisWeek":
+      return {
+        filters: [
+          { method: "eq", column: "completed", value: true },
+          {
+            method: "gte",
+            column: "completed_at",
+            value: toIsoInstant(startOfWeek(now.date), "00:00", now.timeZone),
+          },
+        ],
+        exact: true,
+      }
+  }
+}
+
+/**
+ * filterAndSortTodos 의 조건을 PostgREST 필터로 옮깁니다. 검색어처럼 서버에서 정확히 거를 수
+ * 없는 조건이 있으면 exact 가 false 이고, 받아온 행을 filterAndSortTodos 로 다시 걸러야 합니다.
+ */
+export const toPostgrestListFilters = (
+  { filter, categoryFilter, listFilter = "all", assigneeFilter = "all", query }: TodoListCriteria,
+  now: ZonedDateTime,
+  currentUserId: string | null
+): PostgrestTranslation => {
+  const { filters, exact: filterExact } = filterToPostgrest(filter, now)
+  let exact = filterExact
+
+  if (categoryFilter !== "all") {
+    filters.push({ method: "eq", column: "category", value: categoryFilter })
+  }
+  if (listFilter === "personal") {
+    filters.push({ method: "is", column: "list_id", value: null })
+  } else if (listFilter !== "all") {
+    filters.push({ method: "eq", column: "list_id", value: listFilter })
+  }
+  if (assigneeFilter === "me") {
+    if (currentUserId) filters.push({ method: "eq", column: "assignee_id", value: currentUserId })
+    else exact = false
+  }
+  if (query && !isEmptyTodoQuery(query)) {
+    const translated = translateTodoQuery(query, { now })
+    filters.push(...translated.filters)
+    exact = exact && translated.exact
+  }
+
+  return { filters, exact }
+}
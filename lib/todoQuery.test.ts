@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest"
+import type { ZonedDateTime } from "@/lib/dates"
+import { deadlineInstant } from "@/lib/deadlines"
+import {
+  fuzzyMatch,
+  matchesTodoQuery,
+  parseTodoQuery,
+  toPostgrestFilters,
+  translateTodoQuery,
+  type PostgrestFilter,
+} from "@/lib/todoQuery"
+import type { Todo } from "@/lib/types"
+
+const now: ZonedDateTime = { date: "2026-10-19", time: "12:00", timeZone: "Asia/Seoul" }
+const context = { now }
+
+const todo = (overrides: Partial<Todo>): Todo => ({
+  id: overrides.text ?? "todo",
+  text: "",
+  completed: false,
+  createdAt: "2026-10-01T00:00:00.000Z",
+  category: "업무",
+  priority: "medium",
+  dueDate: "",
+  dueTime: "",
+  dueAt: null,
+  subtasks: [],
+  recurrence: null,
+  position: null,
+  completedAt: null,
+  archivedAt: null,
+  deletedAt: null,
+  reminders: [],
+  listId: null,
+  assigneeId: null,
+  createdBy: null,
+  ...overrides,
+})
+
+const todos: Todo[] = [
+  todo({ text: "분기 보고서 작성", priority: "high", dueDate: "2026-10-18" }),
+  todo({ text: "Weekly report", category: "Work", dueDate: "2026-10-19", dueTime: "09:00" }),
+  todo({ text: "장보기", category: "개인", priority: "low", completed: true }),
+  todo({
+    text: "이사 준비",
+    category: "개인",
+    dueDate: "2026-11-02",
+    subtasks: [{ id: "s1", text: "박스 주문", completed: false }],
+  }),
+  todo({
+    text: "운동",
+    category: "건강",
+    dueDate: "2026-10-20",
+    recurrence: { frequency: "daily", interval: 1, seriesId: "series", occurrence: 1 },
+  }),
+  todo({ text: "100% 완료 확인", priority: "low" }),
+]
+
+/** 테스트용으로 PostgREST 필터를 메모리에서 흉내 냅니다. */
+const columnValue = (row: Todo, column: string): unknown => {
+  switch (column) {
+    case "due_date":
+      return row.dueDate || null
+    case "due_at": {
+      // 서버의 트리거처럼 dueDate/dueTime 을 시간대로 읽어 채웁니다.
+      const instant = deadlineInstant(row, now.timeZone)
+      return instant === null ? null : new Date(instant).toISOString()
+    }
+    case "subtasks":
+      return JSON.stringify(row.subtasks)
+    case "text":
+      return row.text
+    case "category":
+      return row.category
+    case "priority":
+      return row.priority
+    case "completed":
+      return row.completed
+    case "recurrence":
+      return row.recurrence
+    default:
+      throw new Error(`unknown column ${column}`)
+  }
+}
+
+const likeToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/\\([%_\\])|[%_]|[.*+?^${}()|[\]\\]/g, (match, escaped) => {
+        if (escaped) return `\\${escaped}`
+        if (match === "%") return ".*"
+        if (match === "_") return "."
+        return `\\${match}`
+      })}$`,
+    "i"
+  )
+
+const passesFilter = (row: Todo, { method, column, value }: PostgrestFilter) => {
+  const actual = columnValue(row, column)
+  switch (method) {
+    case "eq":
+      return actual !== null && actual === value
+    case "neq":
+      return actual !== null && actual !== value
+    case "in":
+      return (value as unknown[]).includes(actual)
+    case "notIn":
+      return !(value as unknown[]).includes(actual)
+    case "lt":
+      return actual !== null && (actual as string) < (value as string)
+    case "lte":
+      return actual !== null && (actual as string) <= (value as string)
+    case "gt":
+      return actual !== null && (actual as string) > (value as string)
+    case "gte":
+      return actual !== null && (actual as string) >= (value as string)
+    case "is":
+      return actual === null
+    case "isNot":
+      return actual !== null
+    case "ilike":
+      return likeToRegExp(value as string).test(actual as string)
+    case "notIlike":
+      return !likeToRegExp(value as string).test(actual as string)
+  }
+}
+
+const serverRows = (input: string) => {
+  const filters = toPostgrestFilters(parseTodoQuery(input), context)
+  return todos.filter((row) => filters.every((filter) => passesFilter(row, filter)))
+}
+
+const matchingTexts = (input: string) => {
+  const query = parseTodoQuery(input)
+  return todos.filter((row) => matchesTodoQuery(row, query, context)).map((row) => row.text)
+}
+
+describe("parseTodoQuery", () => {
+  it("splits terms and clauses with aliases, negation and comparisons", () => {
+    const query = parseTodoQuery('"분기 보고서" -p:low,medium d:<=today is:open')
+    expect(query.errors).toEqual([])
+    expect(query.terms).toEqual([{ value: "분기 보고서", negated: false }])
+    expect(query.clauses).toEqual([
+      { field: "priority", operator: "=", values: ["low", "medium"], negated: true },
+      { field: "due", operator: "<=", values: ["today"], negated: false },
+      { field: "is", operator: "=", values: ["open"], negated: false },
+    ])
+  })
+
+  it("reports unknown fields and invalid values without keeping them", () => {
+    const query = parseTodoQuery("color:red is:<open due:someday")
+    expect(query.clauses).toEqual([])
+    expect(query.errors).toHaveLength(3)
+  })
+})
+
+describe("matchesTodoQuery", () => {
+  it("matches terms fuzzily against the text and subtasks", () => {
+    expect(fuzzyMatch("Weekly report", "wkrep")).toBe(true)
+    expect(matchingTexts("보고")).toEqual(["분기 보고서 작성"])
+    expect(matchingTexts("박스")).toEqual(["이사 준비"])
+  })
+
+  it("compares categories case-insensitively", () => {
+    expect(matchingTexts("category:work")).toEqual(["Weekly report"])
+  })
+
+  it("keeps todos without a due date when a date condition is negated", () => {
+    expect(matchingTexts("-due:<2026-10-20")).toEqual([
+      "장보기",
+      "이사 준비",
+      "운동",
+      "100% 완료 확인",
+    ])
+  })
+
+  it("resolves overdue against the given time", () => {
+    expect(matchingTexts("is:overdue")).toEqual(["분기 보고서 작성", "Weekly report"])
+  })
+})
+
+describe("toPostgrestFilters", () => {
+  const queries = [
+    "",
+    "보고",
+    "-보고",
+    "wkrep",
+    "박스",
+    "-100%",
+    "category:work",
+    "-category:WORK,개인",
+    "c:개인,건강",
+    "priority:>=medium",
+    "-priority:low",
+    "due:today",
+    "due:<2026-10-20",
+    "-due:<2026-10-20",
+    "-due:2026-11-02",
+    "due:none",
+    "-due:none",
+    "due:<none",
+    "is:open",
+    "-is:done",
+    "is:recurring",
+    "-is:recurring",
+    "is:overdue",
+    "-is:overdue",
+    "has:subtasks",
+    "-has:subtasks",
+    "has:due -has:recurrence",
+    "is:open,recurring",
+  ]
+
+  it.each(queries)("never drops a todo that %j matches", (input) => {
+    const fromServer = serverRows(input).map((row) => row.text)
+    for (const text of matchingTexts(input)) expect(fromServer).toContain(text)
+    if (translateTodoQuery(parseTodoQuery(input), context).exact) {
+      expect(fromServer).toEqual(matchingTexts(input))
+    }
+  })
+
+  it("marks queries with terms or client-only clauses as inexact", () => {
+    const exact = (input: string) => translateTodoQuery(parseTodoQuery(input), context).exact
+    expect(exact("is:overdue c:work -priority:low has:subtasks")).toBe(true)
+    expect(exact("보고")).toBe(false)
+    expect(exact("-due:<2026-10-20")).toBe(false)
+    expect(exact("is:open,recurring")).toBe(false)
+  })
+
+  it("leaves fuzzy terms to the client", () => {
+    expect(toPostgrestFilters(parseTodoQuery("wkrep"), context)).toEqual([])
+  })
+
+  it("excludes literal substrings of negated terms on the server", () => {
+    expect(toPostgrestFilters(parseTodoQuery("-100%"), context)).toEqual([
+      { method: "notIlike", column: "text", value: "%100\\%%" },
+    ])
+  })
+
+  it("filters exact conditions on the server", () => {
+    expect(serverRows("category:work is:open -priority:low").map((row) => row.text)).toEqual([
+      "Weekly report",
+    ])
+  })
+})
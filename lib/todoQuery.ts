@@ -0,0 +1,374 @@
+import { addDays, zonedInstant, type ZonedDateTime } from "@/lib/dates"
+import { isOverdue } from "@/lib/deadlines"
+import type { Priority, Todo } from "@/lib/types"
+
+export type TodoQueryField = "priority" | "category" | "due" | "is" | "has"
+
+export type TodoQueryOperator = "=" | "<" | "<=" | ">" | ">="
+
+export interface TodoQueryClause {
+  field: TodoQueryField
+  operator: TodoQueryOperator
+  /** 쉼표로 나눈 값. 하나라도 맞으면 통과합니다. */
+  values: string[]
+  negated: boolean
+}
+
+export interface TodoQueryTerm {
+  value: string
+  negated: boolean
+}
+
+export interface TodoQuery {
+  terms: TodoQueryTerm[]
+  clauses: TodoQueryClause[]
+  /** 해석하지 못한 토큰에 대한 안내. 해당 토큰은 무시됩니다. */
+  errors: string[]
+}
+
+export interface TodoQueryContext {
+  /** 사용자 시간대의 지금. today/overdue 같은 값을 해석하는 기준입니다. */
+  now: ZonedDateTime
+}
+
+const FIELDS: TodoQueryField[] = ["priority", "category", "due", "is", "has"]
+
+const FIELD_ALIASES: Record<string, TodoQueryField> = {
+  p: "priority",
+  pri: "priority",
+  우선순위: "priority",
+  c: "category",
+  cat: "category",
+  카테고리: "category",
+  d: "due",
+  마감: "due",
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { low: 1, medium: 2, high: 3 }
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  low: "low",
+  낮음: "low",
+  medium: "medium",
+  med: "medium",
+  보통: "medium",
+  high: "high",
+  높음: "high",
+}
+
+const IS_VALUES = ["open", "pending", "done", "completed", "recurring", "overdue"]
+const HAS_VALUES = ["subtasks", "due", "recurrence"]
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DATE_KEYWORDS = ["today", "tomorrow", "yesterday", "none", "오늘", "내일", "어제", "없음"]
+
+export const EMPTY_TODO_QUERY: TodoQuery = { terms: [], clauses: [], errors: [] }
+
+/** 따옴표로 묶인 구간은 공백이 있어도 한 토큰으로 봅니다. */
+const tokenize = (input: string) =>
+  Array.from(input.matchAll(/(-?)(?:([^\s:"]+):)?(?:"([^"]*)"|(\S+))/g)).map(
+    ([, minus, field, quoted, bare]) => ({
+      negated: minus === "-",
+      field: field?.toLowerCase(),
+      value: quoted ?? bare ?? "",
+    })
+  )
+
+const validateValue = (field: TodoQueryField, value: string) => {
+  const lowered = value.toLowerCase()
+  if (field === "priority") return lowered in PRIORITY_ALIASES
+  if (field === "is") return IS_VALUES.includes(lowered)
+  if (field === "has") return HAS_VALUES.includes(lowered)
+  if (field === "due") return DATE_PATTERN.test(value) || DATE_KEYWORDS.includes(lowered)
+  return value.length > 0
+}
+
+/**
+ * 검색어를 해석합니다. 예: `보고서 priority:high category:업무 due:<2026-11-01 is:open`
+ * - 필드 없는 단어는 내용 검색어이며 모두 포함해야 합니다.
+ * - 앞에 `-` 를 붙이면 조건을 뒤집습니다. 값은 쉼표로 여러 개 줄 수 있습니다.
+ * - priority 와 due 는 `<`, `<=`, `>`, `>=` 비교를 지원합니다.
+ */
+export const parseTodoQuery = (input: string): TodoQuery => {
+  const query: TodoQuery = { terms: [], clauses: [], errors: [] }
+
+  for (const token of tokenize(input)) {
+    if (!token.field) {
+      if (token.value) query.terms.push({ value: token.value, negated: token.negated })
+      continue
+    }
+
+    const field =
+      FIELD_ALIASES[token.field] ??
+      FIELDS.find((candidate) => candidate === token.field)
+    if (!field) {
+      query.errors.push(`알 수 없는 조건입니다: ${token.field}`)
+      continue
+    }
+
+    const [, op, rest] = token.value.match(/^(<=|>=|<|>|=)?(.*)$/) ?? []
+    const operator = (op ?? "=") as TodoQueryOperator
+    if (operator !== "=" && field !== "priority" && field !== "due") {
+      query.errors.push(`${field} 에는 비교 연산자를 쓸 수 없습니다.`)
+      continue
+    }
+
+    const values = (rest ?? "").split(",").map((value) => value.trim()).filter(Boolean)
+    const invalid = values.filter((value) => !validateValue(field, value))
+    if (values.length === 0 || invalid.length > 0) {
+      query.errors.push(
+        `${field} 값을 해석하지 못했습니다: ${invalid.join(", ") || "(비어 있음)"}`
+      )
+      continue
+    }
+
+    query.clauses.push({ field, operator, values, negated: token.negated })
+  }
+
+  return query
+}
+
+export const isEmptyTodoQuery = (query: TodoQuery) =>
+  query.terms.length === 0 && query.clauses.length === 0
+
+/** due 값의 키워드를 날짜로 바꿉니다. none 은 null 입니다. */
+const resolveDate = (value: string, { now }: TodoQueryContext) => {
+  const today = now.date
+  const lowered = value.toLowerCase()
+  if (lowered === "today" || lowered === "오늘") return today
+  if (lowered === "tomorrow" || lowered === "내일") return addDays(today, 1)
+  if (lowered === "yesterday" || lowered === "어제") return addDays(today, -1)
+  if (lowered === "none" || lowered === "없음") return null
+  return value
+}
+
+const compare = (left: number | string, operator: TodoQueryOperator, right: number | string) => {
+  switch (operator) {
+    case "<":
+      return left < right
+    case "<=":
+      return left <= right
+    case ">":
+      return left > right
+    case ">=":
+      return left >= right
+    default:
+      return left === right
+  }
+}
+
+/**
+ * 글자가 순서대로 들어 있으면 퍼지 일치로 봅니다. 너무 흩어진 일치를 막기 위해
+ * 일치 구간 길이를 검색어 길이의 세 배로 제한합니다.
+ */
+export const fuzzyMatch = (text: string, term: string) => {
+  const haystack = text.toLowerCase()
+  const needle = term.toLowerCase()
+  if (haystack.includes(needle)) return true
+  if (needle.length < 2) return false
+
+  const maxSpan = needle.length * 3
+  for (let start = haystack.indexOf(needle[0]); start >= 0; start = haystack.indexOf(needle[0], start + 1)) {
+    let position = start
+    let matched = 1
+    while (matched < needle.length) {
+      position = haystack.indexOf(needle[matched], position + 1)
+      if (position < 0 || position - start >= maxSpan) break
+      matched++
+    }
+    if (matched === needle.length) return true
+  }
+  return false
+}
+
+const matchesValue = (
+  todo: Todo,
+  clause: TodoQueryClause,
+  value: string,
+  context: TodoQueryContext
+) => {
+  const lowered = value.toLowerCase()
+  switch (clause.field) {
+    case "priority":
+      return compare(
+        PRIORITY_RANK[todo.priority],
+        clause.operator,
+        PRIORITY_RANK[PRIORITY_ALIASES[lowered]]
+      )
+    case "category":
+      return todo.category.toLowerCase() === lowered
+    case "due": {
+      const date = resolveDate(value, context)
+      if (date === null) return clause.operator === "=" && !todo.dueDate
+      return Boolean(todo.dueDate) && compare(todo.dueDate, clause.operator, date)
+    }
+    case "is":
+      if (lowered === "open" || lowered === "pending") return !todo.completed
+      if (lowered === "done" || lowered === "completed") return todo.completed
+      if (lowered === "recurring") return todo.recurrence !== null
+      return isOverdue(todo, context.now)
+    case "has":
+      if (lowered === "subtasks") return todo.subtasks.length > 0
+      if (lowered === "due") return Boolean(todo.dueDate)
+      return todo.recurrence !== null
+  }
+}
+
+export const matchesTodoQuery = (
+  todo: Todo,
+  query: TodoQuery,
+  context: TodoQueryContext
+) => {
+  const searchable = [todo.text, ...todo.subtasks.map((subtask) => subtask.text)].join("\n")
+  const termsMatch = query.terms.every(
+    (term) => fuzzyMatch(searchable, term.value) !== term.negated
+  )
+  if (!termsMatch) return false
+
+  return query.clauses.every((clause) => {
+    const matched = clause.values.some((value) => matchesValue(todo, clause, value, context))
+    return matched !== clause.negated
+  })
+}
+
+export type PostgrestFilterMethod =
+  | "eq"
+  | "neq"
+  | "in"
+  | "notIn"
+  | "lt"
+  | "lte"
+  | "gt"
+  | "gte"
+  | "is"
+  | "isNot"
+  | "ilike"
+  | "notIlike"
+
+export interface PostgrestFilter {
+  method: PostgrestFilterMethod
+  column: string
+  value: unknown
+}
+
+export interface PostgrestTranslation {
+  filters: PostgrestFilter[]
+  /** true 면 filters 만으로 거른 결과가 클라이언트에서 거른 결과와 같습니다. */
+  exact: boolean
+}
+
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, (char) => `\\${char}`)
+
+/** PostgREST 는 like 패턴의 `*` 를 `%` 로 바꾸므로, `*` 가 든 값은 서버에서 정확히 거를 수 없습니다. */
+const toLikeLiteral = (value: string) => (value.includes("*") ? null : escapeLike(value))
+
+const COMPARISON_METHODS: Record<Exclude<TodoQueryOperator, "=">, PostgrestFilterMethod> = {
+  "<": "lt",
+  "<=": "lte",
+  ">": "gt",
+  ">=": "gte",
+}
+
+const termToFilter = (term: TodoQueryTerm): PostgrestFilter | null => {
+  // 퍼지 일치와 체크리스트 검색은 서버에서 표현할 수 없습니다. 본문에 그대로 든 단어를
+  // 빼는 조건만 보냅니다. 그런 할일은 퍼지 일치로도 맞으므로 어차피 빠집니다.
+  if (!term.negated) return null
+  const literal = toLikeLiteral(term.value)
+  return literal === null ? null : { method: "notIlike", column: "text", value: `%${literal}%` }
+}
+
+const clauseToFilters = (
+  clause: TodoQueryClause,
+  context: TodoQueryContext
+): PostgrestFilter[] | null => {
+  const lowered = clause.values.map((value) => value.toLowerCase())
+
+  if (clause.field === "priority") {
+    const priorities = (Object.keys(PRIORITY_RANK) as Priority[]).filter((priority) =>
+      lowered.some((value) =>
+        compare(PRIORITY_RANK[priority], clause.operator, PRIORITY_RANK[PRIORITY_ALIASES[value]])
+      )
+    )
+    return [{ method: clause.negated ? "notIn" : "in", column: "priority", value: priorities }]
+  }
+
+  if (clause.field === "category") {
+    // 카테고리는 대소문자를 가리지 않으므로 와일드카드 없는 ilike 로 비교합니다.
+    const literals = clause.values.map(toLikeLiteral)
+    if (literals.some((literal) => literal === null)) return null
+    if (clause.negated) {
+      return literals.map((literal) => ({ method: "notIlike", column: "category", value: literal }))
+    }
+    if (literals.length > 1) return null
+    return [{ method: "ilike", column: "category", value: literals[0] }]
+  }
+
+  if (clause.values.length > 1) return null
+
+  if (clause.field === "due") {
+    const date = resolveDate(clause.values[0], context)
+    if (date === null) {
+      if (clause.operator !== "=") return null
+      return [{ method: clause.negated ? "isNot" : "is", column: "due_date", value: null }]
+    }
+    // 뒤집은 날짜 조건은 기한 없는 할일도 남겨야 해서 OR 가 필요하므로 받아온 뒤 거릅니다.
+    if (clause.negated) return null
+    const method = clause.operator === "=" ? "eq" : COMPARISON_METHODS[clause.operator]
+    return [{ method, column: "due_date", value: date }]
+  }
+
+  const [value] = lowered
+  if (clause.field === "is") {
+    if (value === "open" || value === "pending" || value === "done" || value === "completed") {
+      const completed = value === "done" || value === "completed"
+      return [{ method: "eq", column: "completed", value: completed !== clause.negated }]
+    }
+    if (value === "recurring") {
+      return [{ method: clause.negated ? "is" : "isNot", column: "recurrence", value: null }]
+    }
+    if (clause.negated) return null
+    const { date, time, timeZone } = context.now
+    return [
+      { method: "eq", column: "completed", value: false },
+      // isOverdue 처럼 서버가 센 실제 마감 시각이 지금(분 단위)보다 앞서야 합니다.
+      {
+        method: "lt",
+        column: "due_at",
+        value: new Date(zonedInstant(date, time, timeZone)).toISOString(),
+      },
+    ]
+  }
+
+  if (value === "subtasks") {
+    return [{ method: clause.negated ? "eq" : "neq", column: "subtasks", value: "[]" }]
+  }
+  return [
+    {
+      method: clause.negated ? "is" : "isNot",
+      column: value === "due" ? "due_date" : "recurrence",
+      value: null,
+    },
+  ]
+}
+
+/**
+ * 쿼리를 PostgREST 필터 목록으로 옮깁니다. 필터는 matchesTodoQuery 가 남길 할일을 절대
+ * 빼지 않도록 만들며, 서버에서 정확히 표현할 수 없는 조건(퍼지 검색어, 여러 값을 OR 로
+ * 묶은 조건, 뒤집은 날짜 비교)은 빠집니다. exact 가 false 면 받아온 행에 matchesTodoQuery 를
+ * 한 번 더 적용해 결과를 맞춥니다.
+ */
+export const translateTodoQuery = (
+  query: TodoQuery,
+  context: TodoQueryContext
+): PostgrestTranslation => {
+  const clauses = query.clauses.map((clause) => clauseToFilters(clause, context))
+  return {
+    filters: [
+      ...query.terms.flatMap((term) => termToFilter(term) ?? []),
+      ...clauses.flatMap((filters) => filters ?? []),
+    ],
+    exact: query.terms.length === 0 && clauses.every((filters) => filters !== null),
+  }
+}
+
+export const toPostgrestFilters = (query: TodoQuery, context: TodoQueryContext) =>
+  translateTodoQuery(query, context).filters
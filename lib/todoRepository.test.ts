@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import {
+  applyTodoPatch,
+  fail,
+  isOwnTodo,
+  toBulkResult,
+  TodoNotFoundError,
+} from "@/lib/todoRepository"
+import type { Todo } from "@/lib/types"
+
+const todo: Todo = {
+  id: "todo-1",
+  text: "보고서",
+  category: "업무",
+  priority: "medium",
+  dueDate: "2026-10-20",
+  dueTime: "09:00",
+  dueAt: "2026-10-20T00:00:00+00:00",
+  completed: false,
+  subtasks: [],
+  recurrence: null,
+  position: null,
+  createdAt: "2026-10-01T00:00:00.000Z",
+  completedAt: null,
+  archivedAt: null,
+  deletedAt: null,
+  reminders: [],
+  listId: null,
+  assigneeId: null,
+  createdBy: null,
+}
+
+describe("applyTodoPatch", () => {
+  it("stamps completedAt when a todo is completed and clears it when reopened", () => {
+    const completed = applyTodoPatch(todo, { completed: true })
+    expect(completed.completedAt).not.toBeNull()
+    expect(applyTodoPatch(completed, { completed: false }).completedAt).toBeNull()
+  })
+
+  it("keeps completedAt when the completion state does not change", () => {
+    const completed = { ...todo, completed: true, completedAt: "2026-10-19T10:00:00.000Z" }
+    expect(applyTodoPatch(completed, { completed: true, text: "수정" }).completedAt).toBe(
+      "2026-10-19T10:00:00.000Z"
+    )
+    expect(applyTodoPatch(todo, { completed: true, completedAt: "x" }).completedAt).toBe("x")
+  })
+
+  it("drops the server deadline only when the due date or time changes", () => {
+    expect(applyTodoPatch(todo, { dueTime: "10:00" }).dueAt).toBeNull()
+    expect(applyTodoPatch(todo, { dueDate: "2026-10-20", text: "수정" }).dueAt).toBe(todo.dueAt)
+  })
+})
+
+describe("fail", () => {
+  it("keeps the message and code of PostgREST errors", () => {
+    const { error } = fail({ message: "new row violates row-level security policy", code: "42501" })
+    expect(error?.message).toBe("new row violates row-level security policy")
+    expect((error as Error & { code?: unknown }).code).toBe("42501")
+  })
+})
+
+describe("toBulkResult", () => {
+  it("reports ids that were not processed as not found", () => {
+    const result = toBulkResult(["a", "b"], ["a"])
+    expect(result.succeeded).toEqual(["a"])
+    expect(result.failed[0].error).toBeInstanceOf(TodoNotFoundError)
+  })
+})
+
+describe("isOwnTodo", () => {
+  it("treats todos without a creator as the user's own", () => {
+    expect(isOwnTodo(todo, "me")).toBe(true)
+    expect(isOwnTodo({ ...todo, createdBy: "me" }, "me")).toBe(true)
+    expect(isOwnTodo({ ...todo, createdBy: "other" }, "me")).toBe(false)
+  })
+})
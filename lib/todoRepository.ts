@@ -0,0 +1,114 @@
+import type { ZonedDateTime } from "@/lib/dates"
+import type { TodoQuery } from "@/lib/todoQuery"
+import type { Todo, TodoDraft, TodoPatch } from "@/lib/types"
+
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: Error }
+
+export interface TodoSyncState {
+  isOnline: boolean
+  isSyncing: boolean
+  /** 아직 서버에 반영되지 않은 변경이 있는 할일 id 목록 */
+  pendingIds: string[]
+  lastSyncedAt: number | null
+  lastError: Error | null
+}
+
+export interface TodoSyncController {
+  getState(): TodoSyncState
+  subscribe(listener: (state: TodoSyncState) => void): () => void
+  flush(): Promise<void>
+}
+
+/** 여러 할일에 한 번에 적용한 결과. 실패한 할일은 이유와 함께 따로 돌려줍니다. */
+export interface BulkResult {
+  succeeded: string[]
+  failed: { id: string; error: Error }[]
+}
+
+export interface TodoListOptions {
+  /** 주면 조건에 맞는 할일만 돌려줍니다. Supabase 는 가능한 조건을 서버에서 거릅니다. */
+  query?: TodoQuery
+  /** query 의 today/overdue 를 해석할 기준. 주지 않으면 이 기기 시간대의 지금입니다. */
+  now?: ZonedDateTime
+}
+
+export interface TodoRepository {
+  /** false 이면 로그인 세션 없이도 읽고 쓸 수 있습니다. */
+  readonly requiresAuth: boolean
+  list(options?: TodoListOptions): Promise<RepositoryResult<Todo[]>>
+  create(draft: TodoDraft): Promise<RepositoryResult<Todo>>
+  /** 여러 할일을 한 번의 요청으로 만듭니다. 하나라도 실패하면 모두 만들지 않습니다. */
+  createMany(drafts: TodoDraft[]): Promise<RepositoryResult<Todo[]>>
+  update(id: string, patch: TodoPatch): Promise<RepositoryResult<null>>
+  remove(id: string): Promise<RepositoryResult<null>>
+  /** 삭제한 할일을 같은 id 와 필드로 되살립니다. 되돌리기에서 사용합니다. */
+  restore(todo: Todo): Promise<RepositoryResult<Todo>>
+  /** 여러 할일에 같은 patch 를 한 번의 요청으로 적용합니다. */
+  updateMany(ids: string[], patch: TodoPatch): Promise<RepositoryResult<BulkResult>>
+  removeMany(ids: string[]): Promise<RepositoryResult<BulkResult>>
+  /** 카테고리는 사용자마다 따로이므로, 사용자가 만든 할일 중 category 가 from 인 것만 to 로 옮깁니다. */
+  reassignCategory(from: string, to: string): Promise<RepositoryResult<null>>
+  /** 오프라인 큐를 가진 저장소만 제공합니다. */
+  readonly sync?: TodoSyncController
+}
+
+/** 사용자가 만든 할일인지 봅니다. 로컬 저장소나 아직 서버에 없는 할일은 만든 사람이 비어 있습니다. */
+export const isOwnTodo = (todo: Todo, userId: string | null) =>
+  todo.createdBy === null || todo.createdBy === userId
+
+export const ok = <T>(data: T): RepositoryResult<T> => ({ data, error: null })
+
+/** 할일이 없거나 RLS 때문에 바꿀 수 없어 처리된 행이 없을 때의 오류. 저장소는 둘을 구분하지 못합니다. */
+export class TodoNotFoundError extends Error {
+  constructor(readonly id: string) {
+    super(`Todo ${id} not found or not permitted`)
+    this.name = "TodoNotFoundError"
+  }
+}
+
+/** 요청한 id 중 처리되어 돌아온 id 만 성공으로 보고 나머지는 실패로 돌립니다. */
+export const toBulkResult = (ids: string[], processedIds: string[]): BulkResult => {
+  const processed = new Set(processedIds)
+  return {
+    succeeded: ids.filter((id) => processed.has(id)),
+    failed: ids
+      .filter((id) => !processed.has(id))
+      .map((id) => ({ id, error: new TodoNotFoundError(id) })),
+  }
+}
+
+/**
+ * patch 를 적용한 할일. 저장소가 서버에서 채우는 값도 화면에서 맞춥니다.
+ * - 완료 상태가 바뀌면 Supabase 의 트리거처럼 completedAt 을 갱신합니다.
+ * - 마감 날짜나 시각이 바뀌면 저장소가 dueAt 을 다시 셀 때까지 비워, 그동안은 보는 사람의
+ *   시간대로 마감을 셉니다.
+ */
+export const applyTodoPatch = <T extends Todo>(todo: T, patch: TodoPatch): T => {
+  const next = { ...todo, ...patch }
+  const completionChanged = patch.completed !== undefined && patch.completed !== todo.completed
+  if (patch.completedAt === undefined && completionChanged) {
+    next.completedAt = patch.completed ? new Date().toISOString() : null
+  }
+  const deadlineChanged =
+    (patch.dueDate !== undefined && patch.dueDate !== todo.dueDate) ||
+    (patch.dueTime !== undefined && patch.dueTime !== todo.dueTime)
+  if (patch.dueAt === undefined && deadlineChanged) next.dueAt = null
+  return next
+}
+
+// PostgREST 오류는 Error 가 아닌 { message, code } 객체로 옵니다. 권한 오류를 가릴 수 있도록 code 를 남깁니다.
+const toError = (error: unknown) => {
+  if (error instanceof Error) return error
+  if (error && typeof error === "object" && "message" in error) {
+    const { message, code } = error as { message: unknown; code?: unknown }
+    return Object.assign(new Error(String(message)), { code })
+  }
+  return new Error(String(error))
+}
+
+export const fail = <T>(error: unknown): RepositoryResult<T> => ({
+  data: null,
+  error: toError(error),
+})
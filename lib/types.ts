@@ -0,0 +1,193 @@
+import type { ViewState } from "@/lib/viewState"
+
+export type Priority = "low" | "medium" | "high"
+
+export interface Subtask {
+  id: string
+  text: string
+  completed: boolean
+}
+
+export interface RecurrenceRule {
+  frequency: "daily" | "weekly" | "monthly" | "yearly"
+  /** 1 이면 매번, 2 이면 격주/격월처럼 건너뜁니다. */
+  interval: number
+  /** weekly 에서 반복할 요일. 0(일)~6(토), 비어 있으면 마감일의 요일 */
+  weekdays?: number[]
+  /** monthly 에서 날짜를 고르는 방식. 기본은 dayOfMonth */
+  monthlyMode?: "dayOfMonth" | "lastDay" | "lastBusinessDay"
+  /** dayOfMonth/yearly 에서 기준이 되는 일자. 없으면 마감일의 일자 */
+  monthDay?: number | null
+  /** YYYY-MM-DD, 이 날짜 이후로는 만들지 않습니다. */
+  until?: string | null
+  /** 시리즈 전체에서 만들 최대 횟수 */
+  count?: number | null
+}
+
+/** 할일마다 저장되는 반복 정보. 같은 시리즈는 seriesId 를 공유합니다. */
+export type TodoRecurrence = RecurrenceRule & {
+  seriesId: string
+  /** 시리즈 안에서 몇 번째 할일인지 (1부터) */
+  occurrence: number
+}
+
+export interface Todo {
+  id: string
+  text: string
+  category: string
+  priority: Priority
+  /** YYYY-MM-DD, 사용자 시간대의 날짜. 비어 있으면 마감이 없습니다. */
+  dueDate: string
+  /** HH:MM, 사용자 시간대의 시각. 비어 있으면 그날 하루가 끝날 때가 마감입니다. */
+  dueTime: string
+  /**
+   * 실제 마감 시각(ISO). 서버가 dueDate/dueTime 을 만든 사람의 시간대로 읽어 채웁니다.
+   * 로컬 저장소이거나 마감을 바꾼 뒤 아직 다시 받지 않았으면 null 입니다.
+   */
+  dueAt: string | null
+  completed: boolean
+  /** 배열 순서가 곧 표시 순서입니다. */
+  subtasks: Subtask[]
+  recurrence: TodoRecurrence | null
+  /** 직접 정렬 순서 키 (lib/fractionalIndex). 아직 정하지 않았으면 null */
+  position: string | null
+  /** 만든 ISO 시각. 저장소가 채웁니다. */
+  createdAt: string
+  /** ISO 시각. 완료 상태가 바뀔 때 저장소가 채웁니다. */
+  completedAt: string | null
+  /** 보관함으로 옮긴 시각. null 이면 목록에 보입니다. */
+  archivedAt: string | null
+  /** 휴지통으로 옮긴 시각. 보존 기간이 지나면 완전히 지웁니다. */
+  deletedAt: string | null
+  /** 마감 몇 분 전에 알릴지 (lib/reminders). 비어 있으면 알리지 않습니다. */
+  reminders: number[]
+  /** 공유 목록 id. null 이면 만든 사람만 보는 개인 할일입니다. */
+  listId: string | null
+  /** 담당자 user id. 공유 목록에서는 그 목록 구성원 중 한 명입니다. */
+  assigneeId: string | null
+  /** 만든 사람의 user id. 로컬 저장소에서는 null 입니다. */
+  createdBy: string | null
+}
+
+export type TodoDraft = Omit<
+  Todo,
+  | "id"
+  | "completed"
+  | "subtasks"
+  | "position"
+  | "createdAt"
+  | "completedAt"
+  | "archivedAt"
+  | "deletedAt"
+  | "reminders"
+  | "dueTime"
+  | "dueAt"
+  | "listId"
+  | "assigneeId"
+  | "createdBy"
+> & {
+  /** 가져오기처럼 완료된 채로 만들 때만 줍니다. 기본은 false */
+  completed?: boolean
+  /** 되살리기처럼 완료한 시각을 그대로 둘 때만 줍니다. 없으면 만든 시각입니다. */
+  completedAt?: string | null
+  subtasks?: Subtask[]
+  position?: string | null
+  reminders?: number[]
+  dueTime?: string
+  listId?: string | null
+  assigneeId?: string | null
+}
+
+export type TodoPatch = Partial<Omit<Todo, "id">>
+
+export interface Category {
+  id: string
+  name: string
+  /** #rrggbb 형식의 색상 */
+  color: string
+  sortOrder: number
+}
+
+export type CategoryDraft = Omit<Category, "id">
+
+export type CategoryPatch = Partial<CategoryDraft>
+
+export interface SavedView {
+  id: string
+  name: string
+  state: ViewState
+}
+
+/** API 용 개인 액세스 토큰. 원문은 만들 때만 알 수 있고 저장소에는 해시만 남습니다. */
+export interface AccessToken {
+  id: string
+  name: string
+  /** 목록에서 구분하도록 보여주는 토큰 앞부분 */
+  prefix: string
+  createdAt: string
+  lastUsedAt: string | null
+  /** 폐기한 시각. 폐기한 토큰은 더 이상 인증되지 않습니다. */
+  revokedAt: string | null
+}
+
+/** 기기와 상관없이 사용자마다 저장하는 설정 */
+export interface UserSettings {
+  /** IANA 시간대 (예: Asia/Seoul). 마감일과 "오늘"을 이 시간대로 셉니다. */
+  timeZone: string
+  /** 마감 알림을 받습니다. 켤 때 브라우저 알림 권한을 요청합니다. */
+  remindersEnabled: boolean
+  /** 매일 "오늘 마감" 요약을 받을 시각 (HH:MM). null 이면 받지 않습니다. */
+  dailySummaryTime: string | null
+  /** 휴지통에 들어간 지 이 일수가 지나면 완전히 지웁니다. */
+  trashRetentionDays: number
+  /** 완료한 지 이 일수가 지나면 보관함으로 옮깁니다. null 이면 자동으로 옮기지 않습니다. */
+  autoArchiveDays: number | null
+}
+
+/** 기록에 남기는 필드. 트리거(todo_activity)와 로컬 저장소가 같은 목록을 씁니다. */
+export type TodoActivityField = "text" | "category" | "priority" | "dueDate" | "dueTime"
+
+/** 할일 하나의 변경 기록. 한 번 남으면 고치거나 지우지 않습니다. */
+export interface TodoActivity {
+  id: string
+  todoId: string
+  kind: "created" | "updated" | "completed" | "reopened"
+  /** kind 가 updated 일 때만 있습니다. */
+  field: TodoActivityField | null
+  /** 바뀌기 전과 후의 값. 비어 있던 값은 null 입니다. */
+  oldValue: string | null
+  newValue: string | null
+  changedAt: string
+}
+
+/** owner 는 목록을 만든 사람이고, viewer 는 할일을 볼 수만 있습니다. */
+export type ListRole = "owner" | "editor" | "viewer"
+
+export interface ListMember {
+  userId: string
+  email: string
+  role: ListRole
+}
+
+/** 아직 수락하지 않은 초대. 받은 사람이 그 이메일로 로그인하면 보입니다. */
+export interface ListInvitation {
+  id: string
+  listId: string
+  /** 받은 초대를 보여줄 때 쓰는 목록 이름 */
+  listName: string
+  email: string
+  role: Exclude<ListRole, "owner">
+  createdAt: string
+}
+
+/** 여러 사람이 함께 쓰는 목록 */
+export interface SharedList {
+  id: string
+  name: string
+  ownerId: string
+  /** 지금 사용자의 역할 */
+  role: ListRole
+  members: ListMember[]
+  /** 주인에게만 보이는 보낸 초대 */
+  invitations: ListInvitation[]
+}
@@ -0,0 +1,19 @@
+import { DEFAULT_TIME_ZONE } from "@/lib/deadlines"
+import type { RepositoryResult } from "@/lib/todoRepository"
+import type { UserSettings } from "@/lib/types"
+
+/** 저장한 적 없는 설정의 값. DB 의 user_settings 기본값과 같습니다. */
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  timeZone: DEFAULT_TIME_ZONE,
+  remindersEnabled: false,
+  dailySummaryTime: "08:00",
+  trashRetentionDays: 30,
+  autoArchiveDays: null,
+}
+
+export interface UserSettingsRepository {
+  /** 한 번도 저장하지 않았으면 null 입니다. */
+  get(): Promise<RepositoryResult<UserSettings | null>>
+  /** 준 필드만 바꾸고 저장된 설정 전체를 돌려줍니다. */
+  save(patch: Partial<UserSettings>): Promise<RepositoryResult<UserSettings>>
+}
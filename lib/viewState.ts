@@ -0,0 +1,126 @@
+/** 마감일과 완료 시각으로 고르는 기본 목록 */
+export type SmartListType = "today" | "overdue" | "upcoming" | "someday" | "completedThisWeek"
+export type FilterType = "all" | "completed" | "pending" | SmartListType
+export type SortType = "date" | "priority" | "category" | "name" | "manual" | "completedAt"
+export type GroupType = "none" | "category" | "priority" | "status"
+export type LayoutType = "list" | "calendar" | "board"
+/** "me" 는 로그인한 사용자에게 맡긴 할일만 봅니다. */
+export type AssigneeFilterType = "all" | "me"
+
+/** 목록을 어떻게 보여줄지에 대한 상태. URL 과 저장된 보기에 그대로 담깁니다. */
+export interface ViewState {
+  filter: FilterType
+  categoryFilter: string
+  /** "all", 개인 할일만 보는 "personal", 또는 공유 목록 id */
+  listFilter: string
+  assigneeFilter: AssigneeFilterType
+  sortBy: SortType
+  groupBy: GroupType
+  search: string
+  layout: LayoutType
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  filter: "all",
+  categoryFilter: "all",
+  listFilter: "all",
+  assigneeFilter: "all",
+  sortBy: "date",
+  groupBy: "none",
+  search: "",
+  layout: "list",
+}
+
+/** sortBy 는 목록을 고를 때 함께 바꾸는 기본 정렬입니다. */
+export const smartListOptions: { value: SmartListType; label: string; sortBy: SortType }[] = [
+  { value: "today", label: "오늘", sortBy: "date" },
+  { value: "overdue", label: "기한 지남", sortBy: "date" },
+  { value: "upcoming", label: "다음 7일", sortBy: "date" },
+  { value: "someday", label: "언젠가", sortBy: "priority" },
+  { value: "completedThisWeek", label: "이번 주 완료", sortBy: "completedAt" },
+]
+
+export const groupOptions: { value: GroupType; label: string }[] = [
+  { value: "none", label: "묶지 않음" },
+  { value: "category", label: "카테고리" },
+  { value: "priority", label: "우선순위" },
+  { value: "status", label: "완료 여부" },
+]
+
+export const layoutOptions: { value: LayoutType; label: string }[] = [
+  { value: "list", label: "목록" },
+  { value: "calendar", label: "달력" },
+  { value: "board", label: "보드" },
+]
+
+export const FILTERS: FilterType[] = [
+  "all",
+  "completed",
+  "pending",
+  ...smartListOptions.map((option) => option.value),
+]
+export const SORTS: SortType[] = ["date", "priority", "category", "name", "manual", "completedAt"]
+export const ASSIGNEE_FILTERS: AssigneeFilterType[] = ["all", "me"]
+const GROUPS: GroupType[] = ["none", "category", "priority", "status"]
+const LAYOUTS: LayoutType[] = ["list", "calendar", "board"]
+
+const PARAM_KEYS: Record<keyof ViewState, string> = {
+  filter: "filter",
+  categoryFilter: "category",
+  listFilter: "list",
+  assigneeFilter: "assignee",
+  sortBy: "sort",
+  groupBy: "group",
+  search: "q",
+  layout: "view",
+}
+
+const pick = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback
+
+/** 저장된 값이나 URL 처럼 믿을 수 없는 입력을 ViewState 로 맞춥니다. */
+export const normalizeViewState = (input: Partial<Record<keyof ViewState, unknown>>): ViewState => ({
+  filter: pick(input.filter, FILTERS, DEFAULT_VIEW_STATE.filter),
+  categoryFilter:
+    typeof input.categoryFilter === "string" && input.categoryFilter !== ""
+      ? input.categoryFilter
+      : DEFAULT_VIEW_STATE.categoryFilter,
+  listFilter:
+    typeof input.listFilter === "string" && input.listFilter !== ""
+      ? input.listFilter
+      : DEFAULT_VIEW_STATE.listFilter,
+  assigneeFilter: pick(input.assigneeFilter, ASSIGNEE_FILTERS, DEFAULT_VIEW_STATE.assigneeFilter),
+  sortBy: pick(input.sortBy, SORTS, DEFAULT_VIEW_STATE.sortBy),
+  groupBy: pick(input.groupBy, GROUPS, DEFAULT_VIEW_STATE.groupBy),
+  search: typeof input.search === "string" ? input.search : DEFAULT_VIEW_STATE.search,
+  layout: pick(input.layout, LAYOUTS, DEFAULT_VIEW_STATE.layout),
+})
+
+export const viewStateFromSearchParams = (params: URLSearchParams): ViewState =>
+  normalizeViewState(
+    Object.fromEntries(
+      (Object.keys(PARAM_KEYS) as (keyof ViewState)[]).map((key) => [
+        key,
+        params.get(PARAM_KEYS[key]) ?? undefined,
+      ])
+    )
+  )
+
+/** 기본값과 같은 항목은 빼서 URL 을 짧게 유지합니다. 다른 쿼리 파라미터는 건드리지 않습니다. */
+export const applyViewStateToSearchParams = (
+  params: URLSearchParams,
+  state: ViewState
+) => {
+  const next = new URLSearchParams(params)
+  ;(Object.keys(PARAM_KEYS) as (keyof ViewState)[]).forEach((key) => {
+    if (state[key] === DEFAULT_VIEW_STATE[key]) {
+      next.delete(PARAM_KEYS[key])
+    } else {
+      next.set(PARAM_KEYS[key], state[key])
+    }
+  })
+  return next
+}
+
+export const isSameViewState = (a: ViewState, b: ViewState) =>
+  (Object.keys(PARAM_KEYS) as (keyof ViewState)[]).every((key) => a[key] === b[key])
@@ -0,0 +1,93 @@
+// 마감 알림 서비스 워커.
+// 페이지가 다가올 알림 목록(lib/reminders.ts 의 ScheduledReminder)을 보내면 IndexedDB 에 저장하고,
+// 목록을 받을 때와 주기적 백그라운드 동기화 때 시각이 된 알림을 한 번씩 보여줍니다.
+
+const DB_NAME = "todo-vibe-reminders"
+const STORE = "state"
+const PERIODIC_SYNC_TAG = "todo-reminders"
+// 브라우저가 오래 꺼져 있다 켜졌을 때 한참 지난 알림을 한꺼번에 띄우지 않습니다.
+const STALE_AFTER_MS = 12 * 60 * 60 * 1000
+
+const openDb = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "id" })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const readState = async (id, fallback) => {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE, "readonly").objectStore(STORE).get(id)
+    request.onsuccess = () => resolve(request.result ? request.result.value : fallback)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const writeState = async (id, value) => {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite")
+    transaction.objectStore(STORE).put({ id, value })
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+const deliverDueReminders = async () => {
+  const enabled = await readState("enabled", false)
+  if (!enabled || Notification.permission !== "granted") return
+
+  const now = Date.now()
+  const schedule = await readState("schedule", [])
+  const delivered = await readState("delivered", {})
+  for (const reminder of schedule) {
+    if (delivered[reminder.key] || reminder.fireAt > now) continue
+    delivered[reminder.key] = reminder.fireAt
+    if (now - reminder.fireAt > STALE_AFTER_MS) continue
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.key,
+      data: { url: reminder.url },
+    })
+  }
+
+  // 일정에서 빠진 지 하루가 지난 기록은 지웁니다.
+  const keys = new Set(schedule.map((reminder) => reminder.key))
+  for (const [key, fireAt] of Object.entries(delivered)) {
+    if (!keys.has(key) && now - fireAt > 24 * 60 * 60 * 1000) delete delivered[key]
+  }
+  await writeState("delivered", delivered)
+}
+
+self.addEventListener("install", () => self.skipWaiting())
+
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()))
+
+self.addEventListener("message", (event) => {
+  const message = event.data || {}
+  if (message.type === "reminders:schedule") {
+    event.waitUntil(
+      Promise.all([
+        writeState("enabled", message.enabled),
+        writeState("schedule", message.reminders),
+      ]).then(deliverDueReminders)
+    )
+  }
+})
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(deliverDueReminders())
+})
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = new URL((event.notification.data && event.notification.data.url) || "/", self.location.origin)
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((item) => new URL(item.url).origin === url.origin)
+      return client ? client.focus() : self.clients.openWindow(url.href)
+    })
+  )
+})
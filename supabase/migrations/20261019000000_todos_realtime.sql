@@ -0,0 +1,5 @@
+-- todos 변경을 Supabase Realtime 으로 전달합니다.
+-- DELETE 이벤트에 이전 행 전체가 실리도록 replica identity 를 full 로 둡니다.
+alter table public.todos replica identity full;
+
+alter publication supabase_realtime add table public.todos;
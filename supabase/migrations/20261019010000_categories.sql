@@ -0,0 +1,32 @@
+-- 사용자별 카테고리. todos.category 는 카테고리 이름을 그대로 저장합니다.
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) > 0),
+  color text not null default '#64748b' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists categories_user_sort_idx
+  on public.categories (user_id, sort_order);
+
+alter table public.categories enable row level security;
+
+create policy "categories are visible to their owner"
+  on public.categories for select
+  using (auth.uid() = user_id);
+
+create policy "categories are inserted by their owner"
+  on public.categories for insert
+  with check (auth.uid() = user_id);
+
+create policy "categories are updated by their owner"
+  on public.categories for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "categories are deleted by their owner"
+  on public.categories for delete
+  using (auth.uid() = user_id);
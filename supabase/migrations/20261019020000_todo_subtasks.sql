@@ -0,0 +1,7 @@
+-- 할일 안의 체크리스트. [{ "id": text, "text": text, "completed": boolean }, ...]
+-- 배열 순서가 표시 순서입니다.
+alter table public.todos
+  add column if not exists subtasks jsonb not null default '[]'::jsonb;
+
+alter table public.todos
+  add constraint todos_subtasks_is_array check (jsonb_typeof(subtasks) = 'array');
@@ -0,0 +1,9 @@
+-- 반복 규칙과 시리즈 정보. 예: { "frequency": "weekly", "interval": 1, "weekdays": [1],
+--   "seriesId": "...", "occurrence": 3 }
+-- 완료된 회차도 같은 seriesId 로 남아 반복 이력이 됩니다.
+alter table public.todos
+  add column if not exists recurrence jsonb;
+
+create index if not exists todos_recurrence_series_idx
+  on public.todos ((recurrence ->> 'seriesId'))
+  where recurrence is not null;
@@ -0,0 +1,26 @@
+-- 사용자가 저장한 목록 보기(필터, 정렬, 묶기, 검색어).
+-- state 예: { "filter": "pending", "categoryFilter": "업무", "sortBy": "priority",
+--   "groupBy": "none", "search": "priority:high" }
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) > 0),
+  state jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_views_user_idx on public.saved_views (user_id);
+
+alter table public.saved_views enable row level security;
+
+create policy "saved views are visible to their owner"
+  on public.saved_views for select
+  using (auth.uid() = user_id);
+
+create policy "saved views are inserted by their owner"
+  on public.saved_views for insert
+  with check (auth.uid() = user_id);
+
+create policy "saved views are deleted by their owner"
+  on public.saved_views for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,19 @@
+-- 직접 정렬 순서. lib/fractionalIndex 가 만드는 문자열 키를 바이트 순서로 비교해야 하므로
+-- collate "C" 를 씁니다. 할일을 옮길 때는 그 행의 position 만 바뀝니다.
+alter table public.todos
+  add column if not exists position text collate "C";
+
+-- 기존 행은 지금까지 보이던 순서(최근 생성 순)대로 키를 채웁니다.
+-- 0 으로 채운 번호 뒤에 'V' 를 붙여 키가 0 으로 끝나지 않게 합니다.
+with ordered as (
+  select id, row_number() over (partition by user_id order by created_at desc) as n
+  from public.todos
+  where position is null
+)
+update public.todos t
+set position = lpad(ordered.n::text, 10, '0') || 'V'
+from ordered
+where t.id = ordered.id;
+
+create index if not exists todos_user_position_idx
+  on public.todos (user_id, position);
@@ -0,0 +1,41 @@
+-- 휴지통(soft delete)과 보관함. 둘 다 null 이면 목록에 보이는 할일입니다.
+-- 보존 기간과 자동 보관 기준은 사용자 환경설정이므로 앱이 불러올 때 정리합니다.
+alter table public.todos
+  add column if not exists completed_at timestamptz,
+  add column if not exists archived_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+-- 이미 완료된 할일은 완료 시각을 알 수 없으므로 지금부터 셉니다.
+update public.todos
+set completed_at = now()
+where completed and completed_at is null;
+
+-- 완료 상태가 바뀔 때만 completed_at 을 갱신합니다. 되살리기처럼 값을 직접 넣으면 그대로 둡니다.
+create or replace function public.set_todo_completed_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.completed and new.completed_at is null then
+      new.completed_at := now();
+    end if;
+  elsif new.completed is distinct from old.completed then
+    new.completed_at := case when new.completed then now() else null end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists todos_set_completed_at on public.todos;
+create trigger todos_set_completed_at
+  before insert or update on public.todos
+  for each row execute function public.set_todo_completed_at();
+
+create index if not exists todos_user_deleted_at_idx
+  on public.todos (user_id, deleted_at)
+  where deleted_at is not null;
+
+create index if not exists todos_user_archived_at_idx
+  on public.todos (user_id, archived_at)
+  where archived_at is not null;
@@ -0,0 +1,56 @@
+-- API 용 개인 액세스 토큰. 원문은 만들 때 한 번만 보여주고 SHA-256 해시만 저장합니다.
+create table if not exists public.personal_access_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) > 0),
+  token_hash text not null unique check (token_hash ~ '^[0-9a-f]{64}$'),
+  -- 목록에서 토큰을 구분하도록 보여주는 앞부분 (예: tvp_AbCd)
+  token_prefix text not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists personal_access_tokens_user_idx
+  on public.personal_access_tokens (user_id);
+
+alter table public.personal_access_tokens enable row level security;
+
+create policy "access tokens are visible to their owner"
+  on public.personal_access_tokens for select
+  using (auth.uid() = user_id);
+
+create policy "access tokens are inserted by their owner"
+  on public.personal_access_tokens for insert
+  with check (auth.uid() = user_id);
+
+create policy "access tokens are revoked by their owner"
+  on public.personal_access_tokens for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "access tokens are deleted by their owner"
+  on public.personal_access_tokens for delete
+  using (auth.uid() = user_id);
+
+-- 토큰으로 들어온 API 요청은 아직 세션이 없으므로 RLS 를 거치지 않고 주인을 찾습니다.
+-- 폐기되지 않은 토큰이면 마지막 사용 시각을 남기고 user_id 를, 아니면 null 을 돌려줍니다.
+create or replace function public.verify_personal_access_token(p_token_hash text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  update public.personal_access_tokens
+  set last_used_at = now()
+  where token_hash = p_token_hash and revoked_at is null
+  returning user_id into v_user_id;
+  return v_user_id;
+end;
+$$;
+
+revoke all on function public.verify_personal_access_token(text) from public;
+grant execute on function public.verify_personal_access_token(text) to anon, authenticated;
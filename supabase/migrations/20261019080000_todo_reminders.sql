@@ -0,0 +1,5 @@
+-- 할일별 마감 알림. 마감 몇 분 전에 알릴지 담습니다 (0: 마감 시각, 60: 1시간 전, 1440: 1일 전).
+-- 알림은 브라우저의 서비스 워커가 보여주므로 서버에는 설정만 저장합니다.
+alter table public.todos
+  add column if not exists reminder_offsets integer[] not null default '{}'
+    check (0 <= all (reminder_offsets));
@@ -0,0 +1,103 @@
+-- 마감 시각과 사용자별 시간대.
+-- due_date/due_time 은 사용자 시간대의 날짜와 시각이고, due_at 은 그 둘을 시간대로 읽은 실제 마감 시각입니다.
+-- 시각이 없는 할일은 그날이 끝나는 때(다음 날 0시)가 마감입니다.
+create table if not exists public.user_settings (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  time_zone text not null default 'Asia/Seoul'
+);
+
+create or replace function public.is_valid_time_zone(p_time_zone text)
+returns boolean
+language plpgsql
+stable
+as $$
+begin
+  perform now() at time zone p_time_zone;
+  return true;
+exception when others then
+  return false;
+end;
+$$;
+
+alter table public.user_settings
+  drop constraint if exists user_settings_time_zone_check;
+alter table public.user_settings
+  add constraint user_settings_time_zone_check check (public.is_valid_time_zone(time_zone));
+
+alter table public.user_settings enable row level security;
+
+create policy "settings are visible to their owner"
+  on public.user_settings for select
+  using (auth.uid() = user_id);
+
+create policy "settings are inserted by their owner"
+  on public.user_settings for insert
+  with check (auth.uid() = user_id);
+
+create policy "settings are updated by their owner"
+  on public.user_settings for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter table public.todos
+  add column if not exists due_time time,
+  add column if not exists due_at timestamptz;
+
+-- 설정을 저장하기 전의 사용자는 이 앱이 처음 쓰이던 한국 시간으로 셉니다.
+create or replace function public.todo_due_at(p_due_date date, p_due_time time, p_user_id uuid)
+returns timestamptz
+language sql
+stable
+as $$
+  select case
+    when p_due_date is null then null
+    else (p_due_date + coalesce(p_due_time, time '00:00')
+      + case when p_due_time is null then interval '1 day' else interval '0' end)
+      at time zone coalesce(
+        (select time_zone from public.user_settings where user_id = p_user_id),
+        'Asia/Seoul'
+      )
+  end;
+$$;
+
+create or replace function public.set_todo_due_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.due_at := public.todo_due_at(new.due_date::date, new.due_time, new.user_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists todos_set_due_at on public.todos;
+create trigger todos_set_due_at
+  before insert or update of due_date, due_time, user_id on public.todos
+  for each row execute function public.set_todo_due_at();
+
+-- 시간대를 바꾸면 날짜와 시각은 그대로 두고 실제 마감 시각을 다시 셉니다.
+create or replace function public.refresh_user_due_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.todos
+  set due_at = public.todo_due_at(due_date::date, due_time, user_id)
+  where user_id = new.user_id and due_date is not null;
+  return null;
+end;
+$$;
+
+drop trigger if exists user_settings_refresh_due_at on public.user_settings;
+create trigger user_settings_refresh_due_at
+  after insert or update of time_zone on public.user_settings
+  for each row execute function public.refresh_user_due_at();
+
+-- 기존 할일은 날짜만 있으므로 하루 종일 할일로 옮깁니다. due_date 는 그대로 남습니다.
+update public.todos
+set due_at = public.todo_due_at(due_date::date, due_time, user_id)
+where due_date is not null;
+
+create index if not exists todos_user_due_at_idx
+  on public.todos (user_id, due_at)
+  where due_at is not null;
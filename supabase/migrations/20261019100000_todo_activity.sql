@@ -0,0 +1,69 @@
+-- 할일마다 바뀐 필드와 완료/다시 열기를 쌓아 두는 기록.
+-- 어떤 클라이언트(화면, API, CLI)로 바꿔도 남도록 트리거가 씁니다. 사용자는 읽기만 할 수 있습니다.
+create table if not exists public.todo_activity (
+  id uuid primary key default gen_random_uuid(),
+  todo_id uuid not null references public.todos (id) on delete cascade,
+  -- 바꾼 사람. 서비스 키나 SQL 로 바꿔 auth.uid() 가 없으면 할일 주인을 남깁니다.
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('created', 'updated', 'completed', 'reopened')),
+  -- kind 가 updated 일 때만 채웁니다. 값은 모두 글자로 저장하고 비어 있으면 null 입니다.
+  field text check (field in ('text', 'category', 'priority', 'due_date', 'due_time')),
+  old_value text,
+  new_value text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists todo_activity_todo_changed_idx
+  on public.todo_activity (todo_id, changed_at desc);
+
+alter table public.todo_activity enable row level security;
+
+-- insert/update/delete 정책이 없으므로 클라이언트는 기록을 고치거나 지울 수 없습니다.
+create policy "activity is visible to its owner"
+  on public.todo_activity for select
+  using (
+    exists (
+      select 1 from public.todos
+      where todos.id = todo_activity.todo_id and todos.user_id = auth.uid()
+    )
+  );
+
+create or replace function public.log_todo_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor uuid := coalesce(auth.uid(), new.user_id);
+begin
+  if tg_op = 'INSERT' then
+    insert into public.todo_activity (todo_id, user_id, kind)
+    values (new.id, actor, 'created');
+    return null;
+  end if;
+
+  if new.completed is distinct from old.completed then
+    insert into public.todo_activity (todo_id, user_id, kind)
+    values (new.id, actor, case when new.completed then 'completed' else 'reopened' end);
+  end if;
+
+  insert into public.todo_activity (todo_id, user_id, kind, field, old_value, new_value)
+  select new.id, actor, 'updated', change.field, change.old_value, change.new_value
+  from (values
+    ('text', old.text::text, new.text::text),
+    ('category', old.category::text, new.category::text),
+    ('priority', old.priority::text, new.priority::text),
+    ('due_date', old.due_date::text, new.due_date::text),
+    ('due_time', to_char(old.due_time, 'HH24:MI'), to_char(new.due_time, 'HH24:MI'))
+  ) as change (field, old_value, new_value)
+  where change.old_value is distinct from change.new_value;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists todos_log_activity on public.todos;
+create trigger todos_log_activity
+  after insert or update on public.todos
+  for each row execute function public.log_todo_activity();
@@ -0,0 +1,258 @@
+-- 여러 사람이 함께 쓰는 목록. 목록 주인이 이메일로 편집자나 보기 전용 구성원을 초대합니다.
+-- list_id 가 없는 할일은 지금처럼 만든 사람만 볼 수 있는 개인 할일입니다.
+create table if not exists public.lists (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- 주인도 owner 역할의 구성원으로 들어갑니다. email 은 화면에 담당자와 작성자를 보여주기 위한 사본입니다.
+create table if not exists public.list_members (
+  list_id uuid not null references public.lists (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (list_id, user_id)
+);
+
+create index if not exists list_members_user_idx on public.list_members (user_id);
+
+-- 아직 가입하지 않은 사람도 초대할 수 있도록 이메일로 남겨 두고, 그 이메일로 로그인하면 수락합니다.
+create table if not exists public.list_invitations (
+  id uuid primary key default gen_random_uuid(),
+  list_id uuid not null references public.lists (id) on delete cascade,
+  email text not null check (email = lower(trim(email)) and email like '%@%'),
+  role text not null check (role in ('editor', 'viewer')),
+  -- 받은 사람은 아직 구성원이 아니라 lists 를 읽을 수 없으므로 이름을 함께 둡니다.
+  list_name text not null default '',
+  invited_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (list_id, email)
+);
+
+alter table public.todos
+  add column if not exists list_id uuid references public.lists (id) on delete cascade,
+  add column if not exists assignee_id uuid references auth.users (id) on delete set null;
+
+create index if not exists todos_list_idx on public.todos (list_id) where list_id is not null;
+create index if not exists todos_assignee_idx on public.todos (assignee_id) where assignee_id is not null;
+
+-- 정책 안에서 list_members 를 다시 RLS 로 읽으면 재귀가 되므로 security definer 로 역할만 돌려줍니다.
+create or replace function public.list_role(p_list_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.list_members where list_id = p_list_id and user_id = auth.uid();
+$$;
+
+-- 개인 할일은 나에게만, 목록 할일은 그 목록 구성원에게만 맡길 수 있습니다.
+create or replace function public.can_assign_todo(p_list_id uuid, p_assignee_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_assignee_id is null then true
+    when p_list_id is null then p_assignee_id = auth.uid()
+    else exists (
+      select 1 from public.list_members where list_id = p_list_id and user_id = p_assignee_id
+    )
+  end;
+$$;
+
+-- 목록과 주인 구성원을 함께 만듭니다. insert 직후에는 아직 구성원이 아니라 select 정책에 걸리므로 함수로 묶습니다.
+create or replace function public.create_list(p_name text)
+returns public.lists
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_list public.lists;
+begin
+  insert into public.lists (name, owner_id)
+  values (trim(p_name), auth.uid())
+  returning * into v_list;
+
+  insert into public.list_members (list_id, user_id, email, role)
+  select v_list.id, users.id, lower(users.email), 'owner'
+  from auth.users as users
+  where users.id = auth.uid();
+  return v_list;
+end;
+$$;
+
+create or replace function public.set_invitation_list_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select name into new.list_name from public.lists where id = new.list_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists list_invitations_set_list_name on public.list_invitations;
+create trigger list_invitations_set_list_name
+  before insert on public.list_invitations
+  for each row execute function public.set_invitation_list_name();
+
+-- 로그인한 이메일로 온 초대를 받아들여 구성원이 됩니다.
+create or replace function public.accept_list_invitation(p_invitation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.list_invitations;
+  v_email text := lower(auth.jwt() ->> 'email');
+begin
+  select * into v_invitation
+  from public.list_invitations
+  where id = p_invitation_id and email = v_email;
+  if not found then
+    raise exception 'invitation not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.list_members (list_id, user_id, email, role)
+  values (v_invitation.list_id, auth.uid(), v_email, v_invitation.role)
+  on conflict (list_id, user_id) do nothing;
+  delete from public.list_invitations where id = p_invitation_id;
+end;
+$$;
+
+alter table public.lists enable row level security;
+alter table public.list_members enable row level security;
+alter table public.list_invitations enable row level security;
+
+create policy "lists are visible to their members"
+  on public.lists for select
+  using (public.list_role(id) is not null);
+
+-- 주인도 이름만 바꿀 수 있습니다.
+revoke update on public.lists from anon, authenticated;
+grant update (name) on public.lists to authenticated;
+
+create policy "lists are renamed by their owner"
+  on public.lists for update
+  using (public.list_role(id) = 'owner')
+  with check (public.list_role(id) = 'owner');
+
+create policy "lists are deleted by their owner"
+  on public.lists for delete
+  using (public.list_role(id) = 'owner');
+
+-- 목록과 구성원은 create_list 와 accept_list_invitation 으로만 만들어지므로 insert 정책이 없습니다.
+create policy "members are visible to other members"
+  on public.list_members for select
+  using (public.list_role(list_id) is not null);
+
+-- 역할만 바꿀 수 있도록 update 권한을 role 열로 좁힙니다. 그러지 않으면 주인이 list_id 나 user_id 를
+-- 바꿔 다른 목록에 자신이나 다른 계정을 넣을 수 있습니다.
+revoke update on public.list_members from anon, authenticated;
+grant update (role) on public.list_members to authenticated;
+
+create policy "member roles are changed by the owner"
+  on public.list_members for update
+  using (public.list_role(list_id) = 'owner' and role <> 'owner')
+  with check (public.list_role(list_id) = 'owner' and role in ('editor', 'viewer'));
+
+-- 주인은 다른 구성원을 내보낼 수 있고, 주인이 아닌 구성원은 스스로 나갈 수 있습니다.
+create policy "members are removed by the owner or leave by themselves"
+  on public.list_members for delete
+  using (
+    role <> 'owner'
+    and (public.list_role(list_id) = 'owner' or auth.uid() = user_id)
+  );
+
+create policy "invitations are visible to the owner and the invitee"
+  on public.list_invitations for select
+  using (
+    public.list_role(list_id) = 'owner'
+    or email = lower(auth.jwt() ->> 'email')
+  );
+
+create policy "invitations are sent by the owner"
+  on public.list_invitations for insert
+  with check (public.list_role(list_id) = 'owner' and auth.uid() = invited_by);
+
+create policy "invitations are cancelled by the owner or declined by the invitee"
+  on public.list_invitations for delete
+  using (
+    public.list_role(list_id) = 'owner'
+    or email = lower(auth.jwt() ->> 'email')
+  );
+
+-- 기존 todos 정책은 만든 사람만 보도록 되어 있으므로 목록 역할을 함께 보는 정책으로 바꿉니다.
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies where schemaname = 'public' and tablename = 'todos'
+  loop
+    execute format('drop policy %I on public.todos', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+alter table public.todos enable row level security;
+
+create policy "todos are visible to their owner or list members"
+  on public.todos for select
+  using (
+    case
+      when list_id is null then auth.uid() = user_id
+      else public.list_role(list_id) is not null
+    end
+  );
+
+create policy "todos are created by their owner or list editors"
+  on public.todos for insert
+  with check (
+    -- 되살리기는 공유 목록에서 다른 구성원이 만든 할일을 만든 사람 그대로 다시 넣습니다.
+    (auth.uid() = user_id or (list_id is not null and public.can_assign_todo(list_id, user_id)))
+    and (list_id is null or public.list_role(list_id) in ('owner', 'editor'))
+    and public.can_assign_todo(list_id, assignee_id)
+  );
+
+create policy "todos are updated by their owner or list editors"
+  on public.todos for update
+  using (
+    case
+      when list_id is null then auth.uid() = user_id
+      else public.list_role(list_id) in ('owner', 'editor')
+    end
+  )
+  with check (
+    case
+      when list_id is null then auth.uid() = user_id
+      else public.list_role(list_id) in ('owner', 'editor')
+    end
+    and public.can_assign_todo(list_id, assignee_id)
+  );
+
+create policy "todos are deleted by their owner or list editors"
+  on public.todos for delete
+  using (
+    case
+      when list_id is null then auth.uid() = user_id
+      else public.list_role(list_id) in ('owner', 'editor')
+    end
+  );
+
+-- 목록 할일의 변경 기록은 그 할일을 볼 수 있는 구성원 모두가 봅니다.
+drop policy if exists "activity is visible to its owner" on public.todo_activity;
+create policy "activity is visible to those who can see the todo"
+  on public.todo_activity for select
+  using (exists (select 1 from public.todos where todos.id = todo_activity.todo_id));
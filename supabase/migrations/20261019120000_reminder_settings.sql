@@ -0,0 +1,6 @@
+-- 마감 알림 설정을 계정마다 저장합니다. 같은 브라우저를 쓰는 다른 계정의 설정을 따라가지 않도록 합니다.
+-- 알림을 실제로 띄우려면 기기마다 브라우저 알림 권한이 있어야 합니다.
+alter table public.user_settings
+  add column if not exists reminders_enabled boolean not null default false,
+  -- 매일 "오늘 마감" 요약을 받을 시각. null 이면 받지 않습니다.
+  add column if not exists daily_summary_time time default '08:00';
@@ -0,0 +1,7 @@
+-- 휴지통 보존 기간과 자동 보관 설정을 계정마다 저장합니다.
+-- 브라우저마다 값이 달라 가장 짧은 값으로 지워지는 일이 없도록 합니다.
+alter table public.user_settings
+  add column if not exists trash_retention_days integer not null default 30
+    check (trash_retention_days >= 1),
+  -- 완료한 지 이 일수가 지나면 보관함으로 옮깁니다. null 이면 자동으로 옮기지 않습니다.
+  add column if not exists auto_archive_days integer check (auto_archive_days >= 1);